@@ -1,194 +1,207 @@
 "use server";
 
-import dns from 'dns/promises';
-import tls from 'tls';
-import net from 'net';
-
-// --- HELPER 1: SSL CHECKER ---
-async function getSSLDetails(domain: string) {
-  return new Promise<{ daysRemaining: number, valid: boolean, issuer: string } | null>((resolve) => {
-    try {
-      const socket = tls.connect({
-        host: domain,
-        port: 443,
-        servername: domain,
-        rejectUnauthorized: false, // Allow us to see expired certs without crashing
-        timeout: 4000
-      }, () => {
-        const cert = socket.getPeerCertificate();
-        if (!cert || Object.keys(cert).length === 0) {
-          socket.end();
-          resolve(null);
-          return;
-        }
-        const validTo = new Date(cert.valid_to);
-        const daysRemaining = Math.floor((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-        socket.end();
-        resolve({ daysRemaining, valid: daysRemaining > 0, issuer: cert.issuer.O || "Unknown" });
-      });
-      socket.on('error', () => resolve(null));
-      socket.on('timeout', () => { socket.destroy(); resolve(null); });
-    } catch (e) { resolve(null); }
-  });
-}
-
-// --- HELPER 2: PORT SCANNER ---
-async function checkPort(domain: string, port: number): Promise<boolean> {
-    return new Promise((resolve) => {
-        const socket = new net.Socket();
-        socket.setTimeout(2500);
-        socket.on('connect', () => { socket.destroy(); resolve(true); });
-        socket.on('timeout', () => { socket.destroy(); resolve(false); });
-        socket.on('error', () => { socket.destroy(); resolve(false); });
-        socket.connect(port, domain);
-    });
-}
-
-// --- HELPER 3: ADVANCED CMS DETECTOR (New) ---
-// This function looks for multiple clues, not just one.
-function identifyCMS(html: string, headers: Headers): string | null {
-  const lowerHtml = html.toLowerCase();
-  
-  // 1. WordPress (Multiple Checks)
-  if (
-      lowerHtml.includes('/wp-content/') || 
-      lowerHtml.includes('/wp-includes/') ||
-      lowerHtml.includes('wp-json') ||
-      lowerHtml.includes('class="wp-block') ||
-      lowerHtml.includes('id="wp-admin-bar') ||
-      headers.get('x-powered-by')?.includes('WP Engine')
-  ) {
-      return "WordPress";
-  }
+import { audit } from './auditLog';
+import { authenticate, canViewDomain, clearSession, createFirstAdmin, currentUser, deleteUser, hasUsers, listUsers, requireDomainAccess, requireUser, saveUser, type UserSettings } from './auth';
+import { deleteNote, listNotes, saveNote } from './findingNotes';
+import { deleteMonitor, listMonitors, runMonitor, saveMonitor, sendTestAlert, type AlertDelivery, type Monitor, type MonitorSettings } from './monitoring';
+import { deleteOrganisation, getOrganisation, listOrganisations, reportOptionsFor, saveOrganisation, type OrganisationSettings } from './organisations';
+import { resolvePortSelection } from './portProfiles';
+import { getPortfolioBatch, parsePortfolioCsv, startPortfolioBatch, type PortfolioBatch, type PortfolioSettings } from './portfolio';
+import { renderReport, type ClientReport, type ReportOptions } from './report';
+import { getScan } from './scanStore';
+import { normalizeDomain } from './targets';
+import { checkVerification, isVerified, listVerifications, revokeVerification, startVerification, type VerificationMethod, type VerificationView } from './verification';
+import { hasRole, type FindingNote, type Organisation, type SessionUser } from './workspace';
+
+// Dashboard scans stream from POST /scans (see ./scanStream), which stores every scan with the client
+// details it was priced with, so history and reports can replay it.
+// Every action checks the caller's role itself; the proxy only keeps signed-out visitors off the pages.
+
+// --- SESSION ---
+// The signed-in user and the organisations they can see: all of them for staff, their own for clients
+export async function getSession(): Promise<{ user: SessionUser, organisations: Organisation[] } | null> {
+  const user = await currentUser();
+  if (!user) return null;
+  if (hasRole(user, "consultant")) return { user, organisations: await listOrganisations() };
+  const own = user.organisationId ? await getOrganisation(user.organisationId) : null;
+  return { user, organisations: own ? [own] : [] };
+}
 
-  // 2. Shopify
-  if (
-      lowerHtml.includes('cdn.shopify.com') || 
-      lowerHtml.includes('window.shopify') || 
-      lowerHtml.includes('shopify-section')
-  ) {
-      return "Shopify";
-  }
+// True until the first admin has been created from the login page
+export async function needsSetup(): Promise<boolean> {
+  return !(await hasUsers());
+}
 
-  // 3. Squarespace
-  if (
-      lowerHtml.includes('static1.squarespace.com') || 
-      lowerHtml.includes('squarespace-core') ||
-      headers.get('x-served-by') === 'Squarespace'
-  ) {
-      return "Squarespace";
-  }
+export async function signIn(email: string, password: string): Promise<string | null> {
+  const user = await authenticate(email, password);
+  await audit(user?.email ?? email.trim().toLowerCase(), user ? "sign-in" : "sign-in-failed", null);
+  return user ? null : "Wrong email or password, or too many attempts. Try again in a few minutes.";
+}
 
-  // 4. Wix
-  if (
-      lowerHtml.includes('wix.com') || 
-      lowerHtml.includes('wix-warmup-data') ||
-      headers.get('x-wix-request-id')
-  ) {
-      return "Wix";
-  }
+export async function signOut(): Promise<void> {
+  const user = await currentUser();
+  await clearSession();
+  if (user) await audit(user.email, "sign-out", null);
+}
 
-  // 5. Joomla
-  if (lowerHtml.includes('joomla') || lowerHtml.includes('/templates/system/css/system.css')) {
-      return "Joomla";
-  }
+export async function setUpFirstAdmin(settings: { email: string, name: string, password: string }): Promise<string[]> {
+  const { user, errors } = await createFirstAdmin(settings);
+  if (!user) return errors;
+  await audit(user.email, "user-save", user.email, { role: user.role, firstAdmin: true });
+  await authenticate(settings.email, settings.password);
+  return [];
+}
 
-  // 6. Drupal
-  if (lowerHtml.includes('drupal') || lowerHtml.includes('sites/default/files')) {
-      return "Drupal";
-  }
+// --- REPORTS ---
+// Reports are rendered on the server from a stored scan; nothing is re-scanned
+export async function generateReport(scanId: string): Promise<ClientReport> {
+  const stored = await getScan(scanId);
+  if (!stored) throw new Error(`Scan ${scanId} not found`);
+  const user = await requireDomainAccess(stored.scan.domain);
+  await audit(user.email, "report", stored.scan.domain, { scanId });
+  return renderReport(stored.scan, stored.options, stored.exposure, stored.compliance);
+}
 
-  return null;
-}
-
-// --- MAIN ENGINE ---
-export async function scanDomain(domain: string) {
-  // We keep 'cleanDomain' for DNS/Ports, but we use the original for Fetch to avoid redirect issues
-  const cleanDomain = domain.replace(/^(?:https?:\/\/)?(?:www\.)?/i, "").split('/')[0];
-  
-  let score = 100;
-  const issues: string[] = [];
-  const passes: string[] = [];
-  let cms: string | null = null;
-
-  // 1. PORT SCAN (Parallel)
-  const portsToCheck = [
-      { port: 21, service: "FTP", risk: "High" },
-      { port: 22, service: "SSH", risk: "Medium" },
-      { port: 3389, service: "RDP", risk: "Critical" },
-      { port: 3306, service: "MySQL", risk: "Critical" },
-      { port: 5432, service: "PostgreSQL", risk: "Critical" },
-  ];
-  try {
-      const portResults = await Promise.all(portsToCheck.map(async (p) => ({ ...p, isOpen: await checkPort(cleanDomain, p.port) })));
-      let openPorts = 0;
-      portResults.forEach(res => {
-          if (res.isOpen) {
-              openPorts++;
-              score -= (res.risk === "Critical" ? 20 : 10);
-              issues.push(`Open Port: ${res.port} (${res.service})`);
-          }
-      });
-      if (openPorts === 0) passes.push("Critical Ports are Firewalled");
-  } catch (e) {}
-
-  // 2. SSL CHECK
-  const ssl = await getSSLDetails(cleanDomain);
-  if (ssl) {
-    if (!ssl.valid) { score -= 20; issues.push("SSL Certificate EXPIRED"); }
-    else if (ssl.daysRemaining < 14) { score -= 10; issues.push(`SSL Expires soon (${ssl.daysRemaining} days)`); }
-    else passes.push(`SSL Valid (${ssl.daysRemaining} days left)`);
-  } else {
-    score -= 20; issues.push("No SSL Certificate found");
+// --- PORTFOLIO ---
+// Starts scanning every domain in the CSV in the background; poll getPortfolioScan for progress.
+// Rows for a client organisation's domains are priced with the organisation's profile, not the CSV's.
+export async function startPortfolioScan(csv: string, settings: PortfolioSettings & { defaults: ReportOptions }): Promise<{ batch: PortfolioBatch, errors: string[] }> {
+  const user = await requireUser("consultant");
+  if (settings.ports !== undefined && !resolvePortSelection(settings.ports)) {
+    return { batch: startPortfolioBatch([], settings), errors: ["Ports must be a port profile or a comma-separated list of port numbers (1-65535)."] };
   }
+  const parsed = parsePortfolioCsv(csv, settings.defaults);
+  const rows = await Promise.all(parsed.rows.map(async row => ({ ...row, ...await reportOptionsFor(row.domain, row) })));
+  const batch = startPortfolioBatch(rows, settings);
+  await audit(user.email, "portfolio-scan", null, { batchId: batch.id, domains: rows.length });
+  return { batch, errors: parsed.errors };
+}
 
-  // 3. DNS SECURITY (Email)
-  try {
-    const txt = await dns.resolveTxt(cleanDomain).catch(() => []);
-    const spf = txt.flat().find(r => r.includes("v=spf1"));
-    if (!spf) { score -= 20; issues.push("Missing SPF Record"); }
-    else if (spf.includes("+all")) { score -= 20; issues.push("SPF Record unsafe ('+all')"); }
-    else passes.push("SPF Record Detected");
-
-    const dmarc = (await dns.resolveTxt(`_dmarc.${cleanDomain}`).catch(() => [])).flat().find(r => r.includes("v=DMARC1"));
-    if (!dmarc) { score -= 30; issues.push("Missing DMARC Record"); }
-    else if (dmarc.includes("p=none")) { score -= 10; issues.push("DMARC Policy weak ('p=none')"); }
-    else passes.push("DMARC Record Active");
-  } catch (e) { issues.push("DNS Lookup failed"); }
-
-  // 4. WEB SECURITY & CMS
-  try {
-    // We use a high-quality User-Agent to prevent 403 blocks from Firewalls
-    const response = await fetch(`https://${cleanDomain}`, { 
-      method: 'GET',
-      redirect: 'follow', // Follows www -> non-www redirects automatically
-      cache: 'no-store',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-      }
-    });
-
-    const htmlBody = await response.text();
-    
-    // Run the improved Detective function
-    cms = identifyCMS(htmlBody, response.headers);
-
-    // Check Security Headers
-    if (!response.headers.get('strict-transport-security')) { score -= 10; issues.push("Missing HSTS Header"); }
-    else passes.push("HSTS Enabled");
-    
-    if (!response.headers.get('x-content-type-options')) { score -= 5; issues.push("Missing X-Content-Type-Options"); }
-    else passes.push("Content Sniffing Protection Active");
-
-    const xf = response.headers.get('x-frame-options');
-    const csp = response.headers.get('content-security-policy');
-    if (!xf && !(csp && csp.includes('frame-ancestors'))) { score -= 5; issues.push("Missing Clickjacking Protection"); }
-    else passes.push("Clickjacking Protection Active");
-
-  } catch (e) {
-    // If the fetch fails completely, we can't check Headers or CMS
-    issues.push("Website Scan Failed (Firewall may be blocking scanner)");
-  }
+export async function getPortfolioScan(batchId: string): Promise<PortfolioBatch | null> {
+  await requireUser("consultant");
+  return getPortfolioBatch(batchId);
+}
+
+// --- MONITORING ---
+export async function getMonitors(): Promise<Monitor[]> {
+  await requireUser("consultant");
+  return listMonitors();
+}
+
+export async function saveMonitorSettings(settings: MonitorSettings): Promise<{ monitor: Monitor | null, errors: string[] }> {
+  const user = await requireUser("consultant");
+  const result = await saveMonitor(settings);
+  if (result.monitor) await audit(user.email, "monitor-save", result.monitor.domain, { frequency: result.monitor.frequency });
+  return result;
+}
+
+export async function removeMonitor(domain: string): Promise<void> {
+  const user = await requireUser("consultant");
+  await deleteMonitor(domain);
+  await audit(user.email, "monitor-delete", domain);
+}
+
+// Scans now instead of waiting for the schedule; alerts follow the usual rules and quiet hours
+export async function runMonitorNow(domain: string): Promise<Monitor | null> {
+  const user = await requireUser("consultant");
+  return runMonitor(domain, user.email);
+}
+
+export async function testMonitorAlerts(domain: string): Promise<AlertDelivery[]> {
+  await requireUser("consultant");
+  return sendTestAlert(domain);
+}
+
+// --- CLIENT ORGANISATIONS ---
+export async function getOrganisations(): Promise<Organisation[]> {
+  await requireUser("consultant");
+  return listOrganisations();
+}
+
+export async function saveOrganisationSettings(settings: OrganisationSettings): Promise<{ organisation: Organisation | null, errors: string[] }> {
+  const user = await requireUser("consultant");
+  const result = await saveOrganisation(settings);
+  if (result.organisation) await audit(user.email, "organisation-save", result.organisation.name, { id: result.organisation.id, domains: result.organisation.domains.join(" ") });
+  return result;
+}
+
+export async function removeOrganisation(id: string): Promise<void> {
+  const user = await requireUser("admin");
+  const organisation = await getOrganisation(id);
+  await deleteOrganisation(id);
+  await audit(user.email, "organisation-delete", organisation?.name ?? id, { id });
+}
+
+// --- USERS ---
+export async function getUsers(): Promise<Awaited<ReturnType<typeof listUsers>>> {
+  await requireUser("admin");
+  return listUsers();
+}
+
+export async function saveUserSettings(settings: UserSettings): Promise<{ user: SessionUser | null, errors: string[] }> {
+  const admin = await requireUser("admin");
+  const result = await saveUser(settings);
+  if (result.user) await audit(admin.email, "user-save", result.user.email, { role: result.user.role, passwordChanged: !!settings.password });
+  return result;
+}
+
+export async function removeUser(id: string): Promise<string | null> {
+  const admin = await requireUser("admin");
+  if (id === admin.id) return "You can't remove your own account.";
+  const removed = (await listUsers()).find(u => u.id === id);
+  const error = await deleteUser(id);
+  if (!error && removed) await audit(admin.email, "user-delete", removed.email);
+  return error;
+}
+
+// --- FINDING NOTES ---
+// Everyone who can see the domain can read its notes; only staff write them
+export async function getFindingNotes(domain: string): Promise<Record<string, FindingNote>> {
+  await requireDomainAccess(domain);
+  return listNotes(domain);
+}
 
-  return { score: Math.max(0, score), issues, passes, cms };
-}
\ No newline at end of file
+export async function saveFindingNote(note: Pick<FindingNote, "domain" | "findingId" | "subject" | "status" | "text">): Promise<{ note: FindingNote | null, errors: string[] }> {
+  const user = await requireUser("consultant");
+  const result = await saveNote({ ...note, author: user.email });
+  if (result.note) await audit(user.email, "note-save", note.domain, { finding: note.findingId, subject: note.subject, status: note.status });
+  return result;
+}
+
+export async function removeFindingNote(domain: string, key: string): Promise<void> {
+  const user = await requireUser("consultant");
+  await deleteNote(domain, key);
+  await audit(user.email, "note-delete", domain, { note: key });
+}
+
+// --- DOMAIN VERIFICATION ---
+// Anyone who can see a domain can prove ownership of it, so client users can verify their own
+export async function getVerifications(): Promise<VerificationView[]> {
+  const user = await requireUser();
+  const all = await listVerifications();
+  const visible = await Promise.all(all.map(v => canViewDomain(user, v.domain)));
+  return all.filter((_, i) => visible[i]);
+}
+
+export async function isDomainVerified(domain: string): Promise<boolean> {
+  const clean = normalizeDomain(domain);
+  await requireDomainAccess(clean);
+  return isVerified(clean);
+}
+
+export async function startDomainVerification(domain: string): Promise<{ verification: VerificationView | null, error: string | null }> {
+  const clean = normalizeDomain(domain);
+  const user = await requireDomainAccess(clean);
+  return startVerification(clean, user.email);
+}
+
+export async function checkDomainVerification(domain: string, method: VerificationMethod): Promise<{ verification: VerificationView | null, error: string | null }> {
+  const clean = normalizeDomain(domain);
+  const user = await requireDomainAccess(clean);
+  return checkVerification(clean, method, user.email);
+}
+
+export async function revokeDomainVerification(domain: string): Promise<VerificationView | null> {
+  const user = await requireUser("consultant");
+  return revokeVerification(domain, user.email);
+}
@@ -0,0 +1,111 @@
+// app/advisories.ts
+import fs from 'fs';
+import BUNDLED from './data/advisories.json';
+import type { Severity } from './findings';
+
+// --- DATABASE FORMAT (data/advisories.json) ---
+// Keyed by technology name as it appears in data/technologies.json. Ranges are space-separated
+// comparators (">=4.0.0 <4.1.2"), with "||" between alternatives. Nothing here touches the
+// network: to refresh the data, replace the bundled file or point ADVISORIES_PATH at a newer copy.
+export interface Advisory {
+  id: string;
+  aliases?: string[];
+  severity: Severity;
+  summary: string;
+  affected: string;
+  // First fixed release on each affected branch
+  fixed: string[];
+}
+
+export interface EndOfLife {
+  affected: string;
+  date: string;
+  note: string;
+}
+
+export interface AdvisoryDatabase {
+  updated: string;
+  products: Record<string, { advisories?: Advisory[], eol?: EndOfLife[] }>;
+}
+
+export interface ComponentStatus {
+  advisories: Advisory[];
+  eol: EndOfLife | null;
+  // Lowest release that clears every matched advisory, or null if there is none to clear
+  fixedIn: string | null;
+}
+
+let cached: { path: string | undefined, db: AdvisoryDatabase } | null = null;
+
+export function loadAdvisoryDatabase(): AdvisoryDatabase {
+  const path = process.env.ADVISORIES_PATH;
+  if (cached && cached.path === path) return cached.db;
+  const db = path ? JSON.parse(fs.readFileSync(path, "utf8")) as AdvisoryDatabase : BUNDLED as AdvisoryDatabase;
+  cached = { path, db };
+  return db;
+}
+
+// --- HELPER: VERSION RANGES ---
+const segments = (version: string) => version.split(/[.+-]/).map(s => parseInt(s, 10)).filter(n => !Number.isNaN(n));
+
+// null when the version is too coarse to tell, e.g. "7" against "7.58"
+function compareVersions(version: number[], bound: number[]): number | null {
+  for (let i = 0; i < bound.length; i++) {
+    if (i >= version.length) return bound.slice(i).every(n => n === 0) ? 0 : null;
+    if (version[i] !== bound[i]) return version[i] - bound[i];
+  }
+  return 0;
+}
+
+function testComparator(version: number[], comparator: string): boolean | null {
+  const match = comparator.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const cmp = compareVersions(version, segments(match[2]));
+  if (cmp === null) return null;
+  switch (match[1]) {
+    case "<": return cmp < 0;
+    case "<=": return cmp <= 0;
+    case ">": return cmp > 0;
+    case ">=": return cmp >= 0;
+    default: return cmp === 0;
+  }
+}
+
+// true/false when the version is definitely in/out of range; null when it can't be decided
+export function satisfiesRange(version: string, range: string): boolean | null {
+  const parsed = segments(version);
+  if (parsed.length === 0) return null;
+  let undecided = false;
+  for (const set of range.split("||")) {
+    let result: boolean | null = true;
+    for (const comparator of set.trim().split(/\s+/)) {
+      const outcome = testComparator(parsed, comparator);
+      if (outcome === false) { result = false; break; }
+      if (outcome === null) result = null;
+    }
+    if (result === true) return true;
+    if (result === null) undecided = true;
+  }
+  return undecided ? null : false;
+}
+
+// The first release above `version` that fixes the advisory, i.e. the fix on its own branch
+export function fixedVersionFor(advisory: Advisory, version: string): string | null {
+  const current = segments(version);
+  return advisory.fixed
+    .filter(fix => (compareVersions(current, segments(fix)) ?? -1) < 0)
+    .sort((a, b) => compareVersions(segments(a), segments(b)) ?? 0)[0] ?? null;
+}
+
+// Only definite matches count: a bare "Drupal 7" is end-of-life, but we can't say which 7.x advisories apply
+export function componentStatus(name: string, version: string, db = loadAdvisoryDatabase()): ComponentStatus | null {
+  const product = db.products[name];
+  if (!product) return null;
+  const advisories = (product.advisories ?? []).filter(a => satisfiesRange(version, a.affected) === true);
+  const fixes = advisories.map(a => fixedVersionFor(a, version)).filter((v): v is string => v !== null);
+  return {
+    advisories,
+    eol: (product.eol ?? []).find(e => satisfiesRange(version, e.affected) === true) ?? null,
+    fixedIn: fixes.sort((a, b) => compareVersions(segments(b), segments(a)) ?? 0)[0] ?? null,
+  };
+}
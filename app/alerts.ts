@@ -0,0 +1,186 @@
+// app/alerts.ts
+import { failedFindings, isInconclusive, type ScanResult, type Severity } from './findings';
+import { HEADER_FINDINGS, headerPresent } from './scanDiff';
+
+export interface AlertRules {
+  // Alert once the certificate is this many days or fewer from expiry; null turns it off
+  certificateExpiryDays: number | null;
+  criticalPorts: boolean;
+  emailAuthentication: boolean;
+  securityHeaders: boolean;
+  // Alert when the score falls below this; null turns it off
+  minScore: number | null;
+  // Alert when the score drops by at least this many points between monitored scans; null turns it off
+  scoreDrop: number | null;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  certificateExpiryDays: 21,
+  criticalPorts: true,
+  emailAuthentication: true,
+  securityHeaders: true,
+  minScore: null,
+  scoreDrop: 10,
+};
+
+export type AlertKind = "certificate-expiry" | "critical-port" | "email-authentication" | "security-header" | "score";
+
+export interface AlertCondition {
+  // Stays the same for as long as the condition lasts, so each one is only alerted once
+  key: string;
+  kind: AlertKind;
+  severity: Severity;
+  title: string;
+  detail: string;
+}
+
+// --- POSTURE ---
+// What the last monitored scans established about the domain. Each scan only updates the parts its
+// checks actually assessed, so a timed-out check can't look like a record vanishing and reappearing.
+export interface Posture {
+  score: number;
+  certificateValidTo: string | null;
+  // Open ports rated critical, by port number
+  criticalPorts: string[];
+  // Strength of the SPF "all" and the DMARC policy; 0 means no usable record
+  spf: { strength: number, label: string } | null;
+  dmarc: { strength: number, label: string } | null;
+  // Security headers the site sends, by display name
+  headers: string[];
+}
+
+const CERTIFICATE_FINDINGS = ["tls.valid", "tls.expiring", "tls.expired"];
+
+const SPF_STRENGTH: Record<string, number> = {
+  "email.spf.missing": 0,
+  "email.spf.null-recommended": 0,
+  "email.spf.multiple": 0,
+  "email.spf.permissive": 1,
+  "email.spf.neutral": 2,
+  "email.spf.softfail": 3,
+  "email.spf.hardfail": 4,
+};
+
+const assessed = (scan: ScanResult, checkId: string) => scan.checks.some(run => run.checkId === checkId && !isInconclusive(run));
+
+function readSpf(scan: ScanResult): Posture["spf"] {
+  const finding = scan.findings.find(f => f.id in SPF_STRENGTH);
+  if (!finding) return null;
+  const label = finding.id === "email.spf.multiple" ? "multiple SPF records" : SPF_STRENGTH[finding.id] === 0 ? "no SPF record" : String(finding.evidence.all ?? "no 'all' mechanism");
+  return { strength: SPF_STRENGTH[finding.id], label };
+}
+
+// p=none < p=quarantine < p=reject; within a policy, a lower pct leaves more mail on the policy below
+function readDmarc(scan: ScanResult): Posture["dmarc"] {
+  const finding = scan.findings.find(f => f.id.startsWith("email.dmarc.") && f.id !== "email.dmarc.reporting");
+  if (!finding) return null;
+  if (finding.id === "email.dmarc.missing") return { strength: 0, label: "no DMARC record" };
+  if (finding.id === "email.dmarc.invalid") return { strength: 0, label: "an invalid DMARC record" };
+  const policy = String(finding.evidence.policy);
+  const pct = Number(finding.evidence.pct ?? 100);
+  const strength = policy === "reject" ? 300 + pct : policy === "quarantine" ? 200 + pct : 100;
+  return { strength, label: `p=${policy}${pct < 100 && policy !== "none" ? ` (pct=${pct})` : ""}` };
+}
+
+export function readPosture(scan: ScanResult, previous: Posture | null): Posture {
+  const certificate = scan.findings.find(f => CERTIFICATE_FINDINGS.includes(f.id));
+  const headers = Object.entries(HEADER_FINDINGS).flatMap(([prefix, header]) => {
+    const present = headerPresent(scan, prefix);
+    // Headers whose checks didn't run keep their last known state
+    if (present === null) return previous?.headers.includes(header) ? [header] : [];
+    return present ? [header] : [];
+  });
+  return {
+    score: scan.score,
+    certificateValidTo: assessed(scan, "tls") ? (typeof certificate?.evidence.validTo === "string" ? certificate.evidence.validTo : null) : previous?.certificateValidTo ?? null,
+    criticalPorts: assessed(scan, "ports")
+      ? failedFindings(scan.findings).filter(f => f.id === "ports.open" && f.severity === "critical").map(f => f.subject ?? "").filter(Boolean)
+      : previous?.criticalPorts ?? [],
+    spf: (assessed(scan, "spf") ? readSpf(scan) : null) ?? previous?.spf ?? null,
+    dmarc: (assessed(scan, "dmarc") ? readDmarc(scan) : null) ?? previous?.dmarc ?? null,
+    headers,
+  };
+}
+
+// --- CONDITIONS ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emailRegression(name: "SPF" | "DMARC", before: Posture["spf"], after: Posture["spf"]): AlertCondition[] {
+  if (!before || !after || after.strength >= before.strength) return [];
+  const removed = after.strength === 0;
+  return [{
+    key: `email-authentication:${name}:${before.label}>${after.label}`,
+    kind: "email-authentication",
+    severity: removed ? "critical" : "high",
+    title: removed ? `${name} protection removed` : `${name} weakened`,
+    detail: `${name} went from ${before.label} to ${after.label}, making it easier to send email that impersonates the domain.`,
+  }];
+}
+
+// `previous` is null on a monitor's first scan, which only sets the baseline for the change alerts
+export function detectAlerts(previous: Posture | null, current: Posture, rules: AlertRules, now = new Date()): AlertCondition[] {
+  const conditions: AlertCondition[] = [];
+
+  if (rules.certificateExpiryDays !== null && current.certificateValidTo) {
+    const days = Math.floor((Date.parse(current.certificateValidTo) - now.getTime()) / DAY_MS);
+    if (days <= rules.certificateExpiryDays) {
+      conditions.push({
+        // Keyed on the expiry date, so a renewed certificate starts afresh
+        key: `certificate-expiry:${current.certificateValidTo}`,
+        kind: "certificate-expiry",
+        severity: days < 0 ? "critical" : days <= 7 ? "high" : "medium",
+        title: days < 0 ? "TLS certificate has expired" : `TLS certificate expires in ${days} day${days === 1 ? "" : "s"}`,
+        detail: `The certificate ${days < 0 ? "expired" : "expires"} on ${current.certificateValidTo}. Visitors will see a security warning until it is renewed.`,
+      });
+    }
+  }
+
+  if (rules.minScore !== null && current.score < rules.minScore) {
+    conditions.push({
+      key: `score-below:${rules.minScore}`,
+      kind: "score",
+      severity: "high",
+      title: `Score below ${rules.minScore}`,
+      detail: `The security score is ${current.score}/100, below the alert threshold of ${rules.minScore}.`,
+    });
+  }
+
+  if (!previous) return conditions;
+
+  if (rules.criticalPorts) {
+    current.criticalPorts.filter(port => !previous.criticalPorts.includes(port)).forEach(port => conditions.push({
+      key: `critical-port:${port}`,
+      kind: "critical-port",
+      severity: "critical",
+      title: `Critical port ${port} opened`,
+      detail: `Port ${port} is now reachable from the internet. Services on it are routinely targeted by automated attacks.`,
+    }));
+  }
+
+  if (rules.emailAuthentication) {
+    conditions.push(...emailRegression("SPF", previous.spf, current.spf), ...emailRegression("DMARC", previous.dmarc, current.dmarc));
+  }
+
+  if (rules.securityHeaders) {
+    previous.headers.filter(header => !current.headers.includes(header)).forEach(header => conditions.push({
+      key: `security-header:${header}`,
+      kind: "security-header",
+      severity: "medium",
+      title: `${header} header removed`,
+      detail: `The site no longer sends ${header}, which it did at the previous scan. This often follows a server or CDN change.`,
+    }));
+  }
+
+  const drop = previous.score - current.score;
+  if (rules.scoreDrop !== null && drop >= rules.scoreDrop) {
+    conditions.push({
+      key: `score-drop:${previous.score}>${current.score}`,
+      kind: "score",
+      severity: "high",
+      title: `Score dropped ${drop} points`,
+      detail: `The security score fell from ${previous.score} to ${current.score} since the previous scan.`,
+    });
+  }
+
+  return conditions;
+}
@@ -0,0 +1,24 @@
+import { apiError, withApiKey } from '../../../../apiAuth';
+import { scanToCsv, scanToSarif, toApiScan } from '../../../../exports';
+import { getScan } from '../../../../scanStore';
+
+// GET /api/v1/scans/:id[?format=json|csv|sarif]
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  return withApiKey(request, async () => {
+    const { id } = await params;
+    const stored = await getScan(id);
+    if (!stored) return apiError(404, "not_found", `No scan with id '${id}'.`);
+
+    const format = new URL(request.url).searchParams.get("format") ?? "json";
+    switch (format) {
+      case "json":
+        return Response.json(toApiScan(stored));
+      case "csv":
+        return new Response(scanToCsv(stored), { headers: { "Content-Type": "text/csv; charset=utf-8", "Content-Disposition": `attachment; filename="${id}.csv"` } });
+      case "sarif":
+        return Response.json(scanToSarif(stored), { headers: { "Content-Type": "application/sarif+json", "Content-Disposition": `attachment; filename="${id}.sarif"` } });
+      default:
+        return apiError(400, "invalid_format", "'format' must be json, csv or sarif.");
+    }
+  });
+}
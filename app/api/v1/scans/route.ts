@@ -0,0 +1,66 @@
+import { apiError, withApiKey } from '../../../apiAuth';
+import { audit } from '../../../auditLog';
+import { toApiScan } from '../../../exports';
+import { reportOptionsFor } from '../../../organisations';
+import { INDUSTRY_LABELS } from '../../../riskCalculator';
+import { resolvePortSelection } from '../../../portProfiles';
+import { listScans, saveScan } from '../../../scanStore';
+import { hostnameProblem, isValidDomain, normalizeDomain, runScan, TargetError } from '../../../scanner';
+import { SCORING_PROFILES } from '../../../scoring';
+
+// POST /api/v1/scans — { domain, profile?, ports?, deep?, industry?, employees? }
+// `ports` is a port profile id, or a list of port numbers (an array or a comma-separated string).
+// `deep` adds the deep checks, and is refused with 403 unless the domain's owner has verified control.
+// Runs the scan to completion (typically 10-30s) and returns it with 201 and a Location header.
+// A client organisation's domain is priced with the organisation's profile, whatever the body says.
+export async function POST(request: Request) {
+  return withApiKey(request, async key => {
+    const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+    if (!body || typeof body !== "object") return apiError(400, "invalid_body", "Expected a JSON object.");
+
+    const domain = typeof body.domain === "string" ? normalizeDomain(body.domain) : "";
+    const problem = hostnameProblem(domain);
+    if (problem) return apiError(422, "invalid_domain", `'domain' must be a public hostname such as example.com: ${problem.message}`);
+    const profile = body.profile ?? undefined;
+    if (profile !== undefined && (typeof profile !== "string" || !SCORING_PROFILES[profile])) {
+      return apiError(422, "invalid_profile", `'profile' must be one of: ${Object.keys(SCORING_PROFILES).join(", ")}.`);
+    }
+    const ports = Array.isArray(body.ports) ? body.ports.join(",") : body.ports ?? undefined;
+    if (ports !== undefined && (typeof ports !== "string" || !resolvePortSelection(ports))) {
+      return apiError(422, "invalid_ports", "'ports' must be a port profile id or a list of port numbers between 1 and 65535.");
+    }
+    const industry = body.industry ?? "other";
+    if (typeof industry !== "string" || !INDUSTRY_LABELS[industry]) {
+      return apiError(422, "invalid_industry", `'industry' must be one of: ${Object.keys(INDUSTRY_LABELS).join(", ")}.`);
+    }
+    const employees = body.employees ?? 5;
+    if (typeof employees !== "number" || !Number.isInteger(employees) || employees < 1) return apiError(422, "invalid_employees", "'employees' must be a positive integer.");
+    const deep = body.deep ?? false;
+    if (typeof deep !== "boolean") return apiError(422, "invalid_deep", "'deep' must be true or false.");
+
+    await audit(`api:${key.name}`, "scan", domain, { profile: profile ?? null, ports: ports ?? null, deep });
+    let scan;
+    try {
+      scan = await runScan(domain, profile, { ports, deep });
+    } catch (e) {
+      if (e instanceof TargetError && e.code === "unverified") return apiError(403, "not_verified", e.message);
+      if (e instanceof TargetError) return apiError(422, "target_rejected", e.message);
+      throw e;
+    }
+    const stored = await saveScan(scan, await reportOptionsFor(domain, { industry, employees }));
+    return Response.json(toApiScan(stored), { status: 201, headers: { Location: `/api/v1/scans/${stored.id}` } });
+  });
+}
+
+// GET /api/v1/scans?domain=example.com — the domain's stored scans, oldest first, without findings or exposure drivers
+export async function GET(request: Request) {
+  return withApiKey(request, async () => {
+    const domain = normalizeDomain(new URL(request.url).searchParams.get("domain") ?? "");
+    if (!isValidDomain(domain)) return apiError(422, "invalid_domain", "Pass ?domain=example.com.");
+    const scans = await listScans(domain);
+    return Response.json({
+      domain,
+      scans: scans.map(({ id, scan, exposure }) => ({ id, scannedAt: scan.scannedAt, profile: scan.profile, scoringVersion: scan.scoringVersion, score: scan.score, exposure: { currency: exposure.currency, low: exposure.low, likely: exposure.likely, high: exposure.high } })),
+    });
+  });
+}
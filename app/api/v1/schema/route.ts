@@ -0,0 +1,6 @@
+import { SCAN_JSON_SCHEMA } from '../../../exports';
+
+// GET /api/v1/schema — JSON Schema for the scan objects returned by /api/v1/scans. Public.
+export async function GET() {
+  return Response.json(SCAN_JSON_SCHEMA, { headers: { "Content-Type": "application/schema+json" } });
+}
@@ -0,0 +1,74 @@
+// app/apiAuth.ts
+import { createHash, timingSafeEqual } from 'crypto';
+
+export interface ApiKey {
+  name: string;
+  // SHA-256 of the secret, so keys are compared in constant time
+  hash: Buffer;
+  requestsPerMinute: number;
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+const WINDOW_MS = 60_000;
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest();
+
+// --- KEY CONFIGURATION ---
+// API_KEYS="ticketing:sk_live_abc:30,siem:sk_live_def:120" — name, secret and an optional per-minute limit.
+function loadApiKeys(): ApiKey[] {
+  return (process.env.API_KEYS ?? "").split(",").map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const [name, secret, limit] = entry.split(":");
+    if (!name || !secret) return [];
+    return [{ name, hash: sha256(secret), requestsPerMinute: Number(limit) > 0 ? Number(limit) : DEFAULT_REQUESTS_PER_MINUTE }];
+  });
+}
+
+function findApiKey(request: Request): ApiKey | null {
+  const header = request.headers.get("authorization");
+  const secret = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? request.headers.get("x-api-key");
+  if (!secret) return null;
+  const hash = sha256(secret);
+  return loadApiKeys().find(key => timingSafeEqual(key.hash, hash)) ?? null;
+}
+
+// --- RATE LIMITING ---
+// Fixed one-minute windows per key, held in memory (per server instance)
+const windows = new Map<string, { start: number, count: number }>();
+
+function consume(key: ApiKey) {
+  const now = Date.now();
+  let window = windows.get(key.name);
+  if (!window || now - window.start >= WINDOW_MS) {
+    window = { start: now, count: 0 };
+    windows.set(key.name, window);
+  }
+  window.count++;
+  const reset = Math.ceil((window.start + WINDOW_MS) / 1000);
+  return {
+    allowed: window.count <= key.requestsPerMinute,
+    retryAfter: Math.max(1, Math.ceil((window.start + WINDOW_MS - now) / 1000)),
+    headers: {
+      "X-RateLimit-Limit": String(key.requestsPerMinute),
+      "X-RateLimit-Remaining": String(Math.max(0, key.requestsPerMinute - window.count)),
+      "X-RateLimit-Reset": String(reset),
+    },
+  };
+}
+
+export function apiError(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return Response.json({ error: { code, message } }, { status, headers });
+}
+
+// Wraps a route handler: rejects missing/unknown keys and keys over their limit, and adds the
+// rate-limit headers to whatever the handler returns
+export async function withApiKey(request: Request, handler: (key: ApiKey) => Promise<Response>): Promise<Response> {
+  const key = findApiKey(request);
+  if (!key) return apiError(401, "unauthorized", "Provide a valid API key as 'Authorization: Bearer <key>' or 'X-API-Key'.", { "WWW-Authenticate": "Bearer" });
+
+  const limit = consume(key);
+  if (!limit.allowed) return apiError(429, "rate_limited", `Rate limit of ${key.requestsPerMinute} requests per minute exceeded.`, { ...limit.headers, "Retry-After": String(limit.retryAfter) });
+
+  const response = await handler(key);
+  Object.entries(limit.headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
@@ -0,0 +1,71 @@
+import Link from 'next/link';
+import { readAuditLog, type AuditAction } from '../auditLog';
+import { requirePageUser } from '../auth';
+
+// Reads the audit log on every request
+export const dynamic = "force-dynamic";
+
+const ACTIONS: AuditAction[] = [
+  "sign-in", "sign-in-failed", "sign-out", "scan", "portfolio-scan", "report", "note-save", "note-delete",
+  "organisation-save", "organisation-delete", "user-save", "user-delete", "monitor-save", "monitor-delete", "monitor-run",
+  "verification-start", "verification-check", "verification-revoke",
+];
+
+const formatDate = (iso: string) => `${new Date(iso).toLocaleString("en-GB", { timeZone: "UTC", dateStyle: "medium", timeStyle: "medium" })} UTC`;
+
+export default async function AuditLog({ searchParams }: { searchParams: Promise<{ actor?: string, action?: string, target?: string }> }) {
+  await requirePageUser("admin");
+  const filter = await searchParams;
+  const entries = await readAuditLog(filter);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-6xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Audit <span className="text-emerald-400">Log</span></h1>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <form className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="text-xs text-slate-400 uppercase">
+              Who
+              <input name="actor" defaultValue={filter.actor} placeholder="user@example.com" className="block mt-1 bg-slate-900 border border-slate-600 rounded-lg p-2 text-sm text-white normal-case" />
+            </label>
+            <label className="text-xs text-slate-400 uppercase">
+              Action
+              <select name="action" defaultValue={filter.action ?? ""} className="block mt-1 bg-slate-900 border border-slate-600 rounded-lg p-2 text-sm text-white normal-case">
+                <option value="">Any</option>
+                {ACTIONS.map((a) => <option key={a} value={a}>{a}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-slate-400 uppercase">
+              Target
+              <input name="target" defaultValue={filter.target} placeholder="example.com" className="block mt-1 bg-slate-900 border border-slate-600 rounded-lg p-2 text-sm text-white normal-case" />
+            </label>
+            <button className="bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-bold px-4 py-2 rounded-lg transition">Filter</button>
+          </form>
+
+          {entries.length === 0 ? <p className="text-slate-500 text-sm italic">No matching entries.</p> : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                  <th className="pb-3">When</th><th className="pb-3">Who</th><th className="pb-3">Action</th><th className="pb-3">Target</th><th className="pb-3">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((e, i) => (
+                  <tr key={i} className="border-t border-slate-700 align-top">
+                    <td className="py-2 pr-4 text-slate-400 whitespace-nowrap">{formatDate(e.at)}</td>
+                    <td className="py-2 pr-4 text-slate-200">{e.actor}</td>
+                    <td className={`py-2 pr-4 font-mono text-xs ${e.action === "sign-in-failed" ? "text-red-400" : "text-slate-300"}`}>{e.action}</td>
+                    <td className="py-2 pr-4 text-slate-300">{e.target ?? "—"}</td>
+                    <td className="py-2 font-mono text-[11px] text-slate-500 break-all">{Object.entries(e.details).map(([key, value]) => `${key}=${value}`).join(" ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
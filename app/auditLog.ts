@@ -0,0 +1,55 @@
+// app/auditLog.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { dataFile } from './jsonStore';
+
+export type AuditAction =
+  | "sign-in" | "sign-in-failed" | "sign-out"
+  | "scan" | "portfolio-scan" | "report"
+  | "note-save" | "note-delete"
+  | "organisation-save" | "organisation-delete"
+  | "user-save" | "user-delete"
+  | "monitor-save" | "monitor-delete" | "monitor-run"
+  | "verification-start" | "verification-check" | "verification-revoke";
+
+export interface AuditEntry {
+  at: string;
+  // User email, "api:<key name>" for API keys, or "scheduler" for monitored scans
+  actor: string;
+  action: AuditAction;
+  // The domain, organisation or user acted on
+  target: string | null;
+  details: Record<string, string | number | boolean | null>;
+}
+
+// --- FILE LOG ---
+// Append-only JSON lines, so entries are never rewritten and the file can be shipped to a SIEM as-is
+const logFile = () => process.env.AUDIT_LOG_FILE ?? dataFile("audit.log");
+
+export async function audit(actor: string, action: AuditAction, target: string | null, details: AuditEntry["details"] = {}) {
+  const entry: AuditEntry = { at: new Date().toISOString(), actor, action, target, details };
+  try {
+    await fs.mkdir(path.dirname(logFile()), { recursive: true });
+    await fs.appendFile(logFile(), `${JSON.stringify(entry)}\n`);
+  } catch (e) {
+    // Losing an audit entry must not fail the action being audited
+    console.error("Audit log write failed:", e);
+  }
+}
+
+// Newest first; filters match exactly, except `target`, which also matches subdomains
+export async function readAuditLog(filter: { actor?: string, action?: string, target?: string, limit?: number } = {}): Promise<AuditEntry[]> {
+  const text = await fs.readFile(logFile(), "utf8").catch(() => "");
+  const entries = text.split("\n").filter(Boolean).flatMap(line => {
+    try {
+      return [JSON.parse(line) as AuditEntry];
+    } catch {
+      return [];
+    }
+  });
+  return entries.reverse().filter(e =>
+    (!filter.actor || e.actor === filter.actor)
+    && (!filter.action || e.action === filter.action)
+    && (!filter.target || e.target === filter.target || !!e.target?.endsWith(`.${filter.target}`))
+  ).slice(0, filter.limit ?? 500);
+}
@@ -0,0 +1,254 @@
+// app/auth.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { dataFile, jsonStore } from './jsonStore';
+import { getOrganisation } from './organisations';
+import { hasRole, ROLE_LABELS, SESSION_COOKIE, type Role, type SessionUser } from './workspace';
+
+interface StoredUser extends SessionUser {
+  // scrypt$<salt>$<hash>, both base64
+  passwordHash: string;
+  // Bumped when the password changes, which invalidates every cookie issued before
+  sessionVersion: number;
+  createdAt: string;
+  lastSignInAt: string | null;
+}
+
+export interface UserSettings {
+  // Omit to create a user; set to edit one
+  id?: string;
+  email: string;
+  name: string;
+  role: Role;
+  organisationId: string | null;
+  // Required for new users; leave empty to keep the current password
+  password?: string;
+}
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+  }
+}
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 10;
+const MAX_FAILED_SIGN_INS = 10;
+const LOCKOUT_MS = 15 * 60_000;
+
+const store = jsonStore<Record<string, StoredUser>>(() => dataFile("users.json"), () => ({}));
+
+const publicUser = ({ id, email, name, role, organisationId }: StoredUser): SessionUser => ({ id, email, name, role, organisationId });
+
+// --- HELPER: PASSWORDS ---
+const derive = (password: string, salt: Buffer) => new Promise<Buffer>((resolve, reject) => {
+  scrypt(password, salt, 64, (error, key) => error ? reject(error) : resolve(key));
+});
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString("base64")}$${(await derive(password, salt)).toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  return timingSafeEqual(await derive(password, Buffer.from(salt, "base64")), Buffer.from(hash, "base64"));
+}
+
+// --- HELPER: SESSION COOKIES ---
+// <base64url payload>.<HMAC-SHA256>; the payload is { uid, v (session version), exp }.
+// SESSION_SECRET signs them; without it a random secret is generated once and kept in .data.
+let secret: Promise<Buffer> | undefined;
+
+function sessionSecret() {
+  secret ??= (async () => {
+    if (process.env.SESSION_SECRET) return Buffer.from(process.env.SESSION_SECRET);
+    const file = dataFile("session-secret");
+    const existing = await fs.readFile(file).catch(() => null);
+    if (existing) return existing;
+    const created = randomBytes(32);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, created, { mode: 0o600 });
+    return created;
+  })();
+  return secret;
+}
+
+async function signSession(user: StoredUser) {
+  const payload = Buffer.from(JSON.stringify({ uid: user.id, v: user.sessionVersion, exp: Date.now() + SESSION_TTL_MS })).toString("base64url");
+  return `${payload}.${createHmac("sha256", await sessionSecret()).update(payload).digest("base64url")}`;
+}
+
+async function readSession(token: string): Promise<StoredUser | null> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  const expected = createHmac("sha256", await sessionSecret()).update(payload).digest();
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const { uid, v, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const user = (await store.read())[uid];
+    return user && user.sessionVersion === v && exp > Date.now() ? user : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- CURRENT USER ---
+export async function currentUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = token ? await readSession(token) : null;
+  return user && publicUser(user);
+}
+
+// For server actions and route handlers
+export async function requireUser(role: Role = "client"): Promise<SessionUser> {
+  const user = await currentUser();
+  if (!user) throw new AuthError(401, "Sign in to continue.");
+  if (!hasRole(user, role)) throw new AuthError(403, `This needs the ${ROLE_LABELS[role]} role or higher.`);
+  return user;
+}
+
+// For server pages and layouts: no session goes to /login, too low a role back to the dashboard
+export async function requirePageUser(role: Role = "client"): Promise<SessionUser> {
+  const user = await currentUser();
+  if (!user) redirect("/login");
+  if (!hasRole(user, role)) redirect("/");
+  return user;
+}
+
+// Staff see every domain; client users only their organisation's
+export async function canViewDomain(user: SessionUser, domain: string) {
+  if (hasRole(user, "consultant")) return true;
+  const organisation = user.organisationId ? await getOrganisation(user.organisationId) : null;
+  return !!organisation?.domains.includes(domain);
+}
+
+export async function requireDomainAccess(domain: string): Promise<SessionUser> {
+  const user = await requireUser();
+  if (!(await canViewDomain(user, domain))) throw new AuthError(403, `You don't have access to ${domain}.`);
+  return user;
+}
+
+// --- SIGN IN ---
+// Failed attempts per email, held in memory (per server instance)
+const failures = new Map<string, { count: number, since: number }>();
+
+export async function authenticate(email: string, password: string): Promise<SessionUser | null> {
+  const key = email.trim().toLowerCase();
+  const failed = failures.get(key);
+  if (failed && Date.now() - failed.since < LOCKOUT_MS && failed.count >= MAX_FAILED_SIGN_INS) return null;
+
+  const user = Object.values(await store.read()).find(u => u.email === key);
+  // Unknown emails still pay for a hash, so response times don't reveal which accounts exist
+  const valid = user ? await verifyPassword(password, user.passwordHash) : (await hashPassword(password), false);
+  if (!user || !valid) {
+    failures.set(key, failed && Date.now() - failed.since < LOCKOUT_MS ? { ...failed, count: failed.count + 1 } : { count: 1, since: Date.now() });
+    return null;
+  }
+  failures.delete(key);
+
+  await store.update(users => { users[user.id].lastSignInAt = new Date().toISOString(); });
+  (await cookies()).set(SESSION_COOKIE, await signSession(user), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+  return publicUser(user);
+}
+
+export async function clearSession() {
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+// --- USERS ---
+export async function listUsers(): Promise<(SessionUser & { lastSignInAt: string | null })[]> {
+  return Object.values(await store.read()).map(u => ({ ...publicUser(u), lastSignInAt: u.lastSignInAt })).sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export async function hasUsers() {
+  return Object.keys(await store.read()).length > 0;
+}
+
+async function settingsProblems(settings: UserSettings, users: Record<string, StoredUser>): Promise<string[]> {
+  const problems: string[] = [];
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.email)) problems.push(`"${settings.email}" is not an email address.`);
+  if (Object.values(users).some(u => u.email === settings.email && u.id !== settings.id)) problems.push(`${settings.email} already has an account.`);
+  if (!settings.name.trim()) problems.push("Give the user a name.");
+  if (!ROLE_LABELS[settings.role]) problems.push(`Unknown role '${settings.role}'.`);
+  if (settings.role === "client" && !(settings.organisationId && await getOrganisation(settings.organisationId))) problems.push("Client users must belong to an organisation.");
+  if (settings.id && !users[settings.id]) problems.push("That user no longer exists.");
+  if (settings.password ? settings.password.length < MIN_PASSWORD_LENGTH : !settings.id) problems.push(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  // Never leave the workspace without an admin
+  const admins = Object.values(users).filter(u => u.role === "admin" && u.id !== settings.id);
+  if (settings.id && users[settings.id]?.role === "admin" && settings.role !== "admin" && admins.length === 0) problems.push("The last admin can't be given another role.");
+  return problems;
+}
+
+const cleanSettings = (settings: UserSettings): UserSettings => ({ ...settings, email: settings.email.trim().toLowerCase(), name: settings.name.trim(), organisationId: settings.role === "client" ? settings.organisationId : null });
+
+const newUser = (settings: UserSettings): StoredUser => ({
+  id: randomBytes(8).toString("hex"),
+  email: settings.email,
+  name: settings.name,
+  role: settings.role,
+  organisationId: settings.organisationId,
+  passwordHash: "",
+  sessionVersion: 0,
+  createdAt: new Date().toISOString(),
+  lastSignInAt: null,
+});
+
+export async function saveUser(settings: UserSettings): Promise<{ user: SessionUser | null, errors: string[] }> {
+  const clean = cleanSettings(settings);
+  const errors = await settingsProblems(clean, await store.read());
+  if (errors.length > 0) return { user: null, errors };
+
+  const passwordHash = clean.password ? await hashPassword(clean.password) : null;
+  const user = await store.update(users => {
+    const existing = clean.id ? users[clean.id] : undefined;
+    const saved: StoredUser = existing
+      ? { ...existing, email: clean.email, name: clean.name, role: clean.role, organisationId: clean.organisationId }
+      : newUser(clean);
+    if (passwordHash) {
+      saved.passwordHash = passwordHash;
+      // A new password signs the user out everywhere else
+      if (existing) saved.sessionVersion++;
+    }
+    users[saved.id] = saved;
+    return saved;
+  });
+  return { user: publicUser(user), errors: [] };
+}
+
+// Only while no users exist: the first account is always an admin. The check and the insert happen
+// in one update, so two visitors racing through setup can't both get an admin account.
+export async function createFirstAdmin(settings: Omit<UserSettings, "id" | "role" | "organisationId">): Promise<{ user: SessionUser | null, errors: string[] }> {
+  const clean = cleanSettings({ ...settings, role: "admin", organisationId: null });
+  const errors = await settingsProblems(clean, {});
+  if (errors.length > 0) return { user: null, errors };
+
+  const passwordHash = await hashPassword(clean.password ?? "");
+  const user = await store.update(users => {
+    if (Object.keys(users).length > 0) return null;
+    const saved = { ...newUser(clean), passwordHash };
+    users[saved.id] = saved;
+    return saved;
+  });
+  return user ? { user: publicUser(user), errors: [] } : { user: null, errors: ["The workspace already has users. Sign in instead."] };
+}
+
+// The last-admin check runs inside the update, so two admins removing each other at once can't both succeed
+export async function deleteUser(id: string): Promise<string | null> {
+  return store.update(users => {
+    if (users[id]?.role === "admin" && Object.values(users).filter(u => u.role === "admin").length === 1) return "The last admin can't be removed.";
+    delete users[id];
+    return null;
+  });
+}
@@ -0,0 +1,24 @@
+// app/certificateAuthorities.ts
+// Shared by the DNS check, which judges existing CAA records, and the playbooks, which write new ones
+
+// CAA issuer domains mapped to the organisation names their certificates carry
+export const CAA_ISSUERS: { domain: string, issuer: RegExp }[] = [
+  { domain: "letsencrypt.org", issuer: /let's encrypt/i },
+  { domain: "digicert.com", issuer: /digicert|cloudflare/i },
+  { domain: "sectigo.com", issuer: /sectigo|comodo|zerossl/i },
+  { domain: "comodoca.com", issuer: /sectigo|comodo|zerossl/i },
+  { domain: "pki.goog", issuer: /google trust/i },
+  { domain: "amazon.com", issuer: /amazon/i },
+  { domain: "amazontrust.com", issuer: /amazon/i },
+  { domain: "globalsign.com", issuer: /globalsign/i },
+  { domain: "godaddy.com", issuer: /godaddy|starfield/i },
+  { domain: "ssl.com", issuer: /ssl\.com|ssl corp/i },
+  { domain: "buypass.com", issuer: /buypass/i },
+  { domain: "zerossl.com", issuer: /zerossl/i },
+  { domain: "entrust.net", issuer: /entrust/i },
+];
+
+// CAA issuer domains for a certificate's issuer organisation; empty when we don't recognise it
+export function caaDomainsForIssuer(issuer: string): string[] {
+  return CAA_ISSUERS.filter(ca => ca.issuer.test(issuer)).map(ca => ca.domain);
+}
@@ -0,0 +1,80 @@
+// app/checks/adminExposure.ts
+import { createFinding, type DraftFinding, type Severity } from '../findings';
+import type { GuardedResponse } from '../targets';
+import { probeOrigin } from './sensitiveFiles';
+import type { CheckModule, ScanContext } from './types';
+
+const PROBE_TIMEOUT_MS = 8000;
+const PROBE_BYTES = 64 * 1024;
+const MAX_REDIRECTS = 3;
+
+// Login pages for the platforms and tools we see most. Database admin tools rank higher: behind
+// them is the whole database, and they are rarely meant to be public at all.
+const ADMIN_PATHS: { path: string, label: string, severity: Severity, penalty: number }[] = [
+  { path: "/wp-login.php", label: "WordPress login", severity: "medium", penalty: 0.3 },
+  { path: "/administrator/", label: "Joomla administrator", severity: "medium", penalty: 0.3 },
+  { path: "/user/login", label: "Drupal login", severity: "medium", penalty: 0.3 },
+  { path: "/admin/", label: "Admin area", severity: "medium", penalty: 0.3 },
+  { path: "/admin/login", label: "Admin login", severity: "medium", penalty: 0.3 },
+  { path: "/phpmyadmin/", label: "phpMyAdmin", severity: "high", penalty: 0.8 },
+  { path: "/pma/", label: "phpMyAdmin", severity: "high", penalty: 0.8 },
+  { path: "/adminer.php", label: "Adminer", severity: "high", penalty: 0.8 },
+  { path: "/manager/html", label: "Tomcat manager", severity: "high", penalty: 0.8 },
+];
+
+// Follows redirects only while they stay on the probed host (e.g. /admin → /admin/login). Null when
+// they lead elsewhere; rejects when a hop gets no response.
+async function fetchSameHost(ctx: ScanContext, url: string): Promise<GuardedResponse | null> {
+  const host = new URL(url).host;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await ctx.fetch(url, { timeoutMs: PROBE_TIMEOUT_MS, maxBytes: PROBE_BYTES });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    const next = new URL(location, url);
+    if (next.host !== host) return null;
+    url = next.href;
+  }
+  return null;
+}
+
+// A password field, or a server asking for credentials, means a login anyone can try
+function loginKind(response: GuardedResponse) {
+  if (response.status === 401 && response.headers.has("www-authenticate")) return "HTTP authentication prompt";
+  if (response.status === 200 && /<input[^>]+type=["']?password/i.test(response.body)) return "password form";
+  return null;
+}
+
+export const adminExposureCheck: CheckModule = {
+  id: "admin-exposure",
+  name: "Admin Login Exposure",
+  category: "web",
+  weight: 10,
+  severity: "medium",
+  deep: true,
+  async run(ctx) {
+    const origin = await probeOrigin(ctx);
+    const probes = await Promise.all(ADMIN_PATHS.map(admin => fetchSameHost(ctx, `${origin}${admin.path}`)
+      .then(response => ({ admin, answered: true, response }), () => ({ admin, answered: false, response: null }))));
+    // A firewall dropping every probe would otherwise look like no admin login at all
+    if (!probes.some(p => p.answered)) throw new Error(`No probe of ${origin} got a response`);
+
+    const findings: DraftFinding[] = [];
+    const seen = new Set<string>();
+    for (const { admin, response } of probes) {
+      const kind = response && loginKind(response);
+      // Several paths often land on the same login page (e.g. /admin/ redirecting to /wp-login.php)
+      if (!kind || seen.has(response.url)) continue;
+      seen.add(response.url);
+      findings.push(createFinding("web.admin.exposed", {
+        subject: admin.path,
+        title: `${admin.label} reachable from the internet (${admin.path})`,
+        severity: admin.severity,
+        penalty: admin.penalty,
+        evidence: { url: response.url, detected: kind, status: response.status },
+      }));
+    }
+
+    if (findings.length === 0) findings.push(createFinding("web.admin.restricted", { evidence: { origin, probed: ADMIN_PATHS.map(a => a.path) } }));
+    return findings;
+  },
+};
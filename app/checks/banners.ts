@@ -0,0 +1,71 @@
+// app/checks/banners.ts
+// Lightweight service identification for open ports: read what the service says first, or send one
+// harmless request it will answer, and match the reply. Nothing here authenticates or changes state.
+
+export interface ServiceIdentity {
+  product: string;
+  version: string | null;
+}
+
+// Sent as soon as the connection opens, for services that wait for the client to speak
+const HTTP_PROBE = "GET / HTTP/1.0\r\n\r\n";
+const PROBES: Record<string, string | Buffer> = {
+  "Redis": "INFO server\r\n",
+  "Memcached": "version\r\n",
+  "Elasticsearch": HTTP_PROBE,
+  "Docker API": "GET /version HTTP/1.0\r\n\r\n",
+  // MongoDB answers plain HTTP with a fixed warning, which is enough to recognise it
+  "MongoDB": HTTP_PROBE,
+  // SSLRequest: the server replies with a single 'S' or 'N'
+  "PostgreSQL": Buffer.from("0000000804d2162f", "hex"),
+  // X.224 connection request; RDP answers with a TPKT header (03 00)
+  "RDP": Buffer.from("030000130ee000000000000100080003000000", "hex"),
+};
+
+export const probeFor = (service: string) => PROBES[service] ?? null;
+
+// Tried in order against the first bytes received. `probe` limits a matcher to replies to that probe.
+const MATCHERS: { probe?: string, match: (text: string, data: Buffer) => ServiceIdentity | null }[] = [
+  { match: text => /^SSH-/.test(text) ? versioned(text.match(/^SSH-[\d.]+-([A-Za-z]+)[_-]?([\w.]+)?/), "SSH") : null },
+  { match: text => /^220[ -].*(E?SMTP|Postfix|Exim|Sendmail)/i.test(text) ? { product: "SMTP", version: null } : null },
+  { match: text => /^220[ -]/.test(text) ? versioned(text.match(/(vsFTPd|ProFTPD|Pure-FTPd|FileZilla Server|Microsoft FTP Service)[\s/v(]*([\d.]+[a-z]?)?/i), "FTP") : null },
+  { match: text => { const m = text.match(/^RFB (\d{3})\.(\d{3})/); return m ? { product: "VNC", version: `RFB ${Number(m[1])}.${Number(m[2])}` } : null; } },
+  { match: (_, data) => data[0] === 0xff && data.length > 2 && data[1] >= 0xfb ? { product: "Telnet", version: null } : null },
+  // MySQL greeting: 4-byte packet header, protocol 10, then the server version as a C string
+  { match: (text, data) => data[4] === 0x0a ? mysqlVersion(text.slice(5).split("\0")[0]) : data[4] === 0xff && /host .* is not allowed|too many connections/i.test(text) ? { product: "MySQL", version: null } : null },
+  { probe: "Redis", match: text => { const m = text.match(/redis_version:([\d.]+)/); return m ? { product: "Redis", version: m[1] } : /^-(NOAUTH|DENIED|ERR)/.test(text) ? { product: "Redis", version: null } : null; } },
+  { probe: "Memcached", match: text => { const m = text.match(/^VERSION ([\d.]+)/); return m ? { product: "Memcached", version: m[1] } : null; } },
+  { probe: "Docker API", match: text => /"ApiVersion"/.test(text) ? { product: "Docker Engine API", version: text.match(/"Version"\s*:\s*"([^"]+)"/)?.[1] ?? null } : null },
+  { match: text => /trying to access MongoDB over HTTP/i.test(text) ? { product: "MongoDB", version: null } : null },
+  { match: text => /You Know, for Search|"cluster_name"/.test(text) ? { product: "Elasticsearch", version: text.match(/"number"\s*:\s*"([\d.]+)"/)?.[1] ?? null } : /realm="security"/.test(text) ? { product: "Elasticsearch", version: null } : null },
+  { probe: "PostgreSQL", match: text => text === "S" || text === "N" ? { product: "PostgreSQL", version: null } : null },
+  { probe: "RDP", match: (_, data) => data[0] === 0x03 && data[1] === 0x00 ? { product: "RDP", version: null } : null },
+  { match: text => /^HTTP\/[\d.]+ \d{3}/.test(text) ? versioned(text.match(/^server:\s*([^/\s\r\n]+)\/?([\w.]+)?/im), "HTTP server") : null },
+];
+
+function versioned(match: RegExpMatchArray | null, fallback: string): ServiceIdentity {
+  return match ? { product: match[1], version: match[2] ?? null } : { product: fallback, version: null };
+}
+
+function mysqlVersion(version: string): ServiceIdentity | null {
+  if (!/^\d+\.\d+/.test(version)) return null;
+  return /mariadb/i.test(version) ? { product: "MariaDB", version: version.replace(/^5\.5\.5-/, "").split("-")[0] } : { product: "MySQL", version: version.split("-")[0] };
+}
+
+// `service` is what the port is registered as, which decides the probe that was sent
+export function identifyService(service: string, data: Buffer): ServiceIdentity | null {
+  if (data.length === 0) return null;
+  const text = data.toString("latin1");
+  for (const matcher of MATCHERS) {
+    if (matcher.probe && matcher.probe !== service) continue;
+    const identity = matcher.match(text, data);
+    if (identity) return identity;
+  }
+  return null;
+}
+
+// The first line of a banner, safe to show in evidence
+export function printableBanner(data: Buffer): string | null {
+  const line = data.toString("latin1").split(/\r?\n/)[0].replace(/[^\x20-\x7e]/g, "").trim();
+  return line.length >= 3 ? line.slice(0, 120) : null;
+}
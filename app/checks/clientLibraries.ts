@@ -0,0 +1,68 @@
+// app/checks/clientLibraries.ts
+import { loadAdvisoryDatabase } from '../advisories';
+import { createFinding, type DraftFinding } from '../findings';
+import { componentFindings } from './components';
+import { probeOrigin } from './sensitiveFiles';
+import { sharedTechnologies } from './tech';
+import type { CheckModule } from './types';
+
+const MAX_SCRIPTS = 20;
+// Libraries announce their version in a banner at the top of the file, so the rest is never read
+const SCRIPT_BYTES = 16 * 1024;
+const SCRIPT_TIMEOUT_MS = 8000;
+
+// Names match data/advisories.json. jQuery UI comes before jQuery, whose banner it would otherwise match.
+const LIBRARY_BANNERS: { name: string, banner: RegExp }[] = [
+  { name: "jQuery UI", banner: /jQuery UI - v(\d+\.\d+\.\d+)/ },
+  { name: "jQuery", banner: /\bjQuery(?: JavaScript Library)? v(\d+\.\d+\.\d+)/ },
+  { name: "Bootstrap", banner: /\bBootstrap v(\d+\.\d+\.\d+)/ },
+  { name: "AngularJS", banner: /\bAngularJS v(\d+\.\d+\.\d+)/ },
+  { name: "Lodash", banner: /\bLodash\b[\s\S]*?\bVERSION\s*=\s*["'](\d+\.\d+\.\d+)["']/ },
+  { name: "Moment.js", banner: /moment\.js[\s\S]{0,40}?version\s*:\s*(\d+\.\d+\.\d+)/ },
+];
+
+export const clientLibrariesCheck: CheckModule = {
+  id: "client-libraries",
+  name: "Client-side Libraries",
+  category: "tech",
+  weight: 10,
+  severity: "high",
+  deep: true,
+  async run(ctx) {
+    const db = loadAdvisoryDatabase();
+    const page = await ctx.fetchPage();
+    const origin = await probeOrigin(ctx);
+    // Versions the passive fingerprint already found are reported by the components check
+    const fingerprinted = new Set((await sharedTechnologies(ctx).catch(() => [])).filter(t => t.version).map(t => `${t.name} ${t.version}`));
+
+    // Only the site's own scripts: third-party CDNs are someone else's to patch, and usually versioned in the URL
+    const scripts = [...new Set([...page.html.matchAll(/<script[^>]+src=["']([^"']+)["']/gi)]
+      .map(m => { try { return new URL(m[1], page.url); } catch { return null; } })
+      .filter((url): url is URL => !!url && url.protocol === "https:" && (url.hostname === ctx.domain || url.hostname.endsWith(`.${ctx.domain}`)))
+      .map(url => url.href))].slice(0, MAX_SCRIPTS);
+
+    const detected = new Map<string, { version: string, script: string }>();
+    for (const script of scripts) {
+      const response = await ctx.fetch(script, { timeoutMs: SCRIPT_TIMEOUT_MS, maxBytes: SCRIPT_BYTES }).catch(() => null);
+      if (response?.status !== 200) continue;
+      for (const { name, banner } of LIBRARY_BANNERS) {
+        const version = response.body.match(banner)?.[1];
+        if (version && !detected.has(name)) detected.set(name, { version, script });
+      }
+    }
+
+    const findings: DraftFinding[] = [];
+    const assessed: string[] = [];
+    for (const [name, { version, script }] of detected) {
+      assessed.push(`${name} ${version}`);
+      if (fingerprinted.has(`${name} ${version}`)) continue;
+      findings.push(...componentFindings(name, version, db, { vulnerable: "tech.library.vulnerable", eol: "tech.library.eol" }, { script }));
+    }
+
+    if (findings.length === 0) findings.push(createFinding("tech.libraries-current", {
+      title: assessed.length > 0 ? "No outdated client-side libraries found" : "No known client-side libraries in the site's scripts",
+      evidence: { origin, scriptsRead: scripts.length, assessed, advisoryData: db.updated },
+    }));
+    return findings;
+  },
+};
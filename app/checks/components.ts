@@ -0,0 +1,71 @@
+// app/checks/components.ts
+import { componentStatus, loadAdvisoryDatabase, type AdvisoryDatabase } from '../advisories';
+import { createFinding, type DraftFinding, type FindingId, type Severity } from '../findings';
+import { sharedTechnologies } from './tech';
+import type { CheckModule } from './types';
+
+const SEVERITY_ORDER: Severity[] = ["info", "low", "medium", "high", "critical"];
+// The worst advisory sets how much of the check's weight a component costs
+const PENALTY_BY_SEVERITY: Record<Severity, number> = { critical: 1, high: 0.6, medium: 0.4, low: 0.2, info: 0 };
+
+// Findings for one versioned product in the advisory database, raised under the given IDs so the
+// deep scan's script probe can report libraries separately from the passively fingerprinted stack
+export function componentFindings(name: string, version: string, db: AdvisoryDatabase, ids: { vulnerable: FindingId, eol: FindingId }, evidence: Record<string, string> = {}): DraftFinding[] {
+  const status = componentStatus(name, version, db);
+  if (!status) return [];
+  const findings: DraftFinding[] = [];
+  if (status.advisories.length > 0) {
+    const worst = status.advisories.map(a => a.severity).sort((a, b) => SEVERITY_ORDER.indexOf(b) - SEVERITY_ORDER.indexOf(a))[0];
+    findings.push(createFinding(ids.vulnerable, {
+      subject: name,
+      title: `${name} ${version} has ${status.advisories.length} known vulnerabilit${status.advisories.length === 1 ? "y" : "ies"}`,
+      severity: worst,
+      penalty: PENALTY_BY_SEVERITY[worst],
+      evidence: {
+        version,
+        fixedIn: status.fixedIn,
+        advisories: status.advisories.map(a => [a.id, ...(a.aliases ?? [])].join(" / ")),
+        details: status.advisories.map(a => `${a.id} (${a.severity}): ${a.summary}`),
+        advisoryData: db.updated,
+        ...evidence,
+      },
+    }));
+  }
+  if (status.eol) findings.push(createFinding(ids.eol, {
+    subject: name,
+    title: `${name} ${version} is end-of-life`,
+    evidence: { version, eolDate: status.eol.date, note: status.eol.note, advisoryData: db.updated, ...evidence },
+  }));
+  return findings;
+}
+
+export const componentsCheck: CheckModule = {
+  id: "components",
+  name: "Vulnerable Components",
+  category: "tech",
+  weight: 15,
+  severity: "high",
+  async run(ctx) {
+    const db = loadAdvisoryDatabase();
+    const stack = await sharedTechnologies(ctx);
+    const findings: DraftFinding[] = [];
+    const assessed: string[] = [];
+    const unversioned: string[] = [];
+
+    for (const tech of stack) {
+      if (!db.products[tech.name]) continue;
+      if (!tech.version) {
+        unversioned.push(tech.name);
+        continue;
+      }
+      assessed.push(`${tech.name} ${tech.version}`);
+      findings.push(...componentFindings(tech.name, tech.version, db, { vulnerable: "tech.vulnerable", eol: "tech.eol" }));
+    }
+
+    if (findings.length === 0) findings.push(createFinding("tech.components-current", {
+      title: assessed.length > 0 ? "No known-vulnerable components detected" : "No versioned components to assess",
+      evidence: { assessed, unversioned, advisoryData: db.updated },
+    }));
+    return findings;
+  },
+};
@@ -0,0 +1,50 @@
+// app/checks/cookies.ts
+import { createFinding, type DraftFinding } from '../findings';
+import type { CheckModule } from './types';
+
+export interface CookieAudit {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: string | null;
+}
+
+export function auditCookie(setCookie: string): CookieAudit {
+  const [pair, ...attributes] = setCookie.split(";").map(part => part.trim());
+  const attrs = attributes.map(a => a.toLowerCase());
+  const sameSite = attrs.find(a => a.startsWith("samesite="))?.slice(9) ?? null;
+  return {
+    name: pair.split("=")[0],
+    secure: attrs.includes("secure"),
+    httpOnly: attrs.includes("httponly"),
+    sameSite,
+  };
+}
+
+export const cookieCheck: CheckModule = {
+  id: "cookies",
+  name: "Cookie Security",
+  category: "web",
+  weight: 10,
+  severity: "medium",
+  async run(ctx) {
+    // If the site is unreachable this throws and the check is reported as inconclusive
+    const page = await ctx.fetchPage();
+    if (page.setCookies.length === 0) return [createFinding("web.cookies.none")];
+
+    // The same cookie can be set on several redirect hops; the last one wins
+    const cookies = [...new Map(page.setCookies.map(auditCookie).map(c => [c.name, c])).values()];
+    const describe = (c: CookieAudit) => `${c.name}: ${[c.secure && "Secure", c.httpOnly && "HttpOnly", c.sameSite && `SameSite=${c.sameSite}`].filter(Boolean).join("; ") || "no flags"}`;
+
+    const insecure = cookies.filter(c => !c.secure);
+    const noHttpOnly = cookies.filter(c => !c.httpOnly);
+    const noSameSite = cookies.filter(c => !c.sameSite);
+
+    const findings: DraftFinding[] = [];
+    if (insecure.length > 0) findings.push(createFinding("web.cookies.insecure", { title: `Cookies without Secure flag (${insecure.map(c => c.name).join(", ")})`, evidence: { cookies: insecure.map(describe) } }));
+    if (noHttpOnly.length > 0) findings.push(createFinding("web.cookies.no-httponly", { title: `Cookies readable by JavaScript (${noHttpOnly.map(c => c.name).join(", ")})`, evidence: { cookies: noHttpOnly.map(describe) } }));
+    if (noSameSite.length > 0) findings.push(createFinding("web.cookies.no-samesite", { title: `Cookies without SameSite (${noSameSite.map(c => c.name).join(", ")})`, evidence: { cookies: noSameSite.map(describe) } }));
+    if (findings.length === 0) findings.push(createFinding("web.cookies.secure", { title: `${cookies.length} cookie${cookies.length === 1 ? "" : "s"} set with Secure, HttpOnly and SameSite`, evidence: { cookies: cookies.map(describe) } }));
+    return findings;
+  },
+};
@@ -0,0 +1,68 @@
+// app/checks/csp.ts
+import { createFinding, type DraftFinding, type FindingId } from '../findings';
+import type { CheckModule } from './types';
+
+// Sources that let an attacker load script from (almost) anywhere
+const WILDCARD_SOURCES = ["*", "http:", "https:", "data:", "blob:"];
+
+export function parseCsp(policy: string): Record<string, string[]> {
+  const directives: Record<string, string[]> = {};
+  policy.split(";").forEach(part => {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    // Browsers ignore repeated directives after the first
+    if (name && !(name.toLowerCase() in directives)) directives[name.toLowerCase()] = sources.map(s => s.toLowerCase());
+  });
+  return directives;
+}
+
+// Weaknesses of a single policy, as the finding IDs they map to
+function gradePolicy(directives: Record<string, string[]>): Set<FindingId> {
+  const weaknesses = new Set<FindingId>();
+  const scriptSources = directives["script-src"] ?? directives["default-src"];
+
+  if (!directives["default-src"]) weaknesses.add("web.csp.no-default-src");
+  if (!scriptSources) {
+    // No script-src and no default-src: script may load from anywhere
+    weaknesses.add("web.csp.wildcard");
+    return weaknesses;
+  }
+  // Nonces, hashes and 'strict-dynamic' make browsers ignore 'unsafe-inline'
+  const inlineNeutralised = scriptSources.some(s => /^'(nonce-|sha(256|384|512)-|strict-dynamic')/.test(s));
+  if (scriptSources.includes("'unsafe-inline'") && !inlineNeutralised) weaknesses.add("web.csp.unsafe-inline");
+  if (scriptSources.includes("'unsafe-eval'")) weaknesses.add("web.csp.unsafe-eval");
+  const hasWildcard = (sources?: string[]) => (sources ?? []).some(s => WILDCARD_SOURCES.includes(s));
+  if (hasWildcard(scriptSources) || hasWildcard(directives["script-src-elem"]) || hasWildcard(directives["object-src"] ?? directives["default-src"])) {
+    weaknesses.add("web.csp.wildcard");
+  }
+  return weaknesses;
+}
+
+export const cspCheck: CheckModule = {
+  id: "csp",
+  name: "Content Security Policy",
+  category: "web",
+  weight: 10,
+  severity: "medium",
+  async run(ctx) {
+    // If the site is unreachable this throws and the check is reported as inconclusive
+    const page = await ctx.fetchPage();
+
+    const enforced = page.headers.get('content-security-policy');
+    const reportOnly = page.headers.get('content-security-policy-report-only');
+    if (!enforced) {
+      return [reportOnly
+        ? createFinding("web.csp.report-only", { evidence: { reportOnly } })
+        : createFinding("web.csp.missing")];
+    }
+
+    // Several policies (comma-joined by fetch) are all enforced, so a weakness only
+    // counts if every policy has it.
+    const graded = enforced.split(",").map(p => gradePolicy(parseCsp(p)));
+    const weaknesses = [...graded[0]].filter(w => graded.every(g => g.has(w)));
+    const evidence = { header: enforced };
+
+    const findings: DraftFinding[] = weaknesses.map(id => createFinding(id, { evidence }));
+    if (findings.length === 0) findings.push(createFinding("web.csp.strong", { evidence }));
+    return findings;
+  },
+};
@@ -0,0 +1,66 @@
+// app/checks/dkim.ts
+import { createPublicKey } from 'crypto';
+import { createFinding, type DraftFinding } from '../findings';
+import { parseTagList, sharedMxRecords } from './mail';
+import type { CheckModule } from './types';
+
+// DKIM selectors can't be enumerated, so we probe the ones common providers use
+export const DKIM_SELECTORS = [
+  "default", "dkim", "mail", "email", "smtp", "k1", "k2", "k3", "s1", "s2",
+  "selector1", "selector2", // Microsoft 365
+  "google", // Google Workspace
+  "mandrill", "mxvault", "zoho", "protonmail", "protonmail2", "protonmail3",
+  "fm1", "fm2", "fm3", // Fastmail
+  "sendgrid", "smtpapi", "mailjet", "sib", "pm", "amazonses", "hs1", "hs2",
+];
+
+function describeDkimKey(tags: Record<string, string>): { keyType: string, keyBits: number | null } {
+  const keyType = (tags.k ?? "rsa").toLowerCase();
+  try {
+    const key = createPublicKey({ key: Buffer.from(tags.p, "base64"), format: "der", type: "spki" });
+    return { keyType, keyBits: key.asymmetricKeyDetails?.modulusLength ?? (keyType === "ed25519" ? 256 : null) };
+  } catch {
+    return { keyType, keyBits: null };
+  }
+}
+
+export const dkimCheck: CheckModule = {
+  id: "dkim",
+  name: "DKIM",
+  category: "email",
+  weight: 10,
+  severity: "medium",
+  async run(ctx) {
+    // Nothing to sign if the domain receives (and so presumably sends) no mail; SPF covers that case
+    if ((await sharedMxRecords(ctx)).length === 0) return [];
+
+    const probes = await Promise.all(DKIM_SELECTORS.map(async selector => ({
+      selector,
+      record: (await ctx.resolveTxt(`${selector}._domainkey.${ctx.domain}`)).find(r => /(^|;)\s*p=/i.test(r)),
+    })));
+    const found = probes.filter((p): p is { selector: string, record: string } => !!p.record);
+
+    if (found.length === 0) {
+      return [createFinding("email.dkim.not-found", { evidence: { selectorsProbed: DKIM_SELECTORS } })];
+    }
+
+    const keys = found.map(({ selector, record }) => ({ selector, tags: parseTagList(record) }))
+      // An empty p= is a revoked key; it proves the selector existed but signs nothing
+      .filter(({ tags }) => tags.p)
+      .map(({ selector, tags }) => ({ selector, ...describeDkimKey(tags) }));
+
+    if (keys.length === 0) {
+      return [createFinding("email.dkim.not-found", { title: "Only revoked DKIM keys found", evidence: { selectors: found.map(f => f.selector) } })];
+    }
+
+    const findings: DraftFinding[] = [createFinding("email.dkim.found", {
+      title: `DKIM keys found (${keys.map(k => k.selector).join(", ")})`,
+      evidence: { keys: keys.map(k => `${k.selector}: ${k.keyType}${k.keyBits ? ` ${k.keyBits}-bit` : ""}`) },
+    })];
+    const weak = keys.filter(k => k.keyType === "rsa" && k.keyBits !== null && k.keyBits < 1024);
+    if (weak.length > 0) {
+      findings.push(createFinding("email.dkim.weak-key", { evidence: { keys: weak.map(k => `${k.selector}: ${k.keyBits}-bit`) } }));
+    }
+    return findings;
+  },
+};
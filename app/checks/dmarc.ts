@@ -0,0 +1,56 @@
+// app/checks/dmarc.ts
+import { createFinding, type DraftFinding } from '../findings';
+import { parseTagList } from './mail';
+import type { CheckModule } from './types';
+
+const POLICIES = ["none", "quarantine", "reject"];
+
+export const dmarcCheck: CheckModule = {
+  id: "dmarc",
+  name: "DMARC",
+  category: "email",
+  weight: 20,
+  severity: "high",
+  async run(ctx) {
+    try {
+      const records = (await ctx.resolveTxt(`_dmarc.${ctx.domain}`)).filter(r => /^v=DMARC1(\s|;|$)/i.test(r));
+      if (records.length === 0) return [createFinding("email.dmarc.missing")];
+      // RFC 7489 6.6.3: more than one record means receivers ignore DMARC entirely
+      if (records.length > 1) return [createFinding("email.dmarc.invalid", { title: "Multiple DMARC records published", evidence: { records } })];
+
+      const record = records[0];
+      const tags = parseTagList(record);
+      const policy = tags.p?.toLowerCase();
+      const subdomainPolicy = tags.sp?.toLowerCase() ?? policy;
+      const pct = tags.pct ? Number(tags.pct) : 100;
+      const evidence = {
+        record,
+        policy: policy ?? null,
+        subdomainPolicy: subdomainPolicy ?? null,
+        pct,
+        rua: tags.rua ?? null,
+        ruf: tags.ruf ?? null,
+        dkimAlignment: tags.adkim?.toLowerCase() === "s" ? "strict" : "relaxed",
+        spfAlignment: tags.aspf?.toLowerCase() === "s" ? "strict" : "relaxed",
+      };
+
+      if (!policy || !POLICIES.includes(policy)) return [createFinding("email.dmarc.invalid", { title: "DMARC record has no valid 'p=' policy", evidence })];
+
+      const findings: DraftFinding[] = [];
+      if (policy === "none") findings.push(createFinding("email.dmarc.monitor-only", { evidence }));
+      else {
+        findings.push(createFinding("email.dmarc.enforced", { title: `DMARC Record Active (p=${policy})`, evidence }));
+        if (pct < 100) findings.push(createFinding("email.dmarc.partial", { title: `DMARC only applied to ${pct}% of mail`, evidence }));
+        if (subdomainPolicy === "none") findings.push(createFinding("email.dmarc.subdomains-unprotected", { evidence }));
+      }
+
+      if (!tags.rua) findings.push(createFinding("email.dmarc.no-reporting", { evidence }));
+      else findings.push(createFinding("email.dmarc.reporting", { evidence: { rua: tags.rua, ruf: tags.ruf ?? null } }));
+
+      return findings;
+    } catch (e) {
+      // The resolver failed (SERVFAIL, timeout); a missing record is an empty answer, not an error
+      return [createFinding("email.dns-failed", { evidence: { error: e instanceof Error ? e.message : String(e) } })];
+    }
+  },
+};
@@ -0,0 +1,159 @@
+// app/checks/dnsInfra.ts
+import dgram from 'dgram';
+import dns from 'dns/promises';
+import net from 'net';
+import { randomBytes } from 'crypto';
+import type { CaaRecord } from 'dns';
+import { CAA_ISSUERS } from '../certificateAuthorities';
+import { createFinding, type DraftFinding } from '../findings';
+import { noRecords } from '../targets';
+import { sharedTLSDetails } from './tls';
+import type { CheckModule } from './types';
+
+const DNS_TYPE = { DS: 43, DNSKEY: 48 };
+
+// --- HELPER: RAW DNS QUERY ---
+// Node's resolver can't ask for DS/DNSKEY, so we send a minimal wire-format query
+// (with EDNS0 so large DNSKEY sets aren't truncated) to the system's first resolver.
+function encodeQuery(name: string, type: number) {
+  const labels = name.split(".").filter(Boolean).map(label => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)]));
+  const header = Buffer.from([...randomBytes(2), 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 1]);
+  const question = Buffer.concat([...labels, Buffer.from([0, type >> 8, type & 0xff, 0, 1])]);
+  const opt = Buffer.from([0, 0, 41, 0x10, 0x00, 0, 0, 0, 0, 0, 0]);
+  return Buffer.concat([header, question, opt]);
+}
+
+function skipName(message: Buffer, offset: number) {
+  while (message[offset] !== 0) {
+    if ((message[offset] & 0xc0) === 0xc0) return offset + 2;
+    offset += message[offset] + 1;
+  }
+  return offset + 1;
+}
+
+function resolverAddress(server: string) {
+  if (net.isIP(server)) return { host: server, port: 53 };
+  const match = server.match(/^\[?([^\]]+?)\]?:(\d+)$/);
+  return match ? { host: match[1], port: Number(match[2]) } : { host: server, port: 53 };
+}
+
+// Number of answers of `type` for `name`; 0 on NXDOMAIN/NODATA, null if the resolver couldn't tell us
+export async function countRecords(name: string, type: number): Promise<number | null> {
+  const server = dns.getServers()[0];
+  if (!server) return null;
+  const { host, port } = resolverAddress(server);
+  const query = encodeQuery(name, type);
+
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    const finish = (count: number | null) => { clearTimeout(timer); socket.close(); resolve(count); };
+    const timer = setTimeout(() => finish(null), 3000);
+    socket.on('error', () => finish(null));
+    socket.on('message', (message) => {
+      if (message.length < 12 || message.readUInt16BE(0) !== query.readUInt16BE(0)) return;
+      const rcode = message[3] & 0x0f;
+      if (rcode === 3) return finish(0);
+      if (rcode !== 0) return finish(null);
+      try {
+        let offset = skipName(message, 12) + 4;
+        let count = 0;
+        for (let i = 0; i < message.readUInt16BE(6); i++) {
+          offset = skipName(message, offset);
+          if (message.readUInt16BE(offset) === type) count++;
+          offset += 10 + message.readUInt16BE(offset + 8);
+        }
+        finish(count);
+      } catch {
+        finish(null);
+      }
+    });
+    socket.send(query, port, host);
+  });
+}
+
+// CAA is inherited: if the name has none, the closest ancestor's records apply (RFC 8659 3).
+// Only NXDOMAIN/NODATA move the walks up a level; a resolver failure rejects and the check is inconclusive.
+async function resolveCaaTree(domain: string): Promise<{ name: string, records: CaaRecord[] } | null> {
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const name = labels.slice(i).join(".");
+    const records: CaaRecord[] = await dns.resolveCaa(name).catch(noRecords);
+    if (records.length > 0) return { name, records };
+  }
+  return null;
+}
+
+async function resolveNsTree(domain: string): Promise<string[]> {
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const ns: string[] = await dns.resolveNs(labels.slice(i).join(".")).catch(noRecords);
+    if (ns.length > 0) return ns;
+  }
+  return [];
+}
+
+// ns-123.awsdns-45.org and ns-6.awsdns-07.co.uk are the same provider
+function nameserverProvider(host: string) {
+  const labels = host.toLowerCase().replace(/\.$/, "").split(".");
+  const n = labels.length;
+  const secondLevelSuffix = n > 2 && labels[n - 1].length === 2 && ["co", "com", "net", "org", "ac", "gov"].includes(labels[n - 2]);
+  const registrable = secondLevelSuffix ? labels[n - 3] : labels[n - 2];
+  return (registrable ?? host).replace(/-?\d+$/, "");
+}
+
+export const dnsInfraCheck: CheckModule = {
+  id: "dns-infra",
+  name: "DNS Infrastructure",
+  category: "dns",
+  weight: 10,
+  severity: "medium",
+  async run(ctx) {
+    const findings: DraftFinding[] = [];
+    const [ds, dnskey, caa, ns, wildcard, ssl] = await Promise.all([
+      countRecords(ctx.domain, DNS_TYPE.DS),
+      countRecords(ctx.domain, DNS_TYPE.DNSKEY),
+      resolveCaaTree(ctx.domain),
+      resolveNsTree(ctx.domain),
+      dns.resolve4(`cv-${randomBytes(6).toString("hex")}.${ctx.domain}`).catch(noRecords),
+      sharedTLSDetails(ctx),
+    ]);
+
+    // 1. DNSSEC
+    if (ds !== null && dnskey !== null) {
+      const evidence = { dsRecords: ds, dnskeyRecords: dnskey };
+      if (ds > 0 && dnskey > 0) findings.push(createFinding("dns.dnssec.signed", { evidence }));
+      else if (dnskey > 0) findings.push(createFinding("dns.dnssec.unanchored", { evidence }));
+      else if (ds > 0) findings.push(createFinding("dns.dnssec.broken", { evidence }));
+      else findings.push(createFinding("dns.dnssec.unsigned", { evidence }));
+    }
+
+    // 2. CAA
+    if (!caa) findings.push(createFinding("dns.caa.missing"));
+    else {
+      const allowed = caa.records.filter(r => r.issue !== undefined || r.issuewild !== undefined)
+        .map(r => (r.issue ?? r.issuewild ?? "").split(";")[0].trim().toLowerCase());
+      const evidence = { zone: caa.name, records: caa.records.map(r => Object.entries(r).map(([k, v]) => `${k} ${v}`).join(" ")), observedIssuer: ssl?.issuer ?? null };
+      const known = ssl && CAA_ISSUERS.filter(ca => ca.issuer.test(ssl.issuer));
+      // We can only judge the issuer when we recognise it; an unknown CA gets the benefit of the doubt
+      // A CAA set with only iodef/other tags doesn't restrict issuance at all
+      if (known && known.length > 0 && allowed.length > 0 && !known.some(ca => allowed.includes(ca.domain))) {
+        findings.push(createFinding("dns.caa.issuer-not-allowed", { title: `CAA does not authorise the current issuer (${ssl.issuer})`, evidence }));
+      } else {
+        findings.push(createFinding("dns.caa.present", { evidence }));
+      }
+    }
+
+    // 3. Nameservers
+    const providers = [...new Set(ns.map(nameserverProvider))];
+    const nsEvidence = { nameservers: ns, providers };
+    if (ns.length < 2) findings.push(createFinding("dns.ns.insufficient", { title: `Only ${ns.length} nameserver${ns.length === 1 ? "" : "s"} found`, evidence: nsEvidence }));
+    else if (providers.length < 2) findings.push(createFinding("dns.ns.single-provider", { title: `${ns.length} nameservers, all with ${providers[0]}`, evidence: nsEvidence }));
+    else findings.push(createFinding("dns.ns.diverse", { evidence: nsEvidence }));
+
+    // 4. Wildcard records
+    if (wildcard.length > 0) findings.push(createFinding("dns.wildcard", { evidence: { resolvesTo: wildcard } }));
+    else findings.push(createFinding("dns.no-wildcard"));
+
+    return findings;
+  },
+};
@@ -0,0 +1,102 @@
+// app/checks/headers.ts
+import { createFinding, type DraftFinding } from '../findings';
+import { TargetError } from '../targets';
+import type { CheckModule } from './types';
+
+// 6 months is the floor browsers' preload list accepts; a year is the usual recommendation
+const HSTS_MIN_MAX_AGE = 15768000;
+const UNSAFE_REFERRER_POLICIES = ["unsafe-url", "no-referrer-when-downgrade"];
+// Version numbers in these headers tell attackers exactly which CVEs to try
+const VERSION_DISCLOSURE = /\d+\.\d+/;
+const DISCLOSURE_HEADERS = ["server", "x-powered-by", "x-aspnet-version", "x-aspnetmvc-version", "x-generator"];
+
+export function parseHsts(header: string) {
+  const directives = header.toLowerCase().split(";").map(d => d.trim());
+  const maxAge = Number(directives.find(d => d.startsWith("max-age="))?.slice(8).replace(/"/g, "") ?? NaN);
+  return {
+    maxAge: Number.isFinite(maxAge) ? maxAge : null,
+    includeSubDomains: directives.includes("includesubdomains"),
+    preload: directives.includes("preload"),
+  };
+}
+
+export const securityHeadersCheck: CheckModule = {
+  id: "headers",
+  name: "Security Headers",
+  category: "web",
+  weight: 20,
+  severity: "medium",
+  async run(ctx) {
+    let page;
+    try {
+      page = await ctx.fetchPage();
+    } catch (e) {
+      // The site itself resolved publicly, but a redirect pointed somewhere we won't go
+      if (e instanceof TargetError) return [createFinding("web.redirects.blocked", { evidence: { error: e.message } })];
+      // Unreachable: the check is reported as inconclusive rather than passing with nothing to judge
+      throw e;
+    }
+    const { headers } = page;
+    const findings: DraftFinding[] = [];
+
+    // 1. Redirect chain
+    const chain = page.redirects.map(r => `${r.status} ${r.url} → ${r.location}`);
+    const insecureHop = page.redirects.find(r => r.location.startsWith("http://"));
+    if (insecureHop) findings.push(createFinding("web.redirects.insecure", { title: `Redirect downgrades to HTTP (${insecureHop.location})`, evidence: { redirectChain: chain, finalUrl: page.url } }));
+    else if (chain.length > 0) findings.push(createFinding("web.redirects.secure", { title: `${chain.length} redirect${chain.length === 1 ? "" : "s"}, all over HTTPS`, evidence: { redirectChain: chain, finalUrl: page.url } }));
+
+    // 2. HSTS
+    const hsts = headers.get('strict-transport-security');
+    if (!hsts) findings.push(createFinding("web.hsts.missing"));
+    else {
+      const policy = parseHsts(hsts);
+      const evidence = { header: hsts, maxAge: policy.maxAge, includeSubDomains: policy.includeSubDomains, preload: policy.preload };
+      if (policy.maxAge === null || policy.maxAge < HSTS_MIN_MAX_AGE) findings.push(createFinding("web.hsts.short-max-age", { title: `HSTS max-age too short (${policy.maxAge ?? "missing"}s)`, evidence }));
+      else if (!policy.includeSubDomains) findings.push(createFinding("web.hsts.no-subdomains", { evidence }));
+      else findings.push(createFinding("web.hsts.present", { title: policy.preload ? "HSTS Enabled (preload-ready)" : "HSTS Enabled", evidence }));
+    }
+
+    // 3. MIME sniffing
+    const nosniff = headers.get('x-content-type-options');
+    if (nosniff?.trim().toLowerCase() !== "nosniff") findings.push(createFinding("web.nosniff.missing", { evidence: { header: nosniff } }));
+    else findings.push(createFinding("web.nosniff.present", { evidence: { header: nosniff } }));
+
+    // 4. Clickjacking
+    const xf = headers.get('x-frame-options');
+    const csp = headers.get('content-security-policy');
+    if (!xf && !(csp && csp.includes('frame-ancestors'))) findings.push(createFinding("web.clickjacking.missing"));
+    else findings.push(createFinding("web.clickjacking.present", { evidence: { xFrameOptions: xf, contentSecurityPolicy: csp } }));
+
+    // 5. Referrer-Policy (the last valid token wins when several are listed)
+    const referrer = headers.get('referrer-policy');
+    const effectiveReferrer = referrer?.split(",").map(p => p.trim().toLowerCase()).filter(Boolean).pop();
+    if (!effectiveReferrer) findings.push(createFinding("web.referrer-policy.missing"));
+    else if (UNSAFE_REFERRER_POLICIES.includes(effectiveReferrer)) findings.push(createFinding("web.referrer-policy.weak", { title: `Referrer-Policy leaks full URLs ('${effectiveReferrer}')`, evidence: { header: referrer } }));
+    else findings.push(createFinding("web.referrer-policy.present", { evidence: { header: referrer } }));
+
+    // 6. Permissions-Policy
+    const permissions = headers.get('permissions-policy');
+    if (!permissions) findings.push(createFinding("web.permissions-policy.missing"));
+    else findings.push(createFinding("web.permissions-policy.present", { evidence: { header: permissions } }));
+
+    // 7. Cross-origin isolation
+    const isolation = {
+      "cross-origin-opener-policy": headers.get('cross-origin-opener-policy'),
+      "cross-origin-embedder-policy": headers.get('cross-origin-embedder-policy'),
+      "cross-origin-resource-policy": headers.get('cross-origin-resource-policy'),
+    };
+    const missingIsolation = Object.entries(isolation).filter(([, value]) => !value).map(([name]) => name);
+    if (missingIsolation.length > 0) findings.push(createFinding("web.cross-origin.missing", { evidence: { missing: missingIsolation } }));
+    else findings.push(createFinding("web.cross-origin.present", { evidence: isolation }));
+
+    // 8. Version disclosure
+    const disclosed = DISCLOSURE_HEADERS.map(name => [name, headers.get(name)] as const).filter(([, value]) => value && VERSION_DISCLOSURE.test(value));
+    if (disclosed.length > 0) findings.push(createFinding("web.version-disclosure", {
+      title: `Software versions disclosed (${disclosed.map(([, value]) => value).join(", ")})`,
+      evidence: Object.fromEntries(disclosed),
+    }));
+    else findings.push(createFinding("web.no-version-disclosure"));
+
+    return findings;
+  },
+};
@@ -0,0 +1,35 @@
+// app/checks/index.ts
+// Built-in checks. Registration order is the order results appear on the dashboard.
+import { registerCheck } from './registry';
+import { portScanCheck } from './ports';
+import { tlsCheck } from './tls';
+import { tlsConfigCheck } from './tlsConfig';
+import { spfCheck } from './spf';
+import { dmarcCheck } from './dmarc';
+import { dkimCheck } from './dkim';
+import { mailTransportCheck } from './mail';
+import { dnsInfraCheck } from './dnsInfra';
+import { takeoverCheck } from './takeover';
+import { securityHeadersCheck } from './headers';
+import { cspCheck } from './csp';
+import { cookieCheck } from './cookies';
+import { techCheck } from './tech';
+import { componentsCheck } from './components';
+import { sensitiveFilesCheck } from './sensitiveFiles';
+import { mixedContentCheck } from './mixedContent';
+import { clientLibrariesCheck } from './clientLibraries';
+import { adminExposureCheck } from './adminExposure';
+
+[
+  portScanCheck,
+  tlsCheck, tlsConfigCheck,
+  spfCheck, dmarcCheck, dkimCheck, mailTransportCheck,
+  dnsInfraCheck, takeoverCheck,
+  securityHeadersCheck, cspCheck, cookieCheck,
+  techCheck, componentsCheck,
+  // Deep checks: verified domains only
+  sensitiveFilesCheck, mixedContentCheck, clientLibrariesCheck, adminExposureCheck,
+].forEach(registerCheck);
+
+export { getCheck, listChecks, registerCheck } from './registry';
+export type { CheckModule, PageSnapshot, ScanContext } from './types';
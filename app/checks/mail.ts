@@ -0,0 +1,84 @@
+// app/checks/mail.ts
+import dns from 'dns/promises';
+import type { MxRecord } from 'dns';
+import { createFinding, type DraftFinding } from '../findings';
+import { noRecords } from '../targets';
+import type { CheckModule, ScanContext } from './types';
+
+// Sorted by preference; an empty list means the domain does not receive mail. A resolver failure
+// rejects, so the checks that need MX are inconclusive rather than reporting "no mail server".
+export function sharedMxRecords(ctx: ScanContext) {
+  return ctx.shared("mx", () => dns.resolveMx(ctx.domain).then(r => r.sort((a, b) => a.priority - b.priority)).catch((e): MxRecord[] => noRecords(e)));
+}
+
+// Parses "key=value; key=value" tag lists used by DMARC, TLS-RPT, BIMI and DKIM records
+export function parseTagList(record: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  record.split(";").forEach(part => {
+    const i = part.indexOf("=");
+    if (i > 0) tags[part.slice(0, i).trim().toLowerCase()] = part.slice(i + 1).trim();
+  });
+  return tags;
+}
+
+// --- HELPER: MTA-STS POLICY FETCH ---
+// RFC 8461 forbids redirects, so anything other than a 200 means no usable policy
+async function fetchMtaStsPolicy(ctx: ScanContext): Promise<Record<string, string> | null> {
+  try {
+    const response = await ctx.fetch(`https://mta-sts.${ctx.domain}/.well-known/mta-sts.txt`, { timeoutMs: 5000 });
+    if (response.status !== 200) return null;
+    const policy: Record<string, string> = {};
+    response.body.split(/\r?\n/).forEach(line => {
+      const i = line.indexOf(":");
+      // "mx" may repeat; keep them all
+      if (i > 0) {
+        const key = line.slice(0, i).trim().toLowerCase();
+        const value = line.slice(i + 1).trim();
+        policy[key] = policy[key] ? `${policy[key]}, ${value}` : value;
+      }
+    });
+    return policy;
+  } catch {
+    return null;
+  }
+}
+
+export const mailTransportCheck: CheckModule = {
+  id: "mail-transport",
+  name: "Mail Transport Security",
+  category: "email",
+  weight: 5,
+  severity: "low",
+  async run(ctx) {
+    const mx = await sharedMxRecords(ctx);
+    if (mx.length === 0) return [createFinding("email.mx.none")];
+
+    const findings: DraftFinding[] = [createFinding("email.mx.present", {
+      title: `${mx.length} Mail Server${mx.length === 1 ? "" : "s"} (MX)`,
+      evidence: { mx: mx.map(r => `${r.priority} ${r.exchange}`) },
+    })];
+
+    const [stsTxt, tlsRpt, bimi] = await Promise.all([
+      ctx.resolveTxt(`_mta-sts.${ctx.domain}`).then(r => r.find(t => /^v=STSv1/i.test(t))),
+      ctx.resolveTxt(`_smtp._tls.${ctx.domain}`).then(r => r.find(t => /^v=TLSRPTv1/i.test(t))),
+      ctx.resolveTxt(`default._bimi.${ctx.domain}`).then(r => r.find(t => /^v=BIMI1/i.test(t))),
+    ]);
+
+    if (!stsTxt) findings.push(createFinding("email.mta-sts.missing"));
+    else {
+      const policy = await fetchMtaStsPolicy(ctx);
+      const mode = policy?.mode?.toLowerCase() ?? null;
+      const evidence = { record: stsTxt, mode, policyMx: policy?.mx ?? null };
+      if (mode === "enforce") findings.push(createFinding("email.mta-sts.enforced", { evidence }));
+      else findings.push(createFinding("email.mta-sts.not-enforced", { title: policy ? `MTA-STS policy in '${mode ?? "unknown"}' mode` : "MTA-STS policy file unreachable", evidence }));
+    }
+
+    if (!tlsRpt) findings.push(createFinding("email.tls-rpt.missing"));
+    else findings.push(createFinding("email.tls-rpt.present", { evidence: { record: tlsRpt, rua: parseTagList(tlsRpt).rua ?? null } }));
+
+    if (!bimi) findings.push(createFinding("email.bimi.missing"));
+    else findings.push(createFinding("email.bimi.present", { evidence: { record: bimi, logo: parseTagList(bimi).l ?? null } }));
+
+    return findings;
+  },
+};
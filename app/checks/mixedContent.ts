@@ -0,0 +1,60 @@
+// app/checks/mixedContent.ts
+import { createFinding, type DraftFinding } from '../findings';
+import type { CheckModule } from './types';
+
+// Browsers block active mixed content outright, breaking the page; passive content still loads,
+// but can be swapped or watched by anyone on the network path
+const ACTIVE = [
+  { tag: "script", attribute: "src" },
+  { tag: "iframe", attribute: "src" },
+  { tag: "link", attribute: "href", only: /\brel=["']?stylesheet/i },
+  { tag: "object", attribute: "data" },
+  { tag: "embed", attribute: "src" },
+];
+const PASSIVE = [
+  { tag: "img", attribute: "src" },
+  { tag: "audio", attribute: "src" },
+  { tag: "video", attribute: "src" },
+  { tag: "source", attribute: "src" },
+];
+// Listed in evidence; the rest are counted
+const MAX_LISTED = 10;
+
+function insecureUrls(html: string, elements: { tag: string, attribute: string, only?: RegExp }[]) {
+  const urls = new Set<string>();
+  for (const { tag, attribute, only } of elements) {
+    for (const [element] of html.matchAll(new RegExp(`<${tag}\\s[^>]*>`, "gi"))) {
+      if (only && !only.test(element)) continue;
+      const url = element.match(new RegExp(`\\b${attribute}=["']?(http://[^"'\\s>]+)`, "i"))?.[1];
+      if (url) urls.add(url);
+    }
+  }
+  return [...urls];
+}
+
+export const mixedContentCheck: CheckModule = {
+  id: "mixed-content",
+  name: "Mixed Content",
+  category: "web",
+  weight: 5,
+  severity: "high",
+  deep: true,
+  async run(ctx) {
+    const page = await ctx.fetchPage();
+    // An HTTP page can't have mixed content, but it isn't a pass either: the check is inconclusive,
+    // and the TLS checks report the missing redirect
+    if (!page.url.startsWith("https://")) throw new Error(`The homepage ended up on ${page.url}, which is not served over HTTPS`);
+
+    const active = insecureUrls(page.html, ACTIVE);
+    const passive = insecureUrls(page.html, PASSIVE);
+    const forms = [...page.html.matchAll(/<form\s[^>]*\baction=["']?(http:\/\/[^"'\s>]+)/gi)].map(m => m[1]);
+    const evidence = (urls: string[]) => ({ page: page.url, count: urls.length, urls: urls.slice(0, MAX_LISTED) });
+
+    const findings: DraftFinding[] = [];
+    if (active.length > 0) findings.push(createFinding("web.mixed-content.active", { title: `Scripts, stylesheets or frames loaded over HTTP (${active.length})`, evidence: evidence(active) }));
+    if (passive.length > 0) findings.push(createFinding("web.mixed-content.passive", { title: `Images or media loaded over HTTP (${passive.length})`, evidence: evidence(passive) }));
+    if (forms.length > 0) findings.push(createFinding("web.mixed-content.insecure-form", { evidence: evidence([...new Set(forms)]) }));
+    if (findings.length === 0) findings.push(createFinding("web.mixed-content.none", { evidence: { page: page.url } }));
+    return findings;
+  },
+};
@@ -0,0 +1,129 @@
+// app/checks/ports.ts
+import net from 'net';
+import { createFinding } from '../findings';
+import type { PortDefinition, PortSeverity } from '../portProfiles';
+import { identifyService, printableBanner, probeFor, type ServiceIdentity } from './banners';
+import type { CheckModule } from './types';
+
+const PENALTY_BY_SEVERITY: Record<PortSeverity, number> = { critical: 0.8, high: 0.4, medium: 0.2 };
+const CONNECT_TIMEOUT_MS = 2500;
+// How long an open port gets to say something (or answer our probe) before we stop listening
+const BANNER_TIMEOUT_MS = 1500;
+const MAX_BANNER_BYTES = 2048;
+// Across every scan in this process, so a portfolio run can't open thousands of sockets at once
+const MAX_PARALLEL_PROBES = 64;
+
+// Errors that mean we have no route to the address, rather than that the port is closed
+const UNREACHABLE_ERRORS = ["ENETUNREACH", "EHOSTUNREACH", "EADDRNOTAVAIL", "EAFNOSUPPORT"];
+
+type ProbeResult = { state: "open", banner: Buffer } | { state: "closed" } | { state: "unreachable" };
+
+// --- HELPER: PROBE LIMITER ---
+let activeProbes = 0;
+const waitingProbes: (() => void)[] = [];
+
+async function withProbeSlot<T>(probe: () => Promise<T>): Promise<T> {
+  if (activeProbes >= MAX_PARALLEL_PROBES) await new Promise<void>(resolve => waitingProbes.push(resolve));
+  activeProbes++;
+  try {
+    return await probe();
+  } finally {
+    activeProbes--;
+    waitingProbes.shift()?.();
+  }
+}
+
+// --- HELPER: PORT SCANNER ---
+// Connects straight to an address that was vetted when the scan target was resolved. Refused, reset
+// or silent means closed; an open port is given a moment to identify itself.
+async function checkPort(address: string, port: PortDefinition): Promise<ProbeResult> {
+    return new Promise((resolve) => {
+        const socket = new net.Socket();
+        const chunks: Buffer[] = [];
+        let open = false;
+        const finish = () => {
+            socket.destroy();
+            resolve(open ? { state: "open", banner: Buffer.concat(chunks).subarray(0, MAX_BANNER_BYTES) } : { state: "closed" });
+        };
+        socket.setTimeout(CONNECT_TIMEOUT_MS);
+        socket.on('connect', () => {
+            open = true;
+            socket.setTimeout(BANNER_TIMEOUT_MS);
+            const probe = probeFor(port.service);
+            if (probe) socket.write(probe);
+        });
+        socket.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+            if (chunks.reduce((total, c) => total + c.length, 0) >= MAX_BANNER_BYTES) finish();
+        });
+        socket.on('timeout', finish);
+        socket.on('end', finish);
+        socket.on('error', (e: NodeJS.ErrnoException) => {
+            if (!open && e.code && UNREACHABLE_ERRORS.includes(e.code)) {
+                socket.destroy();
+                resolve({ state: "unreachable" });
+            } else finish();
+        });
+        socket.connect({ port: port.port, host: address });
+    });
+}
+
+const hostPort = (address: string, port: number) => `${net.isIPv6(address) ? `[${address}]` : address}:${port}`;
+
+export const portScanCheck: CheckModule = {
+  id: "ports",
+  name: "Exposed Services",
+  category: "ports",
+  weight: 25,
+  severity: "critical",
+  // Large port profiles across several addresses can queue behind other scans' probes
+  timeoutMs: 90_000,
+  async run(ctx) {
+    if (ctx.addresses.length === 0) throw new Error(`${ctx.domain} has no A or AAAA records`);
+
+    const probes = await Promise.all(ctx.addresses.flatMap(address => ctx.ports.map(async port => ({
+      address,
+      port,
+      result: await withProbeSlot(() => checkPort(address, port)),
+    }))));
+
+    const unreachable = ctx.addresses.filter(address => probes.every(p => p.address !== address || p.result.state === "unreachable"));
+    if (unreachable.length === ctx.addresses.length) throw new Error(`No route to ${ctx.addresses.join(", ")}`);
+    const scope = {
+      portProfile: ctx.portProfile,
+      portsChecked: ctx.ports.map(p => String(p.port)),
+      addresses: ctx.addresses.filter(a => !unreachable.includes(a)),
+      // Usually IPv6 addresses the scanner itself can't route to; their ports are unknown, not closed
+      unreachable,
+    };
+
+    const open = ctx.ports.map(port => {
+      const hits = probes.filter(p => p.port === port && p.result.state === "open");
+      const banners = hits.map(p => p.result.state === "open" ? p.result.banner : Buffer.alloc(0));
+      const identity = banners.map(b => identifyService(port.service, b)).find((i): i is ServiceIdentity => i !== null) ?? null;
+      return { port, addresses: hits.map(h => h.address), identity, banner: banners.map(printableBanner).find(Boolean) ?? null };
+    }).filter(o => o.addresses.length > 0);
+
+    if (open.length === 0) return [createFinding("ports.firewalled", { evidence: scope })];
+    return open.map(({ port, addresses, identity, banner }) => {
+      const where = addresses.map(a => hostPort(a, port.port)).join(", ");
+      return createFinding("ports.open", {
+        subject: String(port.port),
+        title: identity
+          ? `${identity.product}${identity.version ? ` ${identity.version}` : ""} exposed on ${where}`
+          : `Open Port: ${port.port} (${port.service}) on ${addresses.join(", ")}`,
+        severity: port.severity,
+        penalty: PENALTY_BY_SEVERITY[port.severity],
+        evidence: {
+          port: port.port,
+          service: port.service,
+          product: identity?.product ?? null,
+          version: identity?.version ?? null,
+          banner,
+          openOn: addresses,
+          ...scope,
+        },
+      });
+    });
+  },
+};
@@ -0,0 +1,17 @@
+// app/checks/registry.ts
+import type { CheckModule } from './types';
+
+const registry = new Map<string, CheckModule>();
+
+// Re-registering an id replaces the previous module (keeps dev hot-reload happy)
+export function registerCheck(check: CheckModule) {
+  registry.set(check.id, check);
+}
+
+export function getCheck(id: string): CheckModule | undefined {
+  return registry.get(id);
+}
+
+export function listChecks(): CheckModule[] {
+  return [...registry.values()];
+}
@@ -0,0 +1,96 @@
+// app/checks/sensitiveFiles.ts
+import { createFinding, type DraftFinding, type Severity } from '../findings';
+import type { GuardedResponse } from '../targets';
+import type { CheckModule, ScanContext } from './types';
+
+// Enough of each file to recognise it; nothing more is downloaded
+const PROBE_BYTES = 4096;
+const PROBE_TIMEOUT_MS = 8000;
+
+// Files that should never be served, each recognised by its content rather than the status code,
+// since many sites answer 200 with their homepage for any path
+const SENSITIVE_FILES: { path: string, label: string, severity: Severity, penalty: number, matches: (r: GuardedResponse) => boolean }[] = [
+  { path: "/.git/HEAD", label: "Git repository", severity: "critical", penalty: 1, matches: r => /^(ref: refs\/|[0-9a-f]{40}\s*$)/.test(r.body) },
+  { path: "/.git/config", label: "Git repository config", severity: "critical", penalty: 1, matches: r => /^\s*\[core\]/m.test(r.body) },
+  { path: "/.env", label: "Environment file", severity: "critical", penalty: 1, matches: r => !isHtml(r) && /^[A-Z][A-Z0-9_]*=/m.test(r.body) },
+  { path: "/.svn/entries", label: "Subversion working copy", severity: "high", penalty: 0.6, matches: r => /^(\d+\s*$|<\?xml[^>]*>\s*<wc-entries)/m.test(r.body) },
+  { path: "/.DS_Store", label: "macOS folder index", severity: "low", penalty: 0.1, matches: r => r.body.includes("Bud1") },
+  { path: "/wp-config.php.bak", label: "WordPress config backup", severity: "critical", penalty: 1, matches: r => /DB_PASSWORD/.test(r.body) },
+  { path: "/wp-config.php~", label: "WordPress config backup", severity: "critical", penalty: 1, matches: r => /DB_PASSWORD/.test(r.body) },
+  { path: "/config.php.bak", label: "PHP config backup", severity: "critical", penalty: 1, matches: r => r.body.includes("<?php") },
+  { path: "/backup.sql", label: "Database dump", severity: "critical", penalty: 1, matches: isSqlDump },
+  { path: "/dump.sql", label: "Database dump", severity: "critical", penalty: 1, matches: isSqlDump },
+  { path: "/database.sql", label: "Database dump", severity: "critical", penalty: 1, matches: isSqlDump },
+  { path: "/backup.zip", label: "Site archive", severity: "critical", penalty: 1, matches: isArchive },
+  { path: "/site.zip", label: "Site archive", severity: "critical", penalty: 1, matches: isArchive },
+  { path: "/www.zip", label: "Site archive", severity: "critical", penalty: 1, matches: isArchive },
+  { path: "/backup.tar.gz", label: "Site archive", severity: "critical", penalty: 1, matches: isArchive },
+];
+
+// Common upload and backup folders, where an autoindex lists every file
+const LISTING_PATHS = ["/uploads/", "/images/", "/backup/", "/backups/", "/files/", "/wp-content/uploads/"];
+const DIRECTORY_LISTING = /<title>\s*(Index of \/|Directory listing for \/)/i;
+
+function isHtml(response: GuardedResponse) {
+  return (response.headers.get("content-type") ?? "").includes("text/html") || /^\s*<(!doctype|html)/i.test(response.body);
+}
+
+function isSqlDump(response: GuardedResponse) {
+  return !isHtml(response) && /(-- MySQL dump|-- PostgreSQL database dump|CREATE TABLE|INSERT INTO)/i.test(response.body);
+}
+
+function isArchive(response: GuardedResponse) {
+  return /zip|gzip|x-tar|octet-stream/.test(response.headers.get("content-type") ?? "") && !isHtml(response) && response.body.length > 0;
+}
+
+// Probes the origin the homepage settled on, unless it left the domain (e.g. for a hosted shop)
+export async function probeOrigin(ctx: ScanContext) {
+  const page = await ctx.fetchPage();
+  const final = new URL(page.url);
+  const onDomain = final.hostname === ctx.domain || final.hostname.endsWith(`.${ctx.domain}`);
+  return onDomain ? final.origin : `https://${ctx.domain}`;
+}
+
+export const sensitiveFilesCheck: CheckModule = {
+  id: "sensitive-files",
+  name: "Sensitive Files & Listings",
+  category: "web",
+  weight: 15,
+  severity: "critical",
+  deep: true,
+  async run(ctx) {
+    const origin = await probeOrigin(ctx);
+    const probe = (path: string) => ctx.fetch(`${origin}${path}`, { timeoutMs: PROBE_TIMEOUT_MS, maxBytes: PROBE_BYTES }).catch(() => null);
+    const [files, listings] = await Promise.all([
+      Promise.all(SENSITIVE_FILES.map(async file => ({ file, response: await probe(file.path) }))),
+      Promise.all(LISTING_PATHS.map(async path => ({ path, response: await probe(path) }))),
+    ]);
+    const answered = [...files, ...listings].filter(p => p.response).length;
+    if (answered === 0) throw new Error(`No probe of ${origin} got a response`);
+
+    const findings: DraftFinding[] = [];
+    for (const { file, response } of files) {
+      if (response?.status !== 200 || !file.matches(response)) continue;
+      findings.push(createFinding("web.sensitive-file", {
+        subject: file.path,
+        title: `${file.label} exposed at ${file.path}`,
+        severity: file.severity,
+        penalty: file.penalty,
+        evidence: { url: `${origin}${file.path}`, contentType: response.headers.get("content-type"), bytesRead: response.body.length },
+      }));
+    }
+    for (const { path, response } of listings) {
+      if (response?.status !== 200 || !DIRECTORY_LISTING.test(response.body)) continue;
+      findings.push(createFinding("web.directory-listing", {
+        subject: path,
+        title: `Directory listing enabled at ${path}`,
+        evidence: { url: `${origin}${path}` },
+      }));
+    }
+
+    if (findings.length === 0) findings.push(createFinding("web.sensitive-files.none", {
+      evidence: { origin, probed: [...SENSITIVE_FILES.map(f => f.path), ...LISTING_PATHS] },
+    }));
+    return findings;
+  },
+};
@@ -0,0 +1,108 @@
+// app/checks/spf.ts
+import { createFinding, type DraftFinding } from '../findings';
+import { sharedMxRecords } from './mail';
+import type { CheckModule, ScanContext } from './types';
+
+// RFC 7208 4.6.4: include, a, mx, ptr, exists and redirect each cost one DNS lookup, max 10
+export const SPF_LOOKUP_LIMIT = 10;
+const LOOKUP_TERMS = ["include", "a", "mx", "ptr", "exists"];
+
+export interface SpfEvaluation {
+  lookups: number;
+  includes: string[];
+  // Qualifier of the effective "all" mechanism ("-all", "~all", ...), following redirect= if needed
+  all: string | null;
+  problems: string[];
+}
+
+export const isSpfRecord = (record: string) => /^v=spf1(\s|$)/i.test(record.trim());
+
+async function expandSpf(ctx: ScanContext, record: string, result: SpfEvaluation, seen: Set<string>): Promise<string | null> {
+  let all: string | null = null;
+  let redirect: string | null = null;
+
+  for (const term of record.trim().split(/\s+/).slice(1)) {
+    const [, qualifier = "", name, value] = term.match(/^([+\-~?]?)([a-z0-9]+)(?:[:=/](.*))?$/i) ?? [];
+    const mechanism = name?.toLowerCase();
+    if (!mechanism) { result.problems.push(`Unrecognised term "${term}"`); continue; }
+
+    if (term.toLowerCase().startsWith("redirect=")) { redirect = value; continue; }
+    if (mechanism === "all") { all = `${qualifier || "+"}all`; continue; }
+    if (!LOOKUP_TERMS.includes(mechanism)) continue;
+
+    result.lookups++;
+    // Macro-expanded targets (%{i} etc.) depend on the sender, so we can only count them
+    if (mechanism !== "include" || !value || value.includes("%")) continue;
+
+    const target = value.toLowerCase();
+    result.includes.push(target);
+    if (seen.has(target)) { result.problems.push(`include:${target} loops back on itself`); continue; }
+    seen.add(target);
+    const records = (await ctx.resolveTxt(target)).filter(isSpfRecord);
+    if (records.length === 0) result.problems.push(`include:${target} has no SPF record (permerror)`);
+    else if (records.length > 1) result.problems.push(`include:${target} publishes ${records.length} SPF records (permerror)`);
+    else await expandSpf(ctx, records[0], result, seen);
+  }
+
+  // redirect= only applies when the record has no "all" mechanism of its own
+  if (all === null && redirect && !redirect.includes("%")) {
+    result.lookups++;
+    const target = redirect.toLowerCase();
+    if (seen.has(target)) { result.problems.push(`redirect=${target} loops back on itself`); return null; }
+    seen.add(target);
+    const records = (await ctx.resolveTxt(target)).filter(isSpfRecord);
+    if (records.length !== 1) { result.problems.push(`redirect=${target} does not resolve to a single SPF record (permerror)`); return null; }
+    return expandSpf(ctx, records[0], result, seen);
+  }
+  return all;
+}
+
+export async function evaluateSpf(ctx: ScanContext, record: string): Promise<SpfEvaluation> {
+  const result: SpfEvaluation = { lookups: 0, includes: [], all: null, problems: [] };
+  result.all = await expandSpf(ctx, record, result, new Set([ctx.domain]));
+  return result;
+}
+
+export const spfCheck: CheckModule = {
+  id: "spf",
+  name: "SPF",
+  category: "email",
+  weight: 15,
+  severity: "high",
+  async run(ctx) {
+    try {
+      const [records, mx] = await Promise.all([
+        ctx.resolveTxt(ctx.domain).then(txt => txt.filter(isSpfRecord)),
+        sharedMxRecords(ctx),
+      ]);
+
+      if (records.length === 0) {
+        // A domain that receives no mail should say so explicitly rather than publish nothing
+        if (mx.length === 0) return [createFinding("email.spf.null-recommended")];
+        return [createFinding("email.spf.missing", { evidence: { mx: mx.map(r => r.exchange) } })];
+      }
+      if (records.length > 1) return [createFinding("email.spf.multiple", { evidence: { records } })];
+
+      const record = records[0];
+      const spf = await evaluateSpf(ctx, record);
+      const findings: DraftFinding[] = [createFinding("email.spf.present", { evidence: { record, includes: spf.includes } })];
+
+      const allEvidence = { record, all: spf.all };
+      if (spf.all === "+all") findings.push(createFinding("email.spf.permissive", { evidence: allEvidence }));
+      else if (spf.all === "~all") findings.push(createFinding("email.spf.softfail", { evidence: allEvidence }));
+      else if (spf.all === "-all") findings.push(createFinding("email.spf.hardfail", { evidence: allEvidence }));
+      else findings.push(createFinding("email.spf.neutral", { title: spf.all ? "SPF ends in neutral '?all'" : "SPF has no 'all' mechanism", evidence: allEvidence }));
+
+      const lookupEvidence = { lookups: spf.lookups, limit: SPF_LOOKUP_LIMIT, includes: spf.includes };
+      if (spf.lookups > SPF_LOOKUP_LIMIT) findings.push(createFinding("email.spf.too-many-lookups", { title: `SPF needs ${spf.lookups} DNS lookups (limit ${SPF_LOOKUP_LIMIT})`, evidence: lookupEvidence }));
+      else findings.push(createFinding("email.spf.lookups-ok", { title: `SPF lookups within limit (${spf.lookups}/${SPF_LOOKUP_LIMIT})`, evidence: lookupEvidence }));
+
+      if (spf.problems.length > 0) findings.push(createFinding("email.spf.broken", { evidence: { problems: spf.problems } }));
+
+      return findings;
+    } catch (e) {
+      // The resolver failed (SERVFAIL, timeout); a missing record is an empty answer, not an error
+      return [createFinding("email.dns-failed", { evidence: { error: e instanceof Error ? e.message : String(e) } })];
+    }
+  },
+};
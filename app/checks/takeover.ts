@@ -0,0 +1,94 @@
+// app/checks/takeover.ts
+import dns from 'dns/promises';
+import { createFinding, type DraftFinding } from '../findings';
+import type { CheckModule, ScanContext } from './types';
+
+// Subdomains most often pointed at third-party hosting and then forgotten
+export const TAKEOVER_SUBDOMAINS = [
+  "www", "blog", "shop", "store", "help", "support", "docs", "dev", "staging", "test",
+  "beta", "demo", "app", "api", "cdn", "assets", "static", "media", "files", "status",
+  "portal", "careers", "jobs", "news", "events", "marketing", "go", "landing",
+];
+
+// Services where a CNAME left behind after deprovisioning can be claimed by anyone.
+// `nxdomain`: the service hostname stops resolving once released. `body`: the service
+// answers with a recognisable "nothing here" page instead.
+const TAKEOVER_FINGERPRINTS: { service: string, target: RegExp, nxdomain?: boolean, body?: RegExp }[] = [
+  { service: "AWS S3", target: /\.s3[.-]([a-z0-9-]+\.)?amazonaws\.com$/, body: /NoSuchBucket/ },
+  { service: "AWS Elastic Beanstalk", target: /\.elasticbeanstalk\.com$/, nxdomain: true },
+  { service: "Azure App Service", target: /\.azurewebsites\.net$/, nxdomain: true },
+  { service: "Azure Cloud Services", target: /\.cloudapp\.(net|azure\.com)$/, nxdomain: true },
+  { service: "Azure Traffic Manager", target: /\.trafficmanager\.net$/, nxdomain: true },
+  { service: "Azure Blob Storage", target: /\.blob\.core\.windows\.net$/, nxdomain: true },
+  { service: "Azure CDN", target: /\.azureedge\.net$/, nxdomain: true },
+  { service: "Heroku", target: /\.(herokuapp|herokudns)\.com$/, body: /no such app|herokucdn\.com\/error-pages\/no-such-app/i },
+  { service: "GitHub Pages", target: /\.github\.io$/, body: /There isn't a GitHub Pages site here/i },
+  { service: "Shopify", target: /\.myshopify\.com$/, body: /Sorry, this shop is currently unavailable/i },
+  { service: "Bitbucket", target: /\.bitbucket\.io$/, body: /Repository not found/i },
+  { service: "Surge.sh", target: /\.surge\.sh$/, body: /project not found/i },
+  { service: "Pantheon", target: /\.pantheonsite\.io$/, body: /The gods are wise, but do not know of the site which you seek/i },
+  { service: "Read the Docs", target: /\.readthedocs\.io$/, body: /unknown to Read the Docs/i },
+  { service: "Ghost", target: /\.ghost\.io$/, body: /Domain error|The thing you were looking for is no longer here/i },
+  { service: "Zendesk", target: /\.zendesk\.com$/, body: /Help Center Closed/i },
+  { service: "WordPress.com", target: /\.wordpress\.com$/, body: /Do you want to register/i },
+  { service: "Fly.io", target: /\.fly\.dev$/, nxdomain: true },
+];
+
+async function targetResolves(hostname: string) {
+  const [v4, v6] = await Promise.all([dns.resolve4(hostname).catch(() => []), dns.resolve6(hostname).catch(() => [])]);
+  return v4.length + v6.length > 0;
+}
+
+// Follows a few redirects by hand so each hop goes through the scan's address checks
+async function fetchBody(ctx: ScanContext, hostname: string) {
+  for (const scheme of ["https", "http"]) {
+    try {
+      let url = `${scheme}://${hostname}/`;
+      for (let hop = 0; hop < 5; hop++) {
+        const response = await ctx.fetch(url, { timeoutMs: 5000 });
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) return response.body;
+        url = new URL(location, url).href;
+      }
+    } catch {}
+  }
+  return null;
+}
+
+export const takeoverCheck: CheckModule = {
+  id: "takeover",
+  name: "Subdomain Takeover",
+  category: "dns",
+  weight: 10,
+  severity: "critical",
+  async run(ctx) {
+    const cnames = (await Promise.all(TAKEOVER_SUBDOMAINS.map(async sub => {
+      const hostname = `${sub}.${ctx.domain}`;
+      const [target] = await dns.resolveCname(hostname).catch(() => []);
+      return target ? { hostname, target: target.toLowerCase().replace(/\.$/, "") } : null;
+    }))).filter((c): c is { hostname: string, target: string } => c !== null);
+
+    const findings: DraftFinding[] = [];
+    await Promise.all(cnames.map(async ({ hostname, target }) => {
+      const fingerprint = TAKEOVER_FINGERPRINTS.find(f => f.target.test(target));
+      if (!fingerprint) return;
+
+      let dangling = false;
+      if (!(await targetResolves(target))) dangling = !!fingerprint.nxdomain;
+      else if (fingerprint.body) dangling = fingerprint.body.test((await fetchBody(ctx, hostname)) ?? "");
+
+      if (dangling) {
+        findings.push(createFinding("dns.dangling-cname", {
+          subject: hostname,
+          title: `Dangling CNAME: ${hostname} → ${target} (${fingerprint.service})`,
+          evidence: { hostname, cname: target, service: fingerprint.service },
+        }));
+      }
+    }));
+
+    if (findings.length === 0) {
+      findings.push(createFinding("dns.cnames-ok", { evidence: { cnamesChecked: cnames.map(c => `${c.hostname} → ${c.target}`) } }));
+    }
+    return findings;
+  },
+};
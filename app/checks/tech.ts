@@ -0,0 +1,30 @@
+// app/checks/tech.ts
+import { createFinding } from '../findings';
+import { detectTechnologies } from '../technologies';
+import type { CheckModule, ScanContext } from './types';
+
+// The fingerprinted stack, shared with checks that act on it (e.g. vulnerable versions)
+export function sharedTechnologies(ctx: ScanContext) {
+  return ctx.shared("technologies", async () => {
+    // Rejects if the site is unreachable, making this check and the components check inconclusive
+    const page = await ctx.fetchPage();
+    const cookieNames = page.setCookies.map(c => c.split("=")[0].trim());
+    return detectTechnologies({ html: page.html, headers: page.headers, cookieNames });
+  });
+}
+
+export const techCheck: CheckModule = {
+  id: "tech",
+  name: "Technology Fingerprint",
+  category: "tech",
+  weight: 0,
+  severity: "info",
+  async run(ctx) {
+    const stack = await sharedTechnologies(ctx);
+    return stack.map(tech => createFinding("tech.detected", {
+      subject: tech.name,
+      title: `${tech.name}${tech.version ? ` ${tech.version}` : ""}`,
+      evidence: { category: tech.category, version: tech.version, confidence: tech.confidence, signals: tech.signals },
+    }));
+  },
+};
@@ -0,0 +1,195 @@
+// app/checks/tls.ts
+import type { LookupFunction } from 'net';
+import tls from 'tls';
+import { X509Certificate } from 'crypto';
+import { createFinding, type DraftFinding } from '../findings';
+import type { CheckModule, ScanContext } from './types';
+
+export interface TLSDetails {
+  daysRemaining: number;
+  valid: boolean;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  // Chain validation against the system trust store (we connect with rejectUnauthorized: false)
+  authorized: boolean;
+  authorizationError: string | null;
+  selfSigned: boolean;
+  subjectAltNames: string[];
+  coversApex: boolean;
+  coversWww: boolean;
+  protocol: string | null;
+  cipher: { name: string; standardName: string; version: string };
+  ephemeralKey: string | null;
+  keyType: string;
+  keyBits: number | null;
+  signatureAlgorithm: string;
+  ocspStapled: boolean;
+}
+
+const SELF_SIGNED_ERRORS = ["DEPTH_ZERO_SELF_SIGNED_CERT", "SELF_SIGNED_CERT_IN_CHAIN"];
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  "1.2.840.113549.1.1.4": "md5WithRSAEncryption",
+  "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption",
+  "1.2.840.113549.1.1.12": "sha384WithRSAEncryption",
+  "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.10045.4.1": "ecdsa-with-SHA1",
+  "1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+  "1.2.840.10045.4.3.3": "ecdsa-with-SHA384",
+  "1.2.840.10045.4.3.4": "ecdsa-with-SHA512",
+  "1.3.101.112": "Ed25519",
+  "1.3.101.113": "Ed448",
+};
+
+// --- HELPER: DER READER ---
+// Just enough ASN.1 to pull the outer signatureAlgorithm OID out of a certificate.
+function readTLV(der: Buffer, offset: number) {
+  let length = der[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < bytes; i++) length = length * 256 + der[contentStart++];
+  }
+  return { contentStart, end: contentStart + length };
+}
+
+function readSignatureAlgorithm(der: Buffer): string {
+  try {
+    // Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm, signatureValue }
+    const certificate = readTLV(der, 0);
+    const tbsCertificate = readTLV(der, certificate.contentStart);
+    const algorithm = readTLV(der, tbsCertificate.end);
+    const oid = readTLV(der, algorithm.contentStart);
+    const bytes = der.subarray(oid.contentStart, oid.end);
+
+    const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+    let value = 0;
+    for (const byte of bytes.subarray(1)) {
+      value = value * 128 + (byte & 0x7f);
+      if (!(byte & 0x80)) { parts.push(value); value = 0; }
+    }
+    const dotted = parts.join(".");
+    return SIGNATURE_ALGORITHMS[dotted] ?? dotted;
+  } catch {
+    return "Unknown";
+  }
+}
+
+function describeKey(cert: tls.DetailedPeerCertificate): { keyType: string, keyBits: number | null } {
+  try {
+    const key = new X509Certificate(cert.raw).publicKey;
+    const keyType = (key.asymmetricKeyType ?? "unknown").toUpperCase();
+    const details = key.asymmetricKeyDetails;
+    if (details?.modulusLength) return { keyType, keyBits: details.modulusLength };
+    if (keyType === "ED25519") return { keyType, keyBits: 256 };
+    return { keyType, keyBits: cert.bits ?? null };
+  } catch {
+    return { keyType: "UNKNOWN", keyBits: cert.bits ?? null };
+  }
+}
+
+// --- HELPER: SSL CHECKER ---
+export async function getSSLDetails(domain: string, lookup: LookupFunction) {
+  return new Promise<TLSDetails | null>((resolve) => {
+    try {
+      let ocspStapled = false;
+      // tls.connect forwards requestOCSP to the TLSSocket, but @types/node only declares it on TLSSocketOptions
+      const options: tls.ConnectionOptions & Pick<tls.TLSSocketOptions, "requestOCSP"> = {
+        host: domain,
+        port: 443,
+        servername: domain,
+        lookup,
+        rejectUnauthorized: false, // Allow us to see expired/untrusted certs without crashing; trust is read from socket.authorized
+        requestOCSP: true,
+        timeout: 4000
+      };
+      const socket = tls.connect(options, () => {
+        const cert = socket.getPeerCertificate(true);
+        if (!cert || Object.keys(cert).length === 0) {
+          socket.end();
+          resolve(null);
+          return;
+        }
+        const validTo = new Date(cert.valid_to);
+        const daysRemaining = Math.floor((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+        const authorizationError = socket.authorizationError ? String(socket.authorizationError) : null;
+        const ephemeral = socket.getEphemeralKeyInfo();
+        const details: TLSDetails = {
+          daysRemaining,
+          valid: daysRemaining > 0,
+          issuer: cert.issuer.O || "Unknown",
+          validFrom: cert.valid_from,
+          validTo: cert.valid_to,
+          authorized: socket.authorized,
+          authorizationError,
+          selfSigned: !!authorizationError && SELF_SIGNED_ERRORS.includes(authorizationError),
+          subjectAltNames: (cert.subjectaltname ?? "").split(",").map(s => s.trim().replace(/^DNS:/, "")).filter(Boolean),
+          coversApex: !tls.checkServerIdentity(domain, cert),
+          coversWww: !tls.checkServerIdentity(`www.${domain}`, cert),
+          protocol: socket.getProtocol(),
+          cipher: socket.getCipher(),
+          ephemeralKey: ephemeral && "type" in ephemeral && ephemeral.type ? [ephemeral.type, ephemeral.name, ephemeral.size].filter(Boolean).join(" ") : null,
+          ...describeKey(cert),
+          signatureAlgorithm: readSignatureAlgorithm(cert.raw),
+          ocspStapled,
+        };
+        socket.end();
+        resolve(details);
+      });
+      // Fires during the handshake, before the secureConnect callback above
+      socket.on('OCSPResponse', (response: Buffer) => { ocspStapled = !!response && response.length > 0; });
+      socket.on('error', () => resolve(null));
+      socket.on('timeout', () => { socket.destroy(); resolve(null); });
+    } catch { resolve(null); }
+  });
+}
+
+// One handshake per scan, shared by the certificate and configuration checks
+export function sharedTLSDetails(ctx: ScanContext) {
+  return ctx.shared("tls", () => getSSLDetails(ctx.domain, ctx.lookup));
+}
+
+export const tlsCheck: CheckModule = {
+  id: "tls",
+  name: "TLS Certificate",
+  category: "tls",
+  weight: 20,
+  severity: "critical",
+  async run(ctx) {
+    const ssl = await sharedTLSDetails(ctx);
+    if (!ssl) return [createFinding("tls.missing")];
+
+    const findings: DraftFinding[] = [];
+    const evidence = { issuer: ssl.issuer, validFrom: ssl.validFrom, validTo: ssl.validTo, daysRemaining: ssl.daysRemaining };
+    if (!ssl.valid) findings.push(createFinding("tls.expired", { evidence }));
+    else if (ssl.daysRemaining < 14) findings.push(createFinding("tls.expiring", { title: `SSL Expires soon (${ssl.daysRemaining} days)`, evidence }));
+    else findings.push(createFinding("tls.valid", { title: `SSL Valid (${ssl.daysRemaining} days left)`, evidence }));
+
+    // An expired cert also fails chain validation; don't report the same problem twice
+    const chainError = ssl.authorizationError === "CERT_HAS_EXPIRED" ? null : ssl.authorizationError;
+    const chainEvidence = { issuer: ssl.issuer, authorizationError: ssl.authorizationError };
+    if (ssl.selfSigned) findings.push(createFinding("tls.chain.self-signed", { evidence: chainEvidence }));
+    else if (chainError) findings.push(createFinding("tls.chain.untrusted", { title: `Certificate chain is not trusted (${chainError})`, evidence: chainEvidence }));
+    else findings.push(createFinding("tls.chain.trusted", { evidence: chainEvidence }));
+
+    const sanEvidence = { subjectAltNames: ssl.subjectAltNames };
+    if (!ssl.coversApex) findings.push(createFinding("tls.hostname.mismatch", { title: `Certificate does not cover ${ctx.domain}`, evidence: sanEvidence }));
+    else if (!ssl.coversWww) findings.push(createFinding("tls.hostname.www-uncovered", { title: `Certificate does not cover www.${ctx.domain}`, evidence: sanEvidence }));
+    else findings.push(createFinding("tls.hostname.covered", { evidence: sanEvidence }));
+
+    const keyEvidence = { keyType: ssl.keyType, keyBits: ssl.keyBits };
+    const minBits = ssl.keyType === "RSA" || ssl.keyType === "RSA-PSS" ? 2048 : ssl.keyType === "EC" ? 256 : 0;
+    if (ssl.keyBits !== null && ssl.keyBits < minBits) findings.push(createFinding("tls.key.weak", { title: `Weak certificate key (${ssl.keyType} ${ssl.keyBits}-bit)`, evidence: keyEvidence }));
+    else findings.push(createFinding("tls.key.strong", { title: `Certificate key: ${ssl.keyType}${ssl.keyBits ? ` ${ssl.keyBits}-bit` : ""}`, evidence: keyEvidence }));
+
+    const sigEvidence = { signatureAlgorithm: ssl.signatureAlgorithm };
+    if (/sha1|md5/i.test(ssl.signatureAlgorithm)) findings.push(createFinding("tls.signature.weak", { title: `Weak certificate signature (${ssl.signatureAlgorithm})`, evidence: sigEvidence }));
+    else findings.push(createFinding("tls.signature.strong", { evidence: sigEvidence }));
+
+    return findings;
+  },
+};
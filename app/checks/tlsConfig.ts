@@ -0,0 +1,97 @@
+// app/checks/tlsConfig.ts
+import type { LookupFunction } from 'net';
+import tls from 'tls';
+import { createFinding, type DraftFinding } from '../findings';
+import { sharedTLSDetails } from './tls';
+import type { CheckModule, ScanContext } from './types';
+
+const PROTOCOL_VERSIONS: tls.SecureVersion[] = ["TLSv1", "TLSv1.1", "TLSv1.2", "TLSv1.3"];
+const LEGACY_PROTOCOLS = ["TLSv1", "TLSv1.1"];
+const WEAK_CIPHER = /RC4|3DES|DES-CBC|_DES_|NULL|EXPORT|EXP-|MD5|anon/i;
+
+// --- HELPER: PROTOCOL PROBE ---
+// Pins the handshake to a single version. SECLEVEL=0 lets our OpenSSL still offer TLS 1.0/1.1.
+async function probeProtocol(domain: string, lookup: LookupFunction, version: tls.SecureVersion): Promise<boolean> {
+  return new Promise((resolve) => {
+    try {
+      const socket = tls.connect({
+        host: domain,
+        port: 443,
+        servername: domain,
+        lookup,
+        rejectUnauthorized: false,
+        minVersion: version,
+        maxVersion: version,
+        ciphers: "DEFAULT:@SECLEVEL=0",
+        timeout: 4000
+      }, () => { socket.end(); resolve(socket.getProtocol() === version); });
+      socket.on('error', () => resolve(false));
+      socket.on('timeout', () => { socket.destroy(); resolve(false); });
+    } catch { resolve(false); }
+  });
+}
+
+// --- HELPER: HTTP -> HTTPS REDIRECT ---
+// Follows plain-HTTP hops (e.g. http://domain -> http://www.domain) until one lands on HTTPS.
+// Null when port 80 refuses the connection; `error` when we couldn't tell (a timeout, a refused host).
+async function checkHttpRedirect(ctx: ScanContext): Promise<{ status: number, location: string | null, hops: string[], error?: string } | null> {
+  let url = `http://${ctx.domain}/`;
+  const hops: string[] = [];
+  try {
+    for (let i = 0; i < 5; i++) {
+      const response = await ctx.fetch(url, { timeoutMs: 5000 });
+      const location = response.headers.get('location');
+      hops.push(`${response.status} ${url}`);
+      if (response.status < 300 || response.status >= 400 || !location) return { status: response.status, location, hops };
+      const next = new URL(location, url);
+      if (next.protocol !== "http:") return { status: response.status, location: next.href, hops };
+      url = next.href;
+    }
+    return { status: 0, location: url, hops };
+  } catch (e) {
+    // Port 80 closed: nothing is served over plain HTTP (or a redirect leads nowhere)
+    if ((e as NodeJS.ErrnoException).code === "ECONNREFUSED") return hops.length ? { status: 0, location: url, hops } : null;
+    return { status: 0, location: null, hops, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+export const tlsConfigCheck: CheckModule = {
+  id: "tls-config",
+  name: "TLS Configuration",
+  category: "tls",
+  weight: 10,
+  severity: "high",
+  async run(ctx) {
+    const ssl = await sharedTLSDetails(ctx);
+    // No handshake at all is reported by the certificate check; there is no configuration to judge,
+    // so this check is inconclusive rather than passing
+    if (!ssl) throw new Error(`No TLS handshake with ${ctx.domain}:443`);
+
+    const findings: DraftFinding[] = [];
+    const [supported, http] = await Promise.all([
+      Promise.all(PROTOCOL_VERSIONS.map(async v => ((await probeProtocol(ctx.domain, ctx.lookup, v)) ? v : null))).then(r => r.filter((v): v is tls.SecureVersion => v !== null)),
+      checkHttpRedirect(ctx),
+    ]);
+
+    const legacy = supported.filter(v => LEGACY_PROTOCOLS.includes(v));
+    const protocolEvidence = { supported, negotiated: ssl.protocol };
+    if (legacy.length > 0) findings.push(createFinding("tls.protocol.legacy", { title: `Legacy TLS versions enabled (${legacy.join(", ")})`, evidence: protocolEvidence }));
+    else findings.push(createFinding("tls.protocol.modern", { evidence: protocolEvidence }));
+
+    const cipherEvidence = { cipher: ssl.cipher.standardName || ssl.cipher.name, protocol: ssl.cipher.version, keyExchange: ssl.ephemeralKey };
+    // TLS 1.3 suites always use ephemeral key exchange
+    const forwardSecret = ssl.protocol === "TLSv1.3" || /^(ECDHE|DHE)/.test(ssl.cipher.name) || !!ssl.ephemeralKey;
+    if (WEAK_CIPHER.test(ssl.cipher.name) || WEAK_CIPHER.test(ssl.cipher.standardName ?? "")) findings.push(createFinding("tls.cipher.weak", { title: `Weak cipher negotiated (${ssl.cipher.name})`, evidence: cipherEvidence }));
+    else if (!forwardSecret) findings.push(createFinding("tls.cipher.no-forward-secrecy", { evidence: cipherEvidence }));
+    else findings.push(createFinding("tls.cipher.strong", { title: `Strong cipher negotiated (${ssl.cipher.name})`, evidence: cipherEvidence }));
+
+    findings.push(createFinding(ssl.ocspStapled ? "tls.ocsp.stapled" : "tls.ocsp.not-stapled"));
+
+    if (http?.error) findings.push(createFinding("tls.http.unknown", { evidence: { redirectChain: http.hops, error: http.error } }));
+    else if (!http) findings.push(createFinding("tls.http.redirect", { title: "Plain HTTP not served", evidence: { port80: "closed" } }));
+    else if (http.location?.startsWith("https://")) findings.push(createFinding("tls.http.redirect", { evidence: { redirectChain: http.hops, location: http.location } }));
+    else findings.push(createFinding("tls.http.no-redirect", { evidence: { redirectChain: http.hops, location: http.location } }));
+
+    return findings;
+  },
+};
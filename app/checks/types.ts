@@ -0,0 +1,51 @@
+// app/checks/types.ts
+import type { LookupFunction } from 'net';
+import type { DraftFinding, FindingCategory, Severity } from '../findings';
+import type { PortDefinition } from '../portProfiles';
+import type { GuardedResponse } from '../targets';
+
+// The homepage response, fetched once per scan and shared by every check that needs it
+export interface PageSnapshot {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  headers: Headers;
+  html: string;
+  redirects: { status: number, url: string, location: string }[];
+  // Set-Cookie values from every hop, not just the final response
+  setCookies: string[];
+}
+
+export interface ScanContext {
+  domain: string;
+  // Every A/AAAA address the domain resolved to at the start of the scan, all vetted as public
+  addresses: string[];
+  // What the exposure check probes on each address: the chosen port profile or custom list
+  ports: PortDefinition[];
+  portProfile: string;
+  // Pass as `lookup` to every socket: it answers the scanned domain with the address pinned at the
+  // start of the scan, and refuses any other name that resolves into private or reserved space
+  lookup: LookupFunction;
+  // HTTP GET through `lookup`; redirects are returned, not followed
+  fetch(url: string, options?: { headers?: Record<string, string>, timeoutMs?: number, maxBytes?: number }): Promise<GuardedResponse>;
+  fetchPage(): Promise<PageSnapshot>;
+  // No records (NXDOMAIN/NODATA) is an empty list; a resolver failure rejects
+  resolveTxt(hostname: string): Promise<string[]>;
+  // Runs `load` once per scan under `key`, so several checks can share one probe (e.g. the TLS handshake)
+  shared<T>(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+export interface CheckModule {
+  id: string;
+  name: string;
+  category: FindingCategory;
+  // Default share of the score this check controls; profiles can override it
+  weight: number;
+  // Worst severity the check can raise; profiles can override it
+  severity: Severity;
+  // Overrides the scan's per-check time limit, for checks that are slow by design
+  timeoutMs?: number;
+  // Only runs in deep scans, which are refused unless the domain's owner has verified control
+  deep?: boolean;
+  run(ctx: ScanContext): Promise<DraftFinding[]>;
+}
@@ -0,0 +1,7 @@
+import { requirePageUser } from '../auth';
+
+// Consultants and admins only; client users are sent back to the dashboard
+export default async function ConsultantLayout({ children }: { children: React.ReactNode }) {
+  await requirePageUser("consultant");
+  return children;
+}
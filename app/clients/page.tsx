@@ -0,0 +1,131 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getOrganisations, getSession, removeOrganisation, saveOrganisationSettings } from '../actions';
+import { INDUSTRY_LABELS } from '../riskCalculator';
+import { hasRole, type Organisation, type SessionUser } from '../workspace';
+
+const splitList = (text: string) => text.split(/[\s,]+/).map(s => s.trim()).filter(Boolean);
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-2";
+
+export default function Clients() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  // Set while editing an existing organisation
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [industry, setIndustry] = useState('marketing');
+  const [employees, setEmployees] = useState(5);
+  const [domains, setDomains] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    getSession().then(session => setUser(session?.user ?? null));
+    getOrganisations().then(setOrganisations);
+  }, []);
+
+  const refresh = async () => setOrganisations(await getOrganisations());
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setDomains('');
+    setErrors([]);
+  };
+
+  const handleEdit = (organisation: Organisation) => {
+    setEditing(organisation.id);
+    setName(organisation.name);
+    setIndustry(organisation.industry);
+    setEmployees(organisation.employees);
+    setDomains(organisation.domains.join("\n"));
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    const result = await saveOrganisationSettings({ id: editing ?? undefined, name, industry, employees, domains: splitList(domains) });
+    setErrors(result.errors);
+    if (result.organisation) {
+      resetForm();
+      await refresh();
+    }
+  };
+
+  const handleRemove = async (organisation: Organisation) => {
+    if (!confirm(`Remove ${organisation.name}? Its stored scans are kept, but its client users lose access.`)) return;
+    await removeOrganisation(organisation.id);
+    if (editing === organisation.id) resetForm();
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-6xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Client <span className="text-emerald-400">Organisations</span></h1>
+
+        <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 space-y-4">
+          <p className="text-xs text-slate-400">Scans of a client&apos;s domains are always priced with its industry and headcount, from the dashboard, portfolio scans, monitoring and the API alike.</p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-bold text-emerald-400 uppercase mb-2 tracking-wider">Name</label>
+              <input type="text" placeholder="Acme Ltd" className={inputClass} value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Industry</label>
+              <select className={inputClass} value={industry} onChange={(e) => setIndustry(e.target.value)}>
+                {Object.entries(INDUSTRY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Employees</label>
+              <input type="number" min={1} className={inputClass} value={employees} onChange={(e) => setEmployees(Number(e.target.value))} />
+            </div>
+            <div className="md:col-span-4">
+              <label className={labelClass}>Domains</label>
+              <textarea rows={3} placeholder={"acme.com\nacme.co.uk"} className={`${inputClass} font-mono text-sm`} value={domains} onChange={(e) => setDomains(e.target.value)} />
+            </div>
+          </div>
+          {errors.length > 0 && <ul className="text-xs text-red-400 space-y-1">{errors.map((e, i) => <li key={i}>⚠ {e}</li>)}</ul>}
+          <div className="flex gap-3">
+            <button onClick={handleSave} className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 px-8 rounded-lg shadow-lg transition-all">
+              {editing ? "SAVE CHANGES" : "ADD CLIENT"}
+            </button>
+            {editing && <button onClick={resetForm} className="text-sm text-slate-400 hover:text-white px-4">Cancel</button>}
+          </div>
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          {organisations.length === 0 ? <p className="text-slate-500 text-sm italic">No clients yet.</p> : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                  <th className="pb-3">Client</th><th className="pb-3">Profile</th><th className="pb-3">Domains</th><th className="pb-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {organisations.map((o) => (
+                  <tr key={o.id} className="border-t border-slate-700 align-top">
+                    <td className="py-3 pr-4 text-slate-200 font-medium">{o.name}</td>
+                    <td className="py-3 pr-4 text-slate-400">{INDUSTRY_LABELS[o.industry]} · {o.employees} employees</td>
+                    <td className="py-3 pr-4">
+                      {o.domains.length === 0 ? <span className="text-slate-600">—</span> : o.domains.map((d) => (
+                        <Link key={d} href={`/history/${d}`} className="block text-emerald-400 hover:underline">{d}</Link>
+                      ))}
+                    </td>
+                    <td className="py-3 text-right whitespace-nowrap">
+                      <button onClick={() => handleEdit(o)} className="text-xs text-slate-300 hover:text-white px-2">Edit</button>
+                      {user && hasRole(user, "admin") && <button onClick={() => handleRemove(o)} className="text-xs text-red-400 hover:text-red-300 px-2">Remove</button>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+// app/compliance.ts
+import DATA from './data/frameworks.json';
+import { isInconclusive, type Finding, type ScanResult, type Severity } from './findings';
+
+// --- MAPPING FORMAT (data/frameworks.json) ---
+// Each framework lists its controls. A control is evidenced by the findings of the checks named in
+// `checks` (check IDs), plus any finding whose ID is, or sits under, one of the `findings` prefixes
+// (e.g. "web.hsts" covers web.hsts.missing). A control with neither can't be judged from outside;
+// its `note` says why. Add a framework by appending to the list; no code change is needed.
+
+export interface ControlDefinition {
+  id: string;
+  title: string;
+  checks: string[];
+  findings?: string[];
+  note?: string;
+}
+
+export interface FrameworkDefinition {
+  id: string;
+  name: string;
+  edition: string;
+  description: string;
+  controls: ControlDefinition[];
+}
+
+export type ControlStatus = "evidenced" | "failing" | "not-assessable";
+
+export const CONTROL_STATUS_LABELS: Record<ControlStatus, string> = {
+  "evidenced": "Externally evidenced",
+  "failing": "Failing",
+  "not-assessable": "Not assessable externally",
+};
+
+export interface ControlReadiness {
+  id: string;
+  title: string;
+  status: ControlStatus;
+  // Failing findings mapped to the control
+  issues: { findingId: string, subject: string | null, title: string, severity: Severity }[];
+  // Titles of the passing findings that evidence it
+  evidence: string[];
+  // Names of mapped checks that errored or timed out
+  unassessed: string[];
+  note: string | null;
+}
+
+export interface FrameworkReadiness {
+  id: string;
+  name: string;
+  edition: string;
+  description: string;
+  counts: Record<ControlStatus, number>;
+  // Percentage of the controls a scan can assess that are evidenced; null when none could be
+  readiness: number | null;
+  controls: ControlReadiness[];
+}
+
+// Every framework, as assessed with one version of the mapping. Stored scans keep the assessment they
+// were saved with, so editing the mapping doesn't change their reports.
+export interface ComplianceAssessment {
+  mappingVersion: number;
+  frameworks: FrameworkReadiness[];
+}
+
+export const FRAMEWORKS: FrameworkDefinition[] = DATA.frameworks;
+export const DEFAULT_FRAMEWORK = FRAMEWORKS[0].id;
+
+const matchesPrefix = (id: string, prefix: string) => id === prefix || id.startsWith(`${prefix}.`);
+
+function controlFindings(control: ControlDefinition, findings: Finding[]) {
+  return findings.filter(f => control.checks.includes(f.checkId) || (control.findings ?? []).some(p => matchesPrefix(f.id, p)));
+}
+
+// Control IDs a finding counts towards in one framework, for tagging it in the results
+export function controlsForFinding(finding: Finding, frameworkId: string): string[] {
+  const framework = FRAMEWORKS.find(f => f.id === frameworkId);
+  return framework ? framework.controls.filter(c => controlFindings(c, [finding]).length > 0).map(c => c.id) : [];
+}
+
+// Informational failures (e.g. no BIMI record) don't fail a control;
+// they just don't evidence it either
+export function assessFramework(scan: Pick<ScanResult, "findings" | "checks">, framework: FrameworkDefinition): FrameworkReadiness {
+  const inconclusive = scan.checks.filter(isInconclusive);
+
+  const controls = framework.controls.map((control): ControlReadiness => {
+    const findings = controlFindings(control, scan.findings);
+    const issues = findings.filter(f => !f.passed && f.severity !== "info");
+    const evidence = findings.filter(f => f.passed);
+    const mapped = control.checks.length > 0 || (control.findings ?? []).length > 0;
+    const status: ControlStatus = issues.length > 0 ? "failing" : evidence.length > 0 ? "evidenced" : "not-assessable";
+    const unassessed = inconclusive.filter(run => control.checks.includes(run.checkId)).map(run => run.name);
+    return {
+      id: control.id,
+      title: control.title,
+      status,
+      issues: issues.map(f => ({ findingId: f.id, subject: f.subject ?? null, title: f.title, severity: f.severity })),
+      evidence: [...new Set(evidence.map(f => f.title))],
+      unassessed,
+      // Mapped checks that left no findings either didn't complete, or didn't run: deep checks only run for
+      // verified domains, and a scoring profile can turn checks off
+      note: control.note ?? (!mapped || status !== "not-assessable" ? null
+        : unassessed.length > 0 ? "The checks behind this control didn't complete in this scan."
+        : "The checks behind this control didn't run in this scan. Some need a deep scan of a verified domain."),
+    };
+  });
+
+  const counts = { "evidenced": 0, "failing": 0, "not-assessable": 0 };
+  controls.forEach(c => counts[c.status]++);
+  const assessable = counts.evidenced + counts.failing;
+  return {
+    id: framework.id,
+    name: framework.name,
+    edition: framework.edition,
+    description: framework.description,
+    counts,
+    readiness: assessable > 0 ? Math.round(counts.evidenced / assessable * 100) : null,
+    controls,
+  };
+}
+
+export const assessCompliance = (scan: Pick<ScanResult, "findings" | "checks">): ComplianceAssessment => ({
+  mappingVersion: DATA.version,
+  frameworks: FRAMEWORKS.map(framework => assessFramework(scan, framework)),
+});
@@ -0,0 +1,43 @@
+// app/csv.ts
+// RFC 4180 CSV: comma-separated, fields optionally double-quoted, "" escapes a quote inside quotes.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") quoted = true;
+    else if (c === ",") { row.push(field); field = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += c;
+  }
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+const escapeField = (value: CsvValue) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Spreadsheets execute text cells starting with these as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
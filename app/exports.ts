@@ -0,0 +1,257 @@
+// app/exports.ts
+import { toCsv } from './csv';
+import { isInconclusive, type CheckContribution, type CheckRun, type EvidenceValue, type Finding, type Severity } from './findings';
+import { REMEDIATION_GUIDES } from './remediation';
+import type { ExposureEstimate } from './riskCalculator';
+import type { StoredScan } from './scanStore';
+
+// --- API REPRESENTATION (v1) ---
+// What /api/v1 returns for a scan. SCAN_JSON_SCHEMA below documents it; change both together,
+// and only additively within v1.
+export interface ApiFinding {
+  id: string;
+  checkId: string;
+  category: string;
+  severity: Severity;
+  passed: boolean;
+  title: string;
+  subject: string | null;
+  scoreImpact: number;
+  remediation: string | null;
+  evidence: Record<string, EvidenceValue>;
+}
+
+export interface ApiScan {
+  id: string;
+  domain: string;
+  scannedAt: string;
+  profile: string;
+  scoringVersion: number;
+  deep: boolean;
+  score: number;
+  // `amount` is the likely figure, kept for clients written before the low/high range
+  exposure: ExposureEstimate & { amount: number };
+  findings: ApiFinding[];
+  breakdown: CheckContribution[];
+  checks: CheckRun[];
+}
+
+export function toApiScan({ id, scan, exposure }: StoredScan): ApiScan {
+  return {
+    id,
+    domain: scan.domain,
+    scannedAt: scan.scannedAt,
+    profile: scan.profile,
+    scoringVersion: scan.scoringVersion,
+    deep: scan.deep ?? false,
+    score: scan.score,
+    exposure: { amount: exposure.likely, ...exposure },
+    findings: scan.findings.map(f => ({
+      id: f.id,
+      checkId: f.checkId,
+      category: f.category,
+      severity: f.severity,
+      passed: f.passed,
+      title: f.title,
+      subject: f.subject ?? null,
+      scoreImpact: f.scoreImpact,
+      remediation: f.remediation,
+      evidence: f.evidence,
+    })),
+    breakdown: scan.breakdown,
+    checks: scan.checks,
+  };
+}
+
+const SEVERITIES: Severity[] = ["critical", "high", "medium", "low", "info"];
+
+export const SCAN_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "/api/v1/schema",
+  title: "Scan",
+  type: "object",
+  required: ["id", "domain", "scannedAt", "profile", "scoringVersion", "deep", "score", "exposure", "findings", "breakdown", "checks"],
+  properties: {
+    id: { type: "string", description: "Stable scan ID; GET /api/v1/scans/{id}" },
+    domain: { type: "string" },
+    scannedAt: { type: "string", format: "date-time" },
+    profile: { type: "string", description: "Scoring profile the score was computed under" },
+    scoringVersion: { type: "integer", description: "Scores from different versions are not directly comparable" },
+    deep: { type: "boolean", description: "Whether the deep checks ran; only verified domains can be deep scanned" },
+    score: { type: "integer", minimum: 0, maximum: 100 },
+    exposure: {
+      type: "object",
+      required: ["amount", "currency", "low", "likely", "high", "modelVersion", "industry", "employees", "sizeBand", "riskMultiplier", "breachCost", "categories", "drivers", "unassessed"],
+      properties: {
+        amount: { type: "number", description: "Same as likely" },
+        currency: { type: "string", description: "ISO 4217 code, e.g. GBP" },
+        low: { type: "number" },
+        likely: { type: "number", description: "Estimated annual financial exposure from a breach" },
+        high: { type: "number" },
+        modelVersion: { type: "integer", description: "Version of the risk model configuration the estimate was priced with" },
+        industry: { type: "string" },
+        employees: { type: "integer" },
+        sizeBand: { type: "string" },
+        riskMultiplier: { type: "number", description: "How heavily the industry is targeted; scales every likelihood" },
+        breachCost: { type: "number", description: "Cost of a serious breach for an organisation of this industry and size" },
+        categories: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["category", "likelihood", "impact", "amount", "rationale"],
+            properties: {
+              category: { enum: ["ports", "tls", "email", "dns", "web", "tech"] },
+              likelihood: { type: "number", minimum: 0, maximum: 1, description: "Chance at least one of the category's findings is exploited" },
+              impact: { type: "number", description: "Share of the breach cost an incident in this category causes" },
+              amount: { type: "number" },
+              rationale: { type: "string" },
+            },
+          },
+        },
+        drivers: {
+          type: "array",
+          description: "Failed findings, largest share of the likely figure first",
+          items: {
+            type: "object",
+            required: ["findingId", "subject", "title", "category", "severity", "likelihood", "amount", "share"],
+            properties: {
+              findingId: { type: "string" },
+              subject: { type: ["string", "null"] },
+              title: { type: "string" },
+              category: { enum: ["ports", "tls", "email", "dns", "web", "tech"] },
+              severity: { enum: SEVERITIES },
+              likelihood: { type: "number", minimum: 0, maximum: 1 },
+              amount: { type: "number" },
+              share: { type: "number", description: "Percentage of the likely figure" },
+            },
+          },
+        },
+        unassessed: { type: "array", items: { type: "string" }, description: "Checks that were inconclusive, so not priced" },
+      },
+    },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "checkId", "category", "severity", "passed", "title", "subject", "scoreImpact", "remediation", "evidence"],
+        properties: {
+          id: { type: "string", description: "Stable finding type, e.g. 'web.hsts.missing'" },
+          checkId: { type: "string" },
+          category: { enum: ["ports", "tls", "email", "dns", "web", "tech"] },
+          severity: { enum: SEVERITIES },
+          passed: { type: "boolean" },
+          title: { type: "string" },
+          subject: { type: ["string", "null"], description: "Distinguishes repeated findings of one type, e.g. a port number" },
+          scoreImpact: { type: "number", description: "Points this finding removed from the score" },
+          remediation: { type: ["string", "null"], description: "Remediation guide key" },
+          evidence: {
+            type: "object",
+            additionalProperties: { type: ["string", "number", "boolean", "null", "array"], items: { type: "string" } },
+          },
+        },
+      },
+    },
+    breakdown: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["checkId", "name", "category", "severity", "pointsAvailable", "pointsLost"],
+        properties: {
+          checkId: { type: "string" },
+          name: { type: "string" },
+          category: { type: "string" },
+          severity: { enum: SEVERITIES },
+          pointsAvailable: { type: "number" },
+          pointsLost: { type: "number" },
+          inconclusive: { type: "boolean", description: "The check errored or timed out and was left out of the score" },
+        },
+      },
+    },
+    checks: {
+      type: "array",
+      description: "How each check ran; empty for scans recorded before this was tracked",
+      items: {
+        type: "object",
+        required: ["checkId", "name", "category", "status", "durationMs", "error"],
+        properties: {
+          checkId: { type: "string" },
+          name: { type: "string" },
+          category: { type: "string" },
+          status: { enum: ["passed", "failed", "errored", "timed-out"] },
+          durationMs: { type: ["integer", "null"] },
+          error: { type: ["string", "null"] },
+        },
+      },
+    },
+  },
+} as const;
+
+// --- CSV ---
+// One row per finding, passes included, so a spreadsheet filter on "status" gives the issue list
+export function scanToCsv({ id, scan }: StoredScan): string {
+  return toCsv([
+    ["scan_id", "domain", "scanned_at", "score", "finding_id", "check_id", "category", "severity", "status", "title", "subject", "score_impact", "remediation", "evidence"],
+    ...scan.findings.map(f => [
+      id, scan.domain, scan.scannedAt, scan.score, f.id, f.checkId, f.category, f.severity, f.passed ? "pass" : "fail",
+      f.title, f.subject ?? "", f.scoreImpact, f.remediation ?? "", JSON.stringify(f.evidence),
+    ]),
+  ]);
+}
+
+// --- SARIF 2.1.0 ---
+// Only failed findings become results. The finding type is the rule; the domain is the artifact.
+const SARIF_LEVELS: Record<Severity, "error" | "warning" | "note"> = { critical: "error", high: "error", medium: "warning", low: "note", info: "note" };
+
+export function scanToSarif({ id, scan }: StoredScan) {
+  const issues = scan.findings.filter(f => !f.passed);
+  const rules = [...new Map(issues.map(f => [f.id, f])).values()];
+  const ruleIndex = new Map(rules.map((f, i) => [f.id, i]));
+  const help = (f: Finding) => f.remediation ? REMEDIATION_GUIDES[f.remediation] : null;
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "Collective Vision",
+          rules: rules.map(f => ({
+            id: f.id,
+            shortDescription: { text: f.title },
+            ...(help(f) && {
+              fullDescription: { text: help(f)!.summary },
+              help: { text: [help(f)!.title, ...help(f)!.steps.map((step, i) => `${i + 1}. ${step}`)].join("\n") },
+            }),
+            defaultConfiguration: { level: SARIF_LEVELS[f.severity] },
+            properties: { category: f.category, checkId: f.checkId },
+          })),
+        },
+      },
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: scan.scannedAt,
+        // Checks that errored or timed out produced no results, which is not the same as passing
+        toolExecutionNotifications: scan.checks.filter(isInconclusive).map(run => ({
+          level: "warning",
+          message: { text: `${run.name} was inconclusive (${run.status}): ${run.error ?? "no detail"}` },
+          descriptor: { id: run.checkId },
+        })),
+      }],
+      automationDetails: { id: `collective-vision/${scan.domain}/${id}` },
+      properties: { scanId: id, domain: scan.domain, profile: scan.profile, scoringVersion: scan.scoringVersion, score: scan.score },
+      results: issues.map(f => ({
+        ruleId: f.id,
+        ruleIndex: ruleIndex.get(f.id),
+        level: SARIF_LEVELS[f.severity],
+        message: { text: f.subject && !f.title.includes(f.subject) ? `${f.title} (${f.subject})` : f.title },
+        locations: [{
+          physicalLocation: { artifactLocation: { uri: `https://${scan.domain}/` } },
+          logicalLocations: [{ name: scan.domain, kind: "domain" }],
+        }],
+        // Lets ingesting tools track the same issue across scans
+        partialFingerprints: { findingKey: `${scan.domain}:${f.id}:${f.subject ?? ""}` },
+        properties: { severity: f.severity, scoreImpact: f.scoreImpact, evidence: f.evidence },
+      })),
+    }],
+  };
+}
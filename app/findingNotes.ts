@@ -0,0 +1,45 @@
+// app/findingNotes.ts
+import { dataFile, jsonStore } from './jsonStore';
+import { NOTE_STATUS_LABELS, noteKey, type FindingNote, type NoteStatus } from './workspace';
+
+const MAX_NOTE_LENGTH = 2000;
+
+// --- FILE STORE ---
+// Keyed by domain, then by noteKey, so a note follows its issue from one scan to the next
+const store = jsonStore<Record<string, Record<string, FindingNote>>>(() => dataFile("notes.json"), () => ({}));
+
+export async function listNotes(domain: string): Promise<Record<string, FindingNote>> {
+  return (await store.read())[domain] ?? {};
+}
+
+// Notes for many domains at once, for history and portfolio views
+export async function noteCounts(): Promise<Record<string, Partial<Record<NoteStatus, number>>>> {
+  const all = await store.read();
+  return Object.fromEntries(Object.entries(all).map(([domain, notes]) => {
+    const counts: Partial<Record<NoteStatus, number>> = {};
+    Object.values(notes).forEach(n => { counts[n.status] = (counts[n.status] ?? 0) + 1; });
+    return [domain, counts];
+  }));
+}
+
+export async function saveNote(note: Omit<FindingNote, "updatedAt">): Promise<{ note: FindingNote | null, errors: string[] }> {
+  const text = note.text.trim();
+  const errors: string[] = [];
+  if (!NOTE_STATUS_LABELS[note.status]) errors.push(`Unknown status '${note.status}'.`);
+  if (text.length > MAX_NOTE_LENGTH) errors.push(`Notes are limited to ${MAX_NOTE_LENGTH} characters.`);
+  if (errors.length > 0) return { note: null, errors };
+
+  const saved: FindingNote = { ...note, text, updatedAt: new Date().toISOString() };
+  await store.update(all => {
+    all[note.domain] = { ...all[note.domain], [noteKey({ id: note.findingId, subject: note.subject })]: saved };
+  });
+  return { note: saved, errors: [] };
+}
+
+export async function deleteNote(domain: string, key: string) {
+  await store.update(all => {
+    if (!all[domain]) return;
+    delete all[domain][key];
+    if (Object.keys(all[domain]).length === 0) delete all[domain];
+  });
+}
@@ -0,0 +1,244 @@
+// app/findings.ts
+
+export type FindingCategory = "ports" | "tls" | "email" | "dns" | "web" | "tech";
+export type Severity = "critical" | "high" | "medium" | "low" | "info";
+export type RemediationKey =
+  | "close-port"
+  | "tls-certificate" | "tls-hardening" | "https-redirect"
+  | "spf" | "spf-null" | "dmarc" | "dkim" | "mta-sts" | "tls-rpt"
+  | "dnssec" | "caa" | "nameservers" | "dns-wildcard" | "dangling-cname"
+  | "hsts" | "content-type-options" | "clickjacking" | "referrer-policy" | "permissions-policy"
+  | "cross-origin-isolation" | "version-disclosure" | "csp" | "cookies" | "redirects"
+  | "update-component"
+  | "sensitive-files" | "directory-listing" | "mixed-content" | "admin-exposure";
+export type EvidenceValue = string | number | boolean | null | string[];
+
+export const CATEGORY_LABELS: Record<FindingCategory, string> = {
+  ports: "Exposed Services",
+  tls: "TLS & Certificates",
+  email: "Email Authentication",
+  dns: "DNS Infrastructure",
+  web: "Web Security",
+  tech: "Technology",
+};
+
+export interface FindingDefinition {
+  category: FindingCategory;
+  severity: Severity;
+  passed: boolean;
+  title: string;
+  // Fraction (0-1) of the owning check's weight lost when this finding fails
+  penalty: number;
+  remediation: RemediationKey | null;
+}
+
+// What a check module returns, before the scoring profile has been applied
+export interface DraftFinding extends FindingDefinition {
+  id: FindingId;
+  // Distinguishes repeated findings of the same kind, e.g. the port number for "ports.open"
+  subject?: string;
+  evidence: Record<string, EvidenceValue>;
+}
+
+export interface Finding extends DraftFinding {
+  checkId: string;
+  // Points (out of 100) this finding removed from the score under the active profile
+  scoreImpact: number;
+}
+
+export interface CheckContribution {
+  checkId: string;
+  name: string;
+  category: FindingCategory;
+  severity: Severity;
+  pointsAvailable: number;
+  pointsLost: number;
+  // The check errored or timed out; its weight was left out of the score rather than counted as a pass
+  inconclusive?: boolean;
+}
+
+export type CheckStatus = "queued" | "running" | "passed" | "failed" | "errored" | "timed-out";
+
+// How one check went during a scan
+export interface CheckRun {
+  checkId: string;
+  name: string;
+  category: FindingCategory;
+  status: CheckStatus;
+  durationMs: number | null;
+  error: string | null;
+}
+
+export const isInconclusive = (run: Pick<CheckRun, "status">) => run.status === "errored" || run.status === "timed-out";
+
+export interface ScanResult {
+  domain: string;
+  scannedAt: string;
+  profile: string;
+  // SCORING_VERSION the score was computed under; scores from different versions aren't like-for-like
+  scoringVersion: number;
+  score: number;
+  findings: Finding[];
+  breakdown: CheckContribution[];
+  // Per-check status and timing; empty for scans stored before it was recorded
+  checks: CheckRun[];
+  // Whether the deep checks ran; absent on scans stored before deep scans existed
+  deep?: boolean;
+}
+
+// --- FINDING CATALOG ---
+// IDs are stable: the UI, scoring and fix generator key off these, never off the titles.
+// Penalties are relative to the owning check's weight, so profiles can re-weight checks freely.
+const FINDINGS = {
+  // Ports
+  "ports.open": { category: "ports", severity: "high", passed: false, title: "Open Port", penalty: 0.4, remediation: "close-port" },
+  "ports.firewalled": { category: "ports", severity: "info", passed: true, title: "Critical Ports are Firewalled", penalty: 0, remediation: null },
+
+  // TLS
+  "tls.missing": { category: "tls", severity: "critical", passed: false, title: "No SSL Certificate found", penalty: 1, remediation: "tls-certificate" },
+  "tls.expired": { category: "tls", severity: "critical", passed: false, title: "SSL Certificate EXPIRED", penalty: 1, remediation: "tls-certificate" },
+  "tls.expiring": { category: "tls", severity: "medium", passed: false, title: "SSL Expires soon", penalty: 0.5, remediation: "tls-certificate" },
+  "tls.valid": { category: "tls", severity: "info", passed: true, title: "SSL Valid", penalty: 0, remediation: null },
+  "tls.chain.untrusted": { category: "tls", severity: "critical", passed: false, title: "Certificate chain is not trusted", penalty: 1, remediation: "tls-certificate" },
+  "tls.chain.self-signed": { category: "tls", severity: "critical", passed: false, title: "Self-signed certificate", penalty: 1, remediation: "tls-certificate" },
+  "tls.chain.trusted": { category: "tls", severity: "info", passed: true, title: "Certificate chain trusted", penalty: 0, remediation: null },
+  "tls.hostname.mismatch": { category: "tls", severity: "critical", passed: false, title: "Certificate does not cover the domain", penalty: 1, remediation: "tls-certificate" },
+  "tls.hostname.www-uncovered": { category: "tls", severity: "low", passed: false, title: "Certificate does not cover the www subdomain", penalty: 0.25, remediation: "tls-certificate" },
+  "tls.hostname.covered": { category: "tls", severity: "info", passed: true, title: "Certificate covers apex and www", penalty: 0, remediation: null },
+  "tls.key.weak": { category: "tls", severity: "high", passed: false, title: "Weak certificate key", penalty: 0.5, remediation: "tls-certificate" },
+  "tls.key.strong": { category: "tls", severity: "info", passed: true, title: "Certificate key strength adequate", penalty: 0, remediation: null },
+  "tls.signature.weak": { category: "tls", severity: "high", passed: false, title: "Weak certificate signature algorithm", penalty: 0.5, remediation: "tls-certificate" },
+  "tls.signature.strong": { category: "tls", severity: "info", passed: true, title: "Certificate signature algorithm modern", penalty: 0, remediation: null },
+  "tls.protocol.legacy": { category: "tls", severity: "medium", passed: false, title: "Legacy TLS versions enabled", penalty: 0.5, remediation: "tls-hardening" },
+  "tls.protocol.modern": { category: "tls", severity: "info", passed: true, title: "Only modern TLS versions enabled", penalty: 0, remediation: null },
+  "tls.cipher.weak": { category: "tls", severity: "high", passed: false, title: "Weak cipher negotiated", penalty: 0.5, remediation: "tls-hardening" },
+  "tls.cipher.no-forward-secrecy": { category: "tls", severity: "medium", passed: false, title: "Cipher lacks forward secrecy", penalty: 0.25, remediation: "tls-hardening" },
+  "tls.cipher.strong": { category: "tls", severity: "info", passed: true, title: "Strong cipher negotiated", penalty: 0, remediation: null },
+  "tls.ocsp.not-stapled": { category: "tls", severity: "low", passed: false, title: "OCSP stapling not enabled", penalty: 0.1, remediation: "tls-hardening" },
+  "tls.ocsp.stapled": { category: "tls", severity: "info", passed: true, title: "OCSP stapling enabled", penalty: 0, remediation: null },
+  "tls.http.no-redirect": { category: "tls", severity: "medium", passed: false, title: "HTTP does not redirect to HTTPS", penalty: 0.4, remediation: "https-redirect" },
+  "tls.http.redirect": { category: "tls", severity: "info", passed: true, title: "HTTP redirects to HTTPS", penalty: 0, remediation: null },
+  "tls.http.unknown": { category: "tls", severity: "info", passed: false, title: "Couldn't tell whether HTTP redirects to HTTPS", penalty: 0, remediation: null },
+
+  // Email
+  "email.dns-failed": { category: "email", severity: "info", passed: false, title: "DNS Lookup failed", penalty: 0, remediation: null },
+  "email.spf.missing": { category: "email", severity: "high", passed: false, title: "Missing SPF Record", penalty: 1, remediation: "spf" },
+  "email.spf.null-recommended": { category: "email", severity: "medium", passed: false, title: "No mail servers: publish a null SPF record (v=spf1 -all)", penalty: 0.5, remediation: "spf-null" },
+  "email.spf.multiple": { category: "email", severity: "high", passed: false, title: "Multiple SPF records published (permerror)", penalty: 1, remediation: "spf" },
+  "email.spf.present": { category: "email", severity: "info", passed: true, title: "SPF Record Detected", penalty: 0, remediation: null },
+  "email.spf.permissive": { category: "email", severity: "high", passed: false, title: "SPF Record unsafe ('+all')", penalty: 1, remediation: "spf" },
+  "email.spf.neutral": { category: "email", severity: "medium", passed: false, title: "SPF ends in neutral '?all'", penalty: 0.5, remediation: "spf" },
+  "email.spf.softfail": { category: "email", severity: "low", passed: false, title: "SPF uses soft fail ('~all')", penalty: 0.1, remediation: "spf" },
+  "email.spf.hardfail": { category: "email", severity: "info", passed: true, title: "SPF enforces hard fail ('-all')", penalty: 0, remediation: null },
+  "email.spf.too-many-lookups": { category: "email", severity: "high", passed: false, title: "SPF exceeds the 10 DNS lookup limit", penalty: 0.75, remediation: "spf" },
+  "email.spf.lookups-ok": { category: "email", severity: "info", passed: true, title: "SPF lookups within limit", penalty: 0, remediation: null },
+  "email.spf.broken": { category: "email", severity: "medium", passed: false, title: "SPF includes cannot be resolved", penalty: 0.5, remediation: "spf" },
+  "email.dmarc.missing": { category: "email", severity: "high", passed: false, title: "Missing DMARC Record", penalty: 1, remediation: "dmarc" },
+  "email.dmarc.invalid": { category: "email", severity: "high", passed: false, title: "DMARC record invalid", penalty: 1, remediation: "dmarc" },
+  "email.dmarc.monitor-only": { category: "email", severity: "medium", passed: false, title: "DMARC Policy weak ('p=none')", penalty: 0.35, remediation: "dmarc" },
+  "email.dmarc.enforced": { category: "email", severity: "info", passed: true, title: "DMARC Record Active", penalty: 0, remediation: null },
+  "email.dmarc.partial": { category: "email", severity: "medium", passed: false, title: "DMARC applied to only part of mail (pct<100)", penalty: 0.2, remediation: "dmarc" },
+  "email.dmarc.subdomains-unprotected": { category: "email", severity: "medium", passed: false, title: "DMARC subdomain policy is 'sp=none'", penalty: 0.2, remediation: "dmarc" },
+  "email.dmarc.no-reporting": { category: "email", severity: "low", passed: false, title: "DMARC has no aggregate reporting (rua)", penalty: 0.1, remediation: "dmarc" },
+  "email.dmarc.reporting": { category: "email", severity: "info", passed: true, title: "DMARC aggregate reporting enabled", penalty: 0, remediation: null },
+  "email.dkim.not-found": { category: "email", severity: "medium", passed: false, title: "No DKIM key found on common selectors", penalty: 0.6, remediation: "dkim" },
+  "email.dkim.found": { category: "email", severity: "info", passed: true, title: "DKIM keys found", penalty: 0, remediation: null },
+  "email.dkim.weak-key": { category: "email", severity: "high", passed: false, title: "DKIM key shorter than 1024 bits", penalty: 0.6, remediation: "dkim" },
+  "email.mx.none": { category: "email", severity: "info", passed: true, title: "No Mail Servers (MX) published", penalty: 0, remediation: null },
+  "email.mx.present": { category: "email", severity: "info", passed: true, title: "Mail Servers (MX)", penalty: 0, remediation: null },
+  "email.mta-sts.missing": { category: "email", severity: "low", passed: false, title: "No MTA-STS policy", penalty: 0.4, remediation: "mta-sts" },
+  "email.mta-sts.not-enforced": { category: "email", severity: "low", passed: false, title: "MTA-STS policy not enforced", penalty: 0.2, remediation: "mta-sts" },
+  "email.mta-sts.enforced": { category: "email", severity: "info", passed: true, title: "MTA-STS policy enforced", penalty: 0, remediation: null },
+  "email.tls-rpt.missing": { category: "email", severity: "low", passed: false, title: "No SMTP TLS reporting (TLS-RPT)", penalty: 0.3, remediation: "tls-rpt" },
+  "email.tls-rpt.present": { category: "email", severity: "info", passed: true, title: "SMTP TLS reporting (TLS-RPT) enabled", penalty: 0, remediation: null },
+  "email.bimi.missing": { category: "email", severity: "info", passed: false, title: "No BIMI record (brand logo in inboxes)", penalty: 0, remediation: null },
+  "email.bimi.present": { category: "email", severity: "info", passed: true, title: "BIMI record published", penalty: 0, remediation: null },
+
+  // DNS Infrastructure
+  "dns.dnssec.unsigned": { category: "dns", severity: "low", passed: false, title: "DNSSEC not enabled", penalty: 0.3, remediation: "dnssec" },
+  "dns.dnssec.unanchored": { category: "dns", severity: "medium", passed: false, title: "Zone is signed but no DS record at the registrar", penalty: 0.3, remediation: "dnssec" },
+  "dns.dnssec.broken": { category: "dns", severity: "high", passed: false, title: "DS record published but zone is not signed", penalty: 0.6, remediation: "dnssec" },
+  "dns.dnssec.signed": { category: "dns", severity: "info", passed: true, title: "DNSSEC signed", penalty: 0, remediation: null },
+  "dns.caa.missing": { category: "dns", severity: "low", passed: false, title: "No CAA record (any CA may issue certificates)", penalty: 0.2, remediation: "caa" },
+  "dns.caa.issuer-not-allowed": { category: "dns", severity: "high", passed: false, title: "CAA does not authorise the current issuer", penalty: 0.4, remediation: "caa" },
+  "dns.caa.present": { category: "dns", severity: "info", passed: true, title: "CAA restricts certificate issuance", penalty: 0, remediation: null },
+  "dns.ns.insufficient": { category: "dns", severity: "medium", passed: false, title: "Fewer than two nameservers", penalty: 0.4, remediation: "nameservers" },
+  "dns.ns.single-provider": { category: "dns", severity: "low", passed: false, title: "All nameservers with one provider", penalty: 0.1, remediation: "nameservers" },
+  "dns.ns.diverse": { category: "dns", severity: "info", passed: true, title: "Nameservers spread across providers", penalty: 0, remediation: null },
+  "dns.wildcard": { category: "dns", severity: "low", passed: false, title: "Wildcard DNS record resolves any subdomain", penalty: 0.1, remediation: "dns-wildcard" },
+  "dns.no-wildcard": { category: "dns", severity: "info", passed: true, title: "No wildcard DNS record", penalty: 0, remediation: null },
+  "dns.dangling-cname": { category: "dns", severity: "critical", passed: false, title: "Dangling CNAME (subdomain takeover risk)", penalty: 1, remediation: "dangling-cname" },
+  "dns.cnames-ok": { category: "dns", severity: "info", passed: true, title: "No dangling CNAMEs on common subdomains", penalty: 0, remediation: null },
+
+  // Web
+  "web.redirects.blocked": { category: "web", severity: "info", passed: false, title: "Redirect to a private or reserved address was not followed", penalty: 0, remediation: null },
+  "web.redirects.insecure": { category: "web", severity: "medium", passed: false, title: "Redirect chain downgrades to HTTP", penalty: 0.3, remediation: "redirects" },
+  "web.redirects.secure": { category: "web", severity: "info", passed: true, title: "Redirect chain stays on HTTPS", penalty: 0, remediation: null },
+  "web.hsts.missing": { category: "web", severity: "medium", passed: false, title: "Missing HSTS Header", penalty: 0.5, remediation: "hsts" },
+  "web.hsts.short-max-age": { category: "web", severity: "medium", passed: false, title: "HSTS max-age too short", penalty: 0.3, remediation: "hsts" },
+  "web.hsts.no-subdomains": { category: "web", severity: "low", passed: false, title: "HSTS does not cover subdomains (includeSubDomains)", penalty: 0.1, remediation: "hsts" },
+  "web.hsts.present": { category: "web", severity: "info", passed: true, title: "HSTS Enabled", penalty: 0, remediation: null },
+  "web.nosniff.missing": { category: "web", severity: "low", passed: false, title: "Missing X-Content-Type-Options", penalty: 0.25, remediation: "content-type-options" },
+  "web.nosniff.present": { category: "web", severity: "info", passed: true, title: "Content Sniffing Protection Active", penalty: 0, remediation: null },
+  "web.clickjacking.missing": { category: "web", severity: "low", passed: false, title: "Missing Clickjacking Protection", penalty: 0.25, remediation: "clickjacking" },
+  "web.clickjacking.present": { category: "web", severity: "info", passed: true, title: "Clickjacking Protection Active", penalty: 0, remediation: null },
+  "web.referrer-policy.missing": { category: "web", severity: "low", passed: false, title: "Missing Referrer-Policy", penalty: 0.1, remediation: "referrer-policy" },
+  "web.referrer-policy.weak": { category: "web", severity: "low", passed: false, title: "Referrer-Policy leaks full URLs", penalty: 0.1, remediation: "referrer-policy" },
+  "web.referrer-policy.present": { category: "web", severity: "info", passed: true, title: "Referrer-Policy set", penalty: 0, remediation: null },
+  "web.permissions-policy.missing": { category: "web", severity: "low", passed: false, title: "Missing Permissions-Policy", penalty: 0.05, remediation: "permissions-policy" },
+  "web.permissions-policy.present": { category: "web", severity: "info", passed: true, title: "Permissions-Policy set", penalty: 0, remediation: null },
+  "web.cross-origin.missing": { category: "web", severity: "info", passed: false, title: "Cross-origin isolation headers not set (COOP/COEP/CORP)", penalty: 0.05, remediation: "cross-origin-isolation" },
+  "web.cross-origin.present": { category: "web", severity: "info", passed: true, title: "Cross-origin isolation headers set", penalty: 0, remediation: null },
+  "web.version-disclosure": { category: "web", severity: "low", passed: false, title: "Software versions disclosed in headers", penalty: 0.15, remediation: "version-disclosure" },
+  "web.no-version-disclosure": { category: "web", severity: "info", passed: true, title: "No software versions disclosed in headers", penalty: 0, remediation: null },
+  "web.csp.missing": { category: "web", severity: "medium", passed: false, title: "Missing Content Security Policy", penalty: 1, remediation: "csp" },
+  "web.csp.report-only": { category: "web", severity: "low", passed: false, title: "Content Security Policy is report-only", penalty: 0.6, remediation: "csp" },
+  "web.csp.unsafe-inline": { category: "web", severity: "medium", passed: false, title: "CSP allows inline script ('unsafe-inline')", penalty: 0.4, remediation: "csp" },
+  "web.csp.unsafe-eval": { category: "web", severity: "medium", passed: false, title: "CSP allows eval ('unsafe-eval')", penalty: 0.3, remediation: "csp" },
+  "web.csp.wildcard": { category: "web", severity: "medium", passed: false, title: "CSP allows script from any source", penalty: 0.4, remediation: "csp" },
+  "web.csp.no-default-src": { category: "web", severity: "low", passed: false, title: "CSP has no default-src fallback", penalty: 0.2, remediation: "csp" },
+  "web.csp.strong": { category: "web", severity: "info", passed: true, title: "Content Security Policy restricts script sources", penalty: 0, remediation: null },
+  "web.cookies.insecure": { category: "web", severity: "medium", passed: false, title: "Cookies without Secure flag", penalty: 0.6, remediation: "cookies" },
+  "web.cookies.no-httponly": { category: "web", severity: "low", passed: false, title: "Cookies readable by JavaScript (no HttpOnly)", penalty: 0.3, remediation: "cookies" },
+  "web.cookies.no-samesite": { category: "web", severity: "low", passed: false, title: "Cookies without SameSite", penalty: 0.2, remediation: "cookies" },
+  "web.cookies.secure": { category: "web", severity: "info", passed: true, title: "Cookies set securely", penalty: 0, remediation: null },
+  "web.cookies.none": { category: "web", severity: "info", passed: true, title: "No cookies set on the homepage", penalty: 0, remediation: null },
+  "web.sensitive-file": { category: "web", severity: "critical", passed: false, title: "Sensitive file publicly readable", penalty: 1, remediation: "sensitive-files" },
+  "web.directory-listing": { category: "web", severity: "medium", passed: false, title: "Directory listing enabled", penalty: 0.3, remediation: "directory-listing" },
+  "web.sensitive-files.none": { category: "web", severity: "info", passed: true, title: "No exposed repositories, backups or directory listings found", penalty: 0, remediation: null },
+  "web.mixed-content.active": { category: "web", severity: "high", passed: false, title: "Scripts or stylesheets loaded over HTTP", penalty: 1, remediation: "mixed-content" },
+  "web.mixed-content.passive": { category: "web", severity: "low", passed: false, title: "Images or media loaded over HTTP", penalty: 0.3, remediation: "mixed-content" },
+  "web.mixed-content.insecure-form": { category: "web", severity: "high", passed: false, title: "Form submits over HTTP", penalty: 0.8, remediation: "mixed-content" },
+  "web.mixed-content.none": { category: "web", severity: "info", passed: true, title: "No mixed content on the homepage", penalty: 0, remediation: null },
+  "web.admin.exposed": { category: "web", severity: "medium", passed: false, title: "Admin login reachable from the internet", penalty: 0.3, remediation: "admin-exposure" },
+  "web.admin.restricted": { category: "web", severity: "info", passed: true, title: "No common admin logins exposed", penalty: 0, remediation: null },
+
+  // Technology
+  "tech.detected": { category: "tech", severity: "info", passed: true, title: "Technology Detected", penalty: 0, remediation: null },
+  "tech.vulnerable": { category: "tech", severity: "high", passed: false, title: "Component with known vulnerabilities", penalty: 0.6, remediation: "update-component" },
+  "tech.eol": { category: "tech", severity: "medium", passed: false, title: "End-of-life component", penalty: 0.4, remediation: "update-component" },
+  "tech.components-current": { category: "tech", severity: "info", passed: true, title: "No known-vulnerable components detected", penalty: 0, remediation: null },
+  "tech.library.vulnerable": { category: "tech", severity: "high", passed: false, title: "Client-side library with known vulnerabilities", penalty: 0.6, remediation: "update-component" },
+  "tech.library.eol": { category: "tech", severity: "medium", passed: false, title: "End-of-life client-side library", penalty: 0.4, remediation: "update-component" },
+  "tech.libraries-current": { category: "tech", severity: "info", passed: true, title: "No outdated client-side libraries found", penalty: 0, remediation: null },
+} satisfies Record<string, FindingDefinition>;
+
+export type FindingId = keyof typeof FINDINGS;
+
+export function createFinding(
+  id: FindingId,
+  details: { subject?: string; title?: string; evidence?: Record<string, EvidenceValue> } & Partial<Pick<FindingDefinition, "severity" | "penalty">> = {}
+): DraftFinding {
+  const { evidence = {}, ...overrides } = details;
+  return { id, ...FINDINGS[id], ...overrides, evidence };
+}
+
+export const failedFindings = (findings: Finding[]) => findings.filter(f => !f.passed);
+export const passedFindings = (findings: Finding[]) => findings.filter(f => f.passed);
+
+// Groups findings under their category, in CATEGORY_LABELS order, skipping empty categories
+export function groupByCategory(findings: Finding[]) {
+  return (Object.keys(CATEGORY_LABELS) as FindingCategory[])
+    .map(category => ({ category, label: CATEGORY_LABELS[category], findings: findings.filter(f => f.category === category) }))
+    .filter(group => group.findings.length > 0);
+}
@@ -0,0 +1,163 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { canViewDomain, requirePageUser } from '../../auth';
+import { listNotes } from '../../findingNotes';
+import type { Finding } from '../../findings';
+import { formatMoney } from '../../riskCalculator';
+import { diffScans } from '../../scanDiff';
+import { listScans, type StoredScan } from '../../scanStore';
+import { NOTE_STATUS_LABELS, noteKey, type FindingNote, type NoteStatus } from '../../workspace';
+
+// Reads the scan store on every request
+export const dynamic = "force-dynamic";
+
+const formatDate = (iso: string) => `${new Date(iso).toLocaleString("en-GB", { timeZone: "UTC", dateStyle: "medium", timeStyle: "short" })} UTC`;
+
+// Score over time as a plain SVG line; one point per stored scan
+function ScoreChart({ scans }: { scans: StoredScan[] }) {
+  const width = 640, height = 180, pad = 24;
+  const x = (i: number) => (scans.length === 1 ? width / 2 : pad + (i / (scans.length - 1)) * (width - pad * 2));
+  const y = (score: number) => height - pad - (score / 100) * (height - pad * 2);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 50, 70, 100].map((line) => (
+        <g key={line}>
+          <line x1={pad} x2={width - pad} y1={y(line)} y2={y(line)} className={line === 70 ? "stroke-red-500/40" : "stroke-slate-700"} strokeDasharray={line === 70 ? "4 4" : undefined} />
+          <text x={4} y={y(line) + 4} className="fill-slate-500 text-[10px]">{line}</text>
+        </g>
+      ))}
+      <polyline fill="none" className="stroke-emerald-400" strokeWidth={2} points={scans.map((s, i) => `${x(i)},${y(s.scan.score)}`).join(" ")} />
+      {scans.map((s, i) => (
+        <circle key={s.id} cx={x(i)} cy={y(s.scan.score)} r={4} className={s.scan.score < 70 ? "fill-red-500" : "fill-emerald-400"}>
+          <title>{`${formatDate(s.scan.scannedAt)}: ${s.scan.score}/100`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+const NOTE_STYLES: Record<NoteStatus, string> = {
+  "accepted-risk": "bg-slate-600/40 text-slate-300",
+  "in-progress": "bg-blue-500/20 text-blue-300",
+  "fixed": "bg-emerald-500/20 text-emerald-300",
+};
+
+function IssueList({ title, findings, tone, notes }: { title: string, findings: Finding[], tone: string, notes: Record<string, FindingNote> }) {
+  return (
+    <div>
+      <h4 className="text-[11px] font-bold uppercase tracking-widest text-slate-400 mb-2">{title} ({findings.length})</h4>
+      {findings.length === 0 ? <p className="text-xs text-slate-500 italic">None</p> : (
+        <ul className="space-y-1">
+          {findings.map((f) => {
+            const note = notes[noteKey(f)];
+            return (
+              <li key={noteKey(f)} className={`text-sm ${tone}`}>
+                {f.title}
+                {note && <span className={`ml-2 text-[10px] uppercase tracking-wider px-1.5 py-0.5 rounded ${NOTE_STYLES[note.status]}`} title={note.text ? `${note.text} (${note.author})` : note.author}>{NOTE_STATUS_LABELS[note.status]}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default async function DomainHistory({ params, searchParams }: { params: Promise<{ domain: string }>, searchParams: Promise<{ from?: string, to?: string }> }) {
+  const user = await requirePageUser();
+  const domain = decodeURIComponent((await params).domain);
+  // Domains outside a client user's organisation look the same as unknown ones
+  if (!(await canViewDomain(user, domain))) notFound();
+  const scans = await listScans(domain);
+  if (scans.length === 0) notFound();
+  const notes = await listNotes(domain);
+
+  // Default to comparing the two most recent scans
+  const query = await searchParams;
+  const to = scans.find(s => s.id === query.to) ?? scans[scans.length - 1];
+  const from = scans.find(s => s.id === query.from) ?? scans[Math.max(0, scans.indexOf(to) - 1)];
+  const diff = from !== to ? diffScans(from.scan, to.scan) : null;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-4xl mx-auto p-8 space-y-6">
+        <Link href="/history" className="text-xs text-slate-400 hover:text-white">← All domains</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">{to.scan.domain}</h1>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-4">Score Over Time</p>
+          <ScoreChart scans={scans} />
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-4">Compare Scans</p>
+          <form className="flex flex-wrap items-end gap-4 mb-6">
+            {([["from", from], ["to", to]] as const).map(([name, selected]) => (
+              <label key={name} className="text-xs text-slate-400 uppercase">
+                {name}
+                <select name={name} defaultValue={selected.id} className="block mt-1 bg-slate-900 border border-slate-600 rounded-lg p-2 text-sm text-white normal-case">
+                  {scans.map((s) => <option key={s.id} value={s.id}>{formatDate(s.scan.scannedAt)} · {s.scan.score}</option>)}
+                </select>
+              </label>
+            ))}
+            <button className="bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-bold px-4 py-2 rounded-lg transition">Compare</button>
+          </form>
+
+          {!diff ? <p className="text-sm text-slate-500 italic">Only one scan stored; run another to see what changed.</p> : (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-6 text-sm">
+                <span>Score <strong className={diff.scoreChange >= 0 ? "text-emerald-400" : "text-red-400"}>{from.scan.score} → {to.scan.score} ({diff.scoreChange >= 0 ? "+" : ""}{diff.scoreChange})</strong></span>
+                <span>Likely exposure <strong className="text-slate-200">{formatMoney(from.exposure.likely, from.exposure.currency)} → {formatMoney(to.exposure.likely, to.exposure.currency)}</strong></span>
+              </div>
+              {!diff.comparable && <p className="text-xs text-yellow-500">⚠ These scans used different scoring profiles, versions or scan depths, so the score change is not like-for-like.</p>}
+              {(diff.certificateRenewed || diff.headersAdded.length > 0 || diff.headersRemoved.length > 0) && (
+                <ul className="text-sm space-y-1">
+                  {diff.certificateRenewed && <li className="text-emerald-300">Certificate renewed: expiry moved from {diff.certificateRenewed.from} to {diff.certificateRenewed.to}</li>}
+                  {diff.headersAdded.map((h) => <li key={h} className="text-emerald-300">Header added: {h}</li>)}
+                  {diff.headersRemoved.map((h) => <li key={h} className="text-red-300">Header removed: {h}</li>)}
+                </ul>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <IssueList title="New Issues" findings={diff.newIssues} tone="text-red-300" notes={notes} />
+                <IssueList title="Resolved" findings={diff.resolvedIssues} tone="text-emerald-300" notes={notes} />
+                <IssueList title="Still Open" findings={diff.persistingIssues} tone="text-slate-300" notes={notes} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {Object.keys(notes).length > 0 && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-4">Finding Notes</p>
+            <ul className="divide-y divide-slate-700">
+              {Object.entries(notes).map(([key, note]) => (
+                <li key={key} className="py-3 text-sm">
+                  <div className="flex items-baseline justify-between gap-4">
+                    <span className="text-slate-200">{to.scan.findings.find(f => noteKey(f) === key)?.title ?? `${note.findingId}${note.subject ? ` (${note.subject})` : ""}`}</span>
+                    <span className={`shrink-0 text-[10px] uppercase tracking-wider px-1.5 py-0.5 rounded ${NOTE_STYLES[note.status]}`}>{NOTE_STATUS_LABELS[note.status]}</span>
+                  </div>
+                  {note.text && <p className="text-xs text-slate-400 mt-1 whitespace-pre-wrap">{note.text}</p>}
+                  <p className="text-[11px] text-slate-500 mt-1">{note.author} · {formatDate(note.updatedAt)}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-4">All Scans</p>
+          <ul className="divide-y divide-slate-700">
+            {[...scans].reverse().map((s) => (
+              <li key={s.id} className="flex items-center justify-between py-3 text-sm">
+                <span className="text-slate-300">{formatDate(s.scan.scannedAt)}</span>
+                <span className="text-slate-500 text-xs">{s.scan.profile} · v{s.scan.scoringVersion}{s.scan.deep && " · deep"}</span>
+                <span className={`font-bold ${s.scan.score < 70 ? 'text-red-400' : 'text-emerald-400'}`}>{s.scan.score}/100</span>
+                <a href={`/scans/${s.id}/report`} className="text-xs text-emerald-400 hover:underline">Report</a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
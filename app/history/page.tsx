@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import { canViewDomain, requirePageUser } from '../auth';
+import { noteCounts } from '../findingNotes';
+import { listDomains } from '../scanStore';
+import { NOTE_STATUS_LABELS, type NoteStatus } from '../workspace';
+
+// Reads the scan store on every request
+export const dynamic = "force-dynamic";
+
+export default async function HistoryIndex() {
+  const user = await requirePageUser();
+  const all = await listDomains();
+  // Client users only see their own organisation's domains
+  const visible = await Promise.all(all.map(d => canViewDomain(user, d.domain)));
+  const domains = all.filter((_, i) => visible[i]);
+  const notes = await noteCounts();
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-4xl mx-auto p-8">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase mt-4 mb-6">Scan <span className="text-emerald-400">History</span></h1>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          {domains.length === 0 ? (
+            <p className="text-slate-500 text-sm italic">No scans stored yet. Run a diagnostic from the scanner to start a history.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                  <th className="pb-3">Domain</th><th className="pb-3">Scans</th><th className="pb-3">Latest Score</th><th className="pb-3">Last Scanned</th><th className="pb-3">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {domains.map((d) => (
+                  <tr key={d.domain} className="border-t border-slate-700">
+                    <td className="py-3"><Link href={`/history/${d.domain}`} className="text-emerald-400 hover:underline">{d.domain}</Link></td>
+                    <td className="py-3 text-slate-300">{d.scans}</td>
+                    <td className={`py-3 font-bold ${d.latestScore < 70 ? 'text-red-400' : 'text-emerald-400'}`}>{d.latestScore}</td>
+                    <td className="py-3 text-slate-400">{new Date(d.lastScannedAt).toLocaleString("en-GB", { timeZone: "UTC" })} UTC</td>
+                    <td className="py-3 text-xs text-slate-400">{Object.entries(notes[d.domain] ?? {}).map(([status, count]) => `${count} ${NOTE_STATUS_LABELS[status as NoteStatus].toLowerCase()}`).join(" · ") || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+// app/jsonStore.ts
+import { randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// --- JSON FILE STORE ---
+// A whole collection in one JSON file. Updates are queued per file, so two requests (or a request and
+// the scheduler) changing it at once can't overwrite each other. Single server process only.
+// Writes go to a temporary file that is renamed over the old one, so a reader never sees half a file.
+// Only a missing file reads as empty: a file that can't be read or parsed is an error, never an empty
+// collection that the next update would write back over the real data.
+export function jsonStore<T>(file: () => string, empty: () => T) {
+  let writes: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<T> {
+    let text: string;
+    try {
+      text = await fs.readFile(file(), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return empty();
+      throw e;
+    }
+    return JSON.parse(text);
+  }
+
+  function update<R>(change: (data: T) => R): Promise<R> {
+    const next = writes.then(async () => {
+      const data = await read();
+      const result = change(data);
+      const target = file();
+      const temporary = `${target}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      try {
+        await fs.writeFile(temporary, JSON.stringify(data, null, 2));
+        await fs.rename(temporary, target);
+      } catch (e) {
+        await fs.rm(temporary, { force: true });
+        throw e;
+      }
+      return result;
+    });
+    writes = next.catch(() => {});
+    return next;
+  }
+
+  return { read, update };
+}
+
+export const dataFile = (name: string) => path.join(process.cwd(), ".data", name);
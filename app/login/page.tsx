@@ -0,0 +1,68 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { needsSetup, setUpFirstAdmin, signIn } from '../actions';
+
+// Only same-site paths, so ?next= can't send a signed-in user off to another site
+function nextPath() {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+}
+
+export default function Login() {
+  // null while checking; true when no users exist yet and this form creates the first admin
+  const [setup, setSetup] = useState<boolean | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    needsSetup().then(setSetup);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const problems = setup ? await setUpFirstAdmin({ name, email, password }) : [await signIn(email, password)].filter((p): p is string => p !== null);
+    setBusy(false);
+    setErrors(problems);
+    // A full navigation, so every page is rendered again with the new session cookie
+    if (problems.length === 0) window.location.assign(nextPath());
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans flex items-center justify-center p-8">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 space-y-4">
+        <div className="relative h-12 w-full mb-2">
+          <Image src="/logo.png" alt="Collective Security Logo" fill className="object-contain" priority />
+        </div>
+        <h1 className="text-center text-lg font-bold tracking-widest uppercase">
+          {setup ? <>Create the <span className="text-emerald-400">Admin</span></> : <>Sign <span className="text-emerald-400">In</span></>}
+        </h1>
+        {setup && <p className="text-xs text-slate-400">No accounts exist yet. This first account is an admin, who can then add consultants and client users.</p>}
+        {setup && (
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Name</label>
+            <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Email</label>
+          <input type="email" required autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Password</label>
+          <input type="password" required autoComplete={setup ? "new-password" : "current-password"} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        </div>
+        {errors.length > 0 && <ul className="text-xs text-red-400 space-y-1">{errors.map((e, i) => <li key={i}>⚠ {e}</li>)}</ul>}
+        <button disabled={busy || setup === null} className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+          {busy ? "Please wait..." : setup ? "CREATE ADMIN" : "SIGN IN"}
+        </button>
+      </form>
+    </div>
+  );
+}
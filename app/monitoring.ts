@@ -0,0 +1,369 @@
+// app/monitoring.ts
+import { randomBytes } from 'crypto';
+import { DEFAULT_ALERT_RULES, detectAlerts, readPosture, type AlertCondition, type AlertRules, type Posture } from './alerts';
+import { audit } from './auditLog';
+import { dataFile, jsonStore } from './jsonStore';
+import { reportOptionsFor } from './organisations';
+import { resolvePortSelection } from './portProfiles';
+import type { ReportOptions } from './report';
+import { INDUSTRY_LABELS } from './riskCalculator';
+import { listScans, saveScan } from './scanStore';
+import { hostnameProblem, normalizeDomain, runScan, withTimeout } from './scanner';
+import { getScoringProfile } from './scoring';
+import { sendMail } from './smtp';
+import { guardedFetch, publicLookup, publicUrlProblem } from './targets';
+
+export type MonitorFrequency = "daily" | "weekly";
+
+// Local times ("22:00") in an IANA time zone; a window that ends before it starts runs overnight
+export interface QuietHours {
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+export interface AlertChannels {
+  webhooks: string[];
+  emails: string[];
+}
+
+export interface MonitorSettings extends ReportOptions {
+  domain: string;
+  frequency: MonitorFrequency;
+  profile?: string;
+  // Port profile id or custom port list, as accepted by runScan
+  ports?: string;
+  rules: AlertRules;
+  quietHours: QuietHours | null;
+  channels: AlertChannels;
+}
+
+export interface AlertDelivery {
+  channel: string;
+  ok: boolean;
+  error: string | null;
+}
+
+// "held" alerts were raised during quiet hours and go out when they end
+export interface AlertRecord {
+  id: string;
+  raisedAt: string;
+  scanId: string | null;
+  score: number | null;
+  conditions: AlertCondition[];
+  status: "held" | "sent" | "failed";
+  sentAt: string | null;
+  deliveries: AlertDelivery[];
+}
+
+export interface Monitor extends MonitorSettings {
+  createdAt: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastScanId: string | null;
+  lastScore: number | null;
+  lastError: string | null;
+  // null until the first monitored scan sets the baseline
+  posture: Posture | null;
+  // Keys of the conditions raised by the latest scan; a condition is only alerted when it first appears
+  activeAlerts: string[];
+  // Newest first
+  alerts: AlertRecord[];
+}
+
+export const MONITOR_FREQUENCIES: Record<MonitorFrequency, { label: string, intervalMs: number }> = {
+  daily: { label: "Daily", intervalMs: 24 * 60 * 60 * 1000 },
+  weekly: { label: "Weekly", intervalMs: 7 * 24 * 60 * 60 * 1000 },
+};
+
+const TICK_MS = 60_000;
+const MONITOR_SCAN_TIMEOUT_MS = 5 * 60_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const RETAINED_ALERTS = 50;
+
+// --- FILE STORE ---
+// Every monitor in one JSON file, keyed by domain
+const store = jsonStore<Record<string, Monitor>>(() => process.env.MONITOR_STORE_FILE ?? dataFile("monitors.json"), () => ({}));
+const readMonitors = store.read;
+const updateMonitors = store.update;
+
+export async function listMonitors(): Promise<Monitor[]> {
+  return Object.values(await readMonitors()).sort((a, b) => a.domain.localeCompare(b.domain));
+}
+
+export async function getMonitor(domain: string): Promise<Monitor | null> {
+  return (await readMonitors())[domain] ?? null;
+}
+
+export async function deleteMonitor(domain: string) {
+  await updateMonitors(monitors => { delete monitors[domain]; });
+}
+
+// --- SETTINGS ---
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+function validTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function settingsProblems(settings: MonitorSettings): Promise<string[]> {
+  const problems: string[] = [];
+  const target = hostnameProblem(settings.domain);
+  if (target) problems.push(target.message);
+  if (!MONITOR_FREQUENCIES[settings.frequency]) problems.push(`Frequency must be one of ${Object.keys(MONITOR_FREQUENCIES).join(", ")}.`);
+  if (settings.profile !== undefined && getScoringProfile(settings.profile).id !== settings.profile) problems.push(`Unknown scoring profile '${settings.profile}'.`);
+  if (settings.ports !== undefined && !resolvePortSelection(settings.ports)) problems.push("Ports must be a port profile or a comma-separated list of port numbers (1-65535).");
+  if (!INDUSTRY_LABELS[settings.industry]) problems.push(`Unknown industry '${settings.industry}'.`);
+
+  const { certificateExpiryDays, minScore, scoreDrop } = settings.rules;
+  if (certificateExpiryDays !== null && !(certificateExpiryDays >= 0 && certificateExpiryDays <= 365)) problems.push("Certificate expiry warning must be between 0 and 365 days.");
+  if (minScore !== null && !(minScore >= 0 && minScore <= 100)) problems.push("Minimum score must be between 0 and 100.");
+  if (scoreDrop !== null && !(scoreDrop >= 1 && scoreDrop <= 100)) problems.push("Score drop must be between 1 and 100 points.");
+
+  if (settings.quietHours) {
+    const { start, end, timeZone } = settings.quietHours;
+    if (!TIME.test(start) || !TIME.test(end)) problems.push("Quiet hours must be given as HH:MM.");
+    if (!validTimeZone(timeZone)) problems.push(`Unknown time zone '${timeZone}'.`);
+  }
+
+  // Webhooks are posted from the server, so they must not lead into its own network
+  for (const url of settings.channels.webhooks) {
+    const problem = await publicUrlProblem(url);
+    if (problem) problems.push(`Webhook refused: ${problem}`);
+  }
+  settings.channels.emails.filter(email => !EMAIL.test(email)).forEach(email => problems.push(`"${email}" is not an email address.`));
+  return problems;
+}
+
+// Creates the monitor, or updates its settings while keeping its schedule, baseline and alert history
+export async function saveMonitor(settings: MonitorSettings): Promise<{ monitor: Monitor | null, errors: string[] }> {
+  const clean: MonitorSettings = {
+    ...settings,
+    domain: normalizeDomain(settings.domain),
+    rules: { ...DEFAULT_ALERT_RULES, ...settings.rules },
+    channels: {
+      webhooks: settings.channels.webhooks.map(s => s.trim()).filter(Boolean),
+      emails: settings.channels.emails.map(s => s.trim()).filter(Boolean),
+    },
+  };
+  const errors = await settingsProblems(clean);
+  if (errors.length > 0) return { monitor: null, errors };
+
+  const monitor = await updateMonitors(monitors => {
+    const existing = monitors[clean.domain];
+    monitors[clean.domain] = existing ? { ...existing, ...clean } : {
+      ...clean,
+      createdAt: new Date().toISOString(),
+      // The first scan runs on the scheduler's next tick
+      nextRunAt: new Date().toISOString(),
+      lastRunAt: null,
+      lastScanId: null,
+      lastScore: null,
+      lastError: null,
+      posture: null,
+      activeAlerts: [],
+      alerts: [],
+    };
+    return monitors[clean.domain];
+  });
+  return { monitor, errors: [] };
+}
+
+// --- QUIET HOURS ---
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export function inQuietHours(quietHours: QuietHours | null, at = new Date()) {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const local = new Intl.DateTimeFormat("en-GB", { timeZone: quietHours.timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(at);
+  const [now, start, end] = [minutesOf(local), minutesOf(quietHours.start), minutesOf(quietHours.end)];
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// --- DELIVERY ---
+function alertText(domain: string, record: Pick<AlertRecord, "conditions" | "score" | "raisedAt">) {
+  return [
+    `Security monitoring for ${domain} raised ${record.conditions.length} alert${record.conditions.length === 1 ? "" : "s"}:`,
+    "",
+    ...record.conditions.flatMap(c => [`[${c.severity.toUpperCase()}] ${c.title}`, `  ${c.detail}`, ""]),
+    ...(record.score !== null ? [`Current score: ${record.score}/100`] : []),
+    `Raised: ${record.raisedAt}`,
+  ].join("\n");
+}
+
+// Sent through the guarded client, which checks the host again at connection time and never
+// follows redirects, so a webhook can't be pointed (or rebound) at the server's own network
+async function postWebhook(url: string, domain: string, record: AlertRecord) {
+  // "text" lets chat incoming webhooks (Slack, Teams, Mattermost) show the alert without a template
+  const body = JSON.stringify({ event: "monitor.alert", domain, scanId: record.scanId, score: record.score, raisedAt: record.raisedAt, conditions: record.conditions, text: alertText(domain, record) });
+  const response = await guardedFetch(url, publicLookup, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Content-Length": String(Buffer.byteLength(body)) },
+    body,
+    timeoutMs: WEBHOOK_TIMEOUT_MS,
+    maxBytes: 4096,
+  });
+  if (response.status < 200 || response.status >= 300) throw new Error(`HTTP ${response.status}`);
+}
+
+const severityRank = (severity: AlertCondition["severity"]) => ["info", "low", "medium", "high", "critical"].indexOf(severity);
+
+async function deliver(monitor: Monitor, record: AlertRecord): Promise<AlertRecord> {
+  const attempt = async (channel: string, send: () => Promise<void>): Promise<AlertDelivery> => {
+    try {
+      await send();
+      return { channel, ok: true, error: null };
+    } catch (e) {
+      return { channel, ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+  const top = [...record.conditions].sort((a, b) => severityRank(b.severity) - severityRank(a.severity))[0];
+  const subject = `[${monitor.domain}] ${top.title}${record.conditions.length > 1 ? ` (+${record.conditions.length - 1} more)` : ""}`;
+  const deliveries = await Promise.all([
+    ...monitor.channels.webhooks.map(url => attempt(`webhook ${new URL(url).host}`, () => postWebhook(url, monitor.domain, record))),
+    ...(monitor.channels.emails.length > 0
+      ? [attempt(`email ${monitor.channels.emails.join(", ")}`, () => sendMail({ to: monitor.channels.emails, subject, text: alertText(monitor.domain, record) }))]
+      : []),
+  ]);
+  return { ...record, status: deliveries.every(d => d.ok) ? "sent" : "failed", sentAt: new Date().toISOString(), deliveries };
+}
+
+async function recordAlert(domain: string, record: AlertRecord) {
+  await updateMonitors(monitors => {
+    const monitor = monitors[domain];
+    if (!monitor) return;
+    monitor.alerts = [record, ...monitor.alerts.filter(a => a.id !== record.id)].slice(0, RETAINED_ALERTS);
+  });
+}
+
+// Sends a sample alert through every channel, ignoring quiet hours, so the setup can be checked
+export async function sendTestAlert(domain: string): Promise<AlertDelivery[]> {
+  const monitor = await getMonitor(domain);
+  if (!monitor) throw new Error(`${domain} is not monitored`);
+  const record = await deliver(monitor, {
+    id: randomBytes(6).toString("hex"),
+    raisedAt: new Date().toISOString(),
+    scanId: null,
+    score: monitor.lastScore,
+    conditions: [{ key: "test", kind: "score", severity: "info", title: "Test alert", detail: "Alert delivery for this domain is working." }],
+    status: "held",
+    sentAt: null,
+    deliveries: [],
+  });
+  return record.deliveries;
+}
+
+// --- MONITORED SCANS ---
+// Runs the scan, stores it, compares it with the monitor's baseline and sends (or holds) any new alerts.
+// `actor` is who the audit log records: the scheduler, or the user who pressed Scan Now.
+// A domain already being scanned (e.g. Scan Now during a scheduled run) shares the run in progress,
+// so it isn't scanned or alerted twice.
+const inFlight = new Map<string, Promise<Monitor | null>>();
+
+export function runMonitor(domain: string, actor = "scheduler"): Promise<Monitor | null> {
+  const running = inFlight.get(domain);
+  if (running) return running;
+  const run = scanMonitor(domain, actor).finally(() => inFlight.delete(domain));
+  inFlight.set(domain, run);
+  return run;
+}
+
+async function scanMonitor(domain: string, actor: string): Promise<Monitor | null> {
+  const monitor = await getMonitor(domain);
+  if (!monitor) return null;
+  const startedAt = new Date();
+  const nextRunAt = new Date(startedAt.getTime() + MONITOR_FREQUENCIES[monitor.frequency].intervalMs).toISOString();
+
+  await audit(actor, "monitor-run", monitor.domain);
+  try {
+    const scan = await withTimeout(runScan(monitor.domain, monitor.profile, { ports: monitor.ports }), MONITOR_SCAN_TIMEOUT_MS);
+    const stored = await saveScan(scan, await reportOptionsFor(monitor.domain, { industry: monitor.industry, employees: monitor.employees }));
+    // Without a monitored scan yet, the latest stored scan of the domain (if any) is the baseline
+    const baseline = monitor.posture ?? await latestPosture(monitor.domain, stored.id);
+    const posture = readPosture(scan, baseline);
+    const conditions = detectAlerts(baseline, posture, monitor.rules);
+    const fresh = conditions.filter(c => !monitor.activeAlerts.includes(c.key));
+
+    let record: AlertRecord | null = fresh.length === 0 ? null : {
+      id: randomBytes(6).toString("hex"),
+      raisedAt: startedAt.toISOString(),
+      scanId: stored.id,
+      score: scan.score,
+      conditions: fresh,
+      status: "held",
+      sentAt: null,
+      deliveries: [],
+    };
+    if (record && !inQuietHours(monitor.quietHours)) record = await deliver(monitor, record);
+
+    return await updateMonitors(monitors => {
+      const current = monitors[domain];
+      if (!current) return null;
+      Object.assign(current, {
+        lastRunAt: startedAt.toISOString(),
+        nextRunAt,
+        lastScanId: stored.id,
+        lastScore: scan.score,
+        lastError: null,
+        posture,
+        activeAlerts: conditions.map(c => c.key),
+        alerts: record ? [record, ...current.alerts].slice(0, RETAINED_ALERTS) : current.alerts,
+      });
+      return current;
+    });
+  } catch (e) {
+    // A failed scan leaves the baseline alone and is retried at the next interval
+    return updateMonitors(monitors => {
+      const current = monitors[domain];
+      if (!current) return null;
+      Object.assign(current, { lastRunAt: startedAt.toISOString(), nextRunAt, lastError: e instanceof Error ? e.message : String(e) });
+      return current;
+    });
+  }
+}
+
+async function latestPosture(domain: string, excludeId: string): Promise<Posture | null> {
+  const previous = (await listScans(domain)).filter(s => s.id !== excludeId).pop();
+  return previous ? readPosture(previous.scan, null) : null;
+}
+
+// Alerts held during quiet hours go out on the first tick after they end
+async function releaseHeldAlerts(monitor: Monitor) {
+  if (inQuietHours(monitor.quietHours)) return;
+  for (const held of monitor.alerts.filter(a => a.status === "held").reverse()) {
+    await recordAlert(monitor.domain, await deliver(monitor, held));
+  }
+}
+
+// --- SCHEDULER ---
+// One interval per server process, started from instrumentation.ts. Due monitors run one at a time
+// so scheduled scans never compete with each other for the port-probe budget.
+let ticking = false;
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = Date.now();
+    for (const listed of await listMonitors()) {
+      const monitor = Date.parse(listed.nextRunAt) <= now ? await runMonitor(listed.domain) : listed;
+      // Held alerts go out even when the scan itself raised nothing new
+      if (monitor) await releaseHeldAlerts(monitor);
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startMonitorScheduler() {
+  // Survives module reloads in development, which would otherwise start a second interval
+  const state = globalThis as typeof globalThis & { monitorScheduler?: ReturnType<typeof setInterval> };
+  if (state.monitorScheduler) return;
+  state.monitorScheduler = setInterval(() => void tick().catch(e => console.error("Monitor scheduler failed:", e)), TICK_MS);
+  state.monitorScheduler.unref();
+}
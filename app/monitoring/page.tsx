@@ -0,0 +1,317 @@
+"use client";
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getMonitors, removeMonitor, runMonitorNow, saveMonitorSettings, testMonitorAlerts } from '../actions';
+import { DEFAULT_ALERT_RULES, type AlertRules } from '../alerts';
+import type { AlertDelivery, AlertRecord, Monitor, MonitorFrequency } from '../monitoring';
+import { DEFAULT_PORT_PROFILE, MAX_CUSTOM_PORTS, PORT_PROFILES } from '../portProfiles';
+import { INDUSTRY_LABELS } from '../riskCalculator';
+import { DEFAULT_PROFILE, SCORING_PROFILES } from '../scoring';
+
+const FREQUENCY_LABELS: Record<MonitorFrequency, string> = { daily: "Daily", weekly: "Weekly" };
+
+const ALERT_STATUS_STYLES: Record<AlertRecord["status"], string> = {
+  held: "text-yellow-400",
+  sent: "text-emerald-400",
+  failed: "text-red-400",
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: "text-red-400",
+  high: "text-orange-400",
+  medium: "text-yellow-400",
+  low: "text-slate-300",
+  info: "text-slate-400",
+};
+
+const formatDate = (iso: string | null) => iso ? new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" }) : "—";
+const splitList = (text: string) => text.split(/[\n,]/).map(s => s.trim()).filter(Boolean);
+// Empty inputs turn a numeric rule off
+const optionalNumber = (text: string) => text.trim() === "" ? null : Number(text);
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-2";
+
+export default function Monitoring() {
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [domain, setDomain] = useState('');
+  const [frequency, setFrequency] = useState<MonitorFrequency>("daily");
+  const [industry, setIndustry] = useState('marketing');
+  const [employees, setEmployees] = useState(5);
+  const [profile, setProfile] = useState(DEFAULT_PROFILE);
+  const [portProfile, setPortProfile] = useState(DEFAULT_PORT_PROFILE);
+  const [customPorts, setCustomPorts] = useState('');
+  const [rules, setRules] = useState<AlertRules>(DEFAULT_ALERT_RULES);
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState('22:00');
+  const [quietEnd, setQuietEnd] = useState('07:00');
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [webhooks, setWebhooks] = useState('');
+  const [emails, setEmails] = useState('');
+
+  const [errors, setErrors] = useState<string[]>([]);
+  // Domain being scanned or tested from its row, to disable its buttons meanwhile
+  const [busy, setBusy] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<{ domain: string, results: AlertDelivery[] } | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMonitors().then(setMonitors);
+  }, []);
+
+  const refresh = async () => setMonitors(await getMonitors());
+
+  const handleEdit = (monitor: Monitor) => {
+    setDomain(monitor.domain);
+    setFrequency(monitor.frequency);
+    setIndustry(monitor.industry);
+    setEmployees(monitor.employees);
+    setProfile(monitor.profile ?? DEFAULT_PROFILE);
+    const ports = monitor.ports ?? DEFAULT_PORT_PROFILE;
+    setPortProfile(PORT_PROFILES[ports] ? ports : "custom");
+    setCustomPorts(PORT_PROFILES[ports] ? "" : ports);
+    setRules(monitor.rules);
+    setQuietEnabled(monitor.quietHours !== null);
+    if (monitor.quietHours) {
+      setQuietStart(monitor.quietHours.start);
+      setQuietEnd(monitor.quietHours.end);
+      setTimeZone(monitor.quietHours.timeZone);
+    }
+    setWebhooks(monitor.channels.webhooks.join("\n"));
+    setEmails(monitor.channels.emails.join(", "));
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    if (!domain.trim()) return;
+    const result = await saveMonitorSettings({
+      domain,
+      frequency,
+      industry,
+      employees,
+      profile,
+      ports: portProfile === "custom" ? customPorts : portProfile,
+      rules,
+      quietHours: quietEnabled ? { start: quietStart, end: quietEnd, timeZone } : null,
+      channels: { webhooks: splitList(webhooks), emails: splitList(emails) },
+    });
+    setErrors(result.errors);
+    if (result.monitor) {
+      setDomain('');
+      await refresh();
+    }
+  };
+
+  const handleRun = async (target: string) => {
+    setBusy(target);
+    await runMonitorNow(target);
+    await refresh();
+    setBusy(null);
+  };
+
+  const handleTest = async (target: string) => {
+    setBusy(target);
+    setDeliveries({ domain: target, results: await testMonitorAlerts(target) });
+    setBusy(null);
+  };
+
+  const handleRemove = async (target: string) => {
+    if (!confirm(`Stop monitoring ${target}? Its stored scans are kept.`)) return;
+    await removeMonitor(target);
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-6xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Domain <span className="text-emerald-400">Monitoring</span></h1>
+
+        <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-4">
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-emerald-400 uppercase mb-2 tracking-wider">Domain</label>
+              <input type="text" placeholder="example.com" className={inputClass} value={domain} onChange={(e) => setDomain(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Frequency</label>
+              <select className={inputClass} value={frequency} onChange={(e) => setFrequency(e.target.value as MonitorFrequency)}>
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Industry</label>
+              <select className={inputClass} value={industry} onChange={(e) => setIndustry(e.target.value)}>
+                {Object.entries(INDUSTRY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Size</label>
+              <select className={inputClass} value={employees} onChange={(e) => setEmployees(Number(e.target.value))}>
+                <option value="5">1 - 10 Employees</option>
+                <option value="25">11 - 50 Employees</option>
+                <option value="100">50+ Employees</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Profile</label>
+              <select className={inputClass} value={profile} onChange={(e) => setProfile(e.target.value)}>
+                {Object.values(SCORING_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Ports</label>
+              <select className={inputClass} value={portProfile} onChange={(e) => setPortProfile(e.target.value)} title={PORT_PROFILES[portProfile]?.description}>
+                {Object.values(PORT_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                <option value="custom">Custom</option>
+              </select>
+              {portProfile === "custom" && <input type="text" placeholder="22,8080,6379" className={`mt-2 ${inputClass} text-sm font-mono`} value={customPorts} onChange={(e) => setCustomPorts(e.target.value)} title={`Up to ${MAX_CUSTOM_PORTS} port numbers`} />}
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClass}>Alert When</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm text-slate-300">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={rules.certificateExpiryDays !== null} onChange={(e) => setRules({ ...rules, certificateExpiryDays: e.target.checked ? DEFAULT_ALERT_RULES.certificateExpiryDays : null })} />
+                Certificate expires within
+                <input type="number" min={0} max={365} disabled={rules.certificateExpiryDays === null} className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 disabled:opacity-50" value={rules.certificateExpiryDays ?? ""} onChange={(e) => setRules({ ...rules, certificateExpiryDays: optionalNumber(e.target.value) })} />
+                days
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={rules.criticalPorts} onChange={(e) => setRules({ ...rules, criticalPorts: e.target.checked })} />
+                A critical port opens
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={rules.emailAuthentication} onChange={(e) => setRules({ ...rules, emailAuthentication: e.target.checked })} />
+                SPF or DMARC is removed or weakened
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={rules.securityHeaders} onChange={(e) => setRules({ ...rules, securityHeaders: e.target.checked })} />
+                A security header disappears
+              </label>
+              <label className="flex items-center gap-2">
+                Score drops by
+                <input type="number" min={1} max={100} placeholder="off" className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" value={rules.scoreDrop ?? ""} onChange={(e) => setRules({ ...rules, scoreDrop: optionalNumber(e.target.value) })} />
+                points or more
+              </label>
+              <label className="flex items-center gap-2">
+                Score falls below
+                <input type="number" min={0} max={100} placeholder="off" className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" value={rules.minScore ?? ""} onChange={(e) => setRules({ ...rules, minScore: optionalNumber(e.target.value) })} />
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Webhooks</label>
+              <textarea rows={3} placeholder="https://hooks.slack.com/services/..." className={`${inputClass} text-sm font-mono`} value={webhooks} onChange={(e) => setWebhooks(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Email Recipients</label>
+              <textarea rows={3} placeholder="it@example.com, owner@example.com" className={`${inputClass} text-sm`} value={emails} onChange={(e) => setEmails(e.target.value)} />
+            </div>
+            <div>
+              <label className={`${labelClass} flex items-center gap-2`}>
+                <input type="checkbox" checked={quietEnabled} onChange={(e) => setQuietEnabled(e.target.checked)} />
+                Quiet Hours
+              </label>
+              <div className="flex items-center gap-2 text-sm">
+                <input type="time" disabled={!quietEnabled} className="bg-slate-900 border border-slate-600 rounded px-2 py-2 text-white disabled:opacity-50" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} />
+                <span className="text-slate-500">to</span>
+                <input type="time" disabled={!quietEnabled} className="bg-slate-900 border border-slate-600 rounded px-2 py-2 text-white disabled:opacity-50" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} />
+              </div>
+              <input type="text" disabled={!quietEnabled} className="mt-2 w-full bg-slate-900 border border-slate-600 rounded px-2 py-2 text-sm text-white disabled:opacity-50" value={timeZone} onChange={(e) => setTimeZone(e.target.value)} title="IANA time zone, e.g. Europe/London" />
+              <p className="text-[11px] text-slate-500 mt-1">Alerts raised in this window are held and sent when it ends.</p>
+            </div>
+          </div>
+
+          <button onClick={handleSave} className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 px-8 rounded-lg shadow-lg transition-all">
+            {monitors.some(m => m.domain === domain.trim().toLowerCase()) ? "UPDATE MONITOR" : "START MONITORING"}
+          </button>
+          {errors.length > 0 && (
+            <ul className="text-xs text-yellow-500 space-y-1">{errors.map((e, i) => <li key={i}>⚠ {e}</li>)}</ul>
+          )}
+        </div>
+
+        {deliveries && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 text-sm">
+            <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-2">Test alert for {deliveries.domain}</p>
+            {deliveries.results.length === 0 ? <p className="text-slate-500 italic">No channels configured.</p> : (
+              <ul className="space-y-1">{deliveries.results.map((d, i) => <li key={i} className={d.ok ? "text-emerald-400" : "text-red-400"}>{d.ok ? "✓" : "✕"} {d.channel}{d.error && `: ${d.error}`}</li>)}</ul>
+            )}
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-4">{monitors.length} Monitored Domain{monitors.length === 1 ? "" : "s"}</p>
+          {monitors.length === 0 ? <p className="text-slate-500 text-sm italic">No domains are monitored yet.</p> : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                    <th className="pb-3 pr-4">Domain</th>
+                    <th className="pb-3 pr-4">Frequency</th>
+                    <th className="pb-3 pr-4">Score</th>
+                    <th className="pb-3 pr-4">Last Scan</th>
+                    <th className="pb-3 pr-4">Next Scan</th>
+                    <th className="pb-3 pr-4">Alerts</th>
+                    <th className="pb-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {monitors.map((m) => (
+                    <Fragment key={m.domain}>
+                      <tr className="border-t border-slate-700 align-top">
+                        <td className="py-3 pr-4">
+                          {m.lastScanId ? <Link href={`/history/${m.domain}`} className="text-emerald-400 hover:underline">{m.domain}</Link> : m.domain}
+                          {m.lastError && <p className="text-[11px] text-red-400 mt-1">{m.lastError}</p>}
+                        </td>
+                        <td className="py-3 pr-4 text-slate-300">{FREQUENCY_LABELS[m.frequency]}{m.quietHours && <span className="block text-[11px] text-slate-500">Quiet {m.quietHours.start}–{m.quietHours.end}</span>}</td>
+                        <td className={`py-3 pr-4 font-bold ${m.lastScore === null ? 'text-slate-600' : m.lastScore < 70 ? 'text-red-400' : 'text-emerald-400'}`}>{m.lastScore ?? "—"}</td>
+                        <td className="py-3 pr-4 text-slate-300">{formatDate(m.lastRunAt)}</td>
+                        <td className="py-3 pr-4 text-slate-300">{formatDate(m.nextRunAt)}</td>
+                        <td className="py-3 pr-4">
+                          <button onClick={() => setExpanded(expanded === m.domain ? null : m.domain)} className="text-slate-300 hover:text-white">
+                            {m.alerts.length}{m.alerts.some(a => a.status === "held") && <span className="text-yellow-400"> · held</span>} {expanded === m.domain ? "▲" : "▼"}
+                          </button>
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap space-x-2">
+                          <button onClick={() => handleRun(m.domain)} disabled={busy === m.domain} className="text-xs bg-slate-900 hover:bg-slate-700 text-white border border-slate-600 px-3 py-1 rounded transition disabled:opacity-50">{busy === m.domain ? "Working..." : "Scan Now"}</button>
+                          <button onClick={() => handleTest(m.domain)} disabled={busy === m.domain} className="text-xs bg-slate-900 hover:bg-slate-700 text-white border border-slate-600 px-3 py-1 rounded transition disabled:opacity-50">Test Alert</button>
+                          <button onClick={() => handleEdit(m)} className="text-xs text-slate-400 hover:text-white px-2">Edit</button>
+                          <button onClick={() => handleRemove(m.domain)} className="text-xs text-red-400 hover:text-red-300 px-2">Remove</button>
+                        </td>
+                      </tr>
+                      {expanded === m.domain && (
+                        <tr>
+                          <td colSpan={7} className="pb-4">
+                            {m.alerts.length === 0 ? <p className="text-xs text-slate-500 italic">No alerts raised yet.</p> : (
+                              <ul className="space-y-3">
+                                {m.alerts.map((a) => (
+                                  <li key={a.id} className="bg-slate-900/60 rounded-lg border border-slate-700 p-3">
+                                    <p className="text-[11px] uppercase tracking-wider text-slate-500">
+                                      {formatDate(a.raisedAt)} · <span className={ALERT_STATUS_STYLES[a.status]}>{a.status}</span>
+                                      {a.deliveries.filter(d => !d.ok).map((d, i) => <span key={i} className="text-red-400 normal-case"> · {d.channel}: {d.error}</span>)}
+                                    </p>
+                                    <ul className="mt-1 space-y-1">
+                                      {a.conditions.map((c) => <li key={c.key}><span className={`text-xs font-bold uppercase ${SEVERITY_STYLES[c.severity]}`}>{c.severity}</span> <span className="text-slate-200">{c.title}</span> <span className="text-xs text-slate-400">{c.detail}</span></li>)}
+                                    </ul>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
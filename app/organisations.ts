@@ -0,0 +1,75 @@
+// app/organisations.ts
+import { randomBytes } from 'crypto';
+import { dataFile, jsonStore } from './jsonStore';
+import type { ReportOptions } from './report';
+import { INDUSTRY_LABELS } from './riskCalculator';
+import { hostnameProblem, normalizeDomain } from './scanner';
+import type { Organisation } from './workspace';
+
+export interface OrganisationSettings extends ReportOptions {
+  // Omit to create an organisation; set to edit one
+  id?: string;
+  name: string;
+  domains: string[];
+}
+
+// --- FILE STORE ---
+// Every organisation in one JSON file, keyed by id
+const store = jsonStore<Record<string, Organisation>>(() => dataFile("organisations.json"), () => ({}));
+
+export async function listOrganisations(): Promise<Organisation[]> {
+  return Object.values(await store.read()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getOrganisation(id: string): Promise<Organisation | null> {
+  return (await store.read())[id] ?? null;
+}
+
+export async function deleteOrganisation(id: string) {
+  await store.update(organisations => { delete organisations[id]; });
+}
+
+// A domain belongs to at most one organisation
+export async function organisationForDomain(domain: string): Promise<Organisation | null> {
+  return (await listOrganisations()).find(o => o.domains.includes(domain)) ?? null;
+}
+
+// Scans of a client's domain are always priced with the client's own profile; `fallback` covers the rest
+export async function reportOptionsFor(domain: string, fallback: ReportOptions): Promise<ReportOptions> {
+  const organisation = await organisationForDomain(domain);
+  return organisation ? { industry: organisation.industry, employees: organisation.employees } : fallback;
+}
+
+// --- SETTINGS ---
+function settingsProblems(settings: OrganisationSettings, organisations: Organisation[]): string[] {
+  const problems: string[] = [];
+  if (!settings.name) problems.push("Give the organisation a name.");
+  if (settings.id && !organisations.some(o => o.id === settings.id)) problems.push("That organisation no longer exists.");
+  if (!INDUSTRY_LABELS[settings.industry]) problems.push(`Unknown industry '${settings.industry}'.`);
+  if (!(Number.isInteger(settings.employees) && settings.employees >= 1)) problems.push("Employees must be a whole number of at least 1.");
+  settings.domains.forEach(domain => {
+    const problem = hostnameProblem(domain);
+    if (problem) problems.push(`${domain}: ${problem.message}`);
+    const owner = organisations.find(o => o.id !== settings.id && o.domains.includes(domain));
+    if (owner) problems.push(`${domain} already belongs to ${owner.name}.`);
+  });
+  return problems;
+}
+
+export async function saveOrganisation(settings: OrganisationSettings): Promise<{ organisation: Organisation | null, errors: string[] }> {
+  const clean: OrganisationSettings = {
+    ...settings,
+    name: settings.name.trim(),
+    domains: [...new Set(settings.domains.map(normalizeDomain).filter(Boolean))].sort(),
+  };
+  const errors = settingsProblems(clean, await listOrganisations());
+  if (errors.length > 0) return { organisation: null, errors };
+
+  const organisation = await store.update(organisations => {
+    const id = clean.id ?? randomBytes(6).toString("hex");
+    const { name, industry, employees, domains } = clean;
+    organisations[id] = { id, name, industry, employees, domains, createdAt: organisations[id]?.createdAt ?? new Date().toISOString() };
+    return organisations[id];
+  });
+  return { organisation, errors: [] };
+}
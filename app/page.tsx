@@ -1,17 +1,52 @@
 "use client";
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Image from 'next/image';
-import { calculateFinancialRisk } from './riskCalculator';
-import { scanDomain } from './actions';
-
-interface FixData {
-  title: string;
-  type: string;
-  code: string;
-  explanation: string;
-  steps: string[];
+import Link from 'next/link';
+import { formatExposureRange, formatMoney, INDUSTRY_LABELS, type ExposureEstimate } from './riskCalculator';
+import { assessFramework, CONTROL_STATUS_LABELS, controlsForFinding, DEFAULT_FRAMEWORK, FRAMEWORKS, type ControlStatus } from './compliance';
+import { generateReport, getFindingNotes, getSession, isDomainVerified, removeFindingNote, saveFindingNote, signOut } from './actions';
+import { CATEGORY_LABELS, failedFindings, groupByCategory, isInconclusive, passedFindings, type CheckContribution, type CheckRun, type CheckStatus, type Finding } from './findings';
+import { buildPlaybook, detectPlatforms, DNS_PROVIDER_LABELS, WEB_SERVER_LABELS, type DnsProvider, type Platforms, type WebServer } from './playbooks';
+import { DEFAULT_PORT_PROFILE, MAX_CUSTOM_PORTS, PORT_PROFILES } from './portProfiles';
+import type { ScanStreamEvent } from './scanStream';
+import { DEFAULT_PROFILE, SCORING_PROFILES } from './scoring';
+import { TECH_CATEGORY_LABELS, technologiesFromFindings } from './technologies';
+import { hasRole, NOTE_STATUS_LABELS, noteKey, ROLE_LABELS, type FindingNote, type NoteStatus, type Organisation, type SessionUser } from './workspace';
+
+// Raw evidence collected by a check (record values, header values, cert dates)
+function EvidenceList({ evidence }: { evidence: Finding["evidence"] }) {
+  const entries = Object.entries(evidence).filter(([, value]) => value !== null && value !== "");
+  if (entries.length === 0) return null;
+  return (
+    <dl className="text-[11px] font-mono text-slate-400 space-y-0.5 break-all">
+      {entries.map(([key, value]) => (
+        <div key={key}><dt className="inline text-slate-500">{key}: </dt><dd className="inline">{Array.isArray(value) ? value.join(", ") : String(value)}</dd></div>
+      ))}
+    </dl>
+  );
 }
 
+const NOTE_STYLES: Record<NoteStatus, string> = {
+  "accepted-risk": "bg-slate-600/40 text-slate-300 border-slate-500/40",
+  "in-progress": "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  "fixed": "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
+};
+
+const CONTROL_STATUS_STYLES: Record<ControlStatus, string> = {
+  "evidenced": "bg-emerald-500/20 text-emerald-300 border-emerald-500/30",
+  "failing": "bg-red-500/20 text-red-300 border-red-500/30",
+  "not-assessable": "bg-slate-600/40 text-slate-400 border-slate-500/40",
+};
+
+const CHECK_STATUS_STYLES: Record<CheckStatus, { label: string, className: string }> = {
+  "queued": { label: "Queued", className: "text-slate-500" },
+  "running": { label: "Running", className: "text-blue-400 animate-pulse" },
+  "passed": { label: "Passed", className: "text-emerald-400" },
+  "failed": { label: "Issues found", className: "text-red-400" },
+  "errored": { label: "Inconclusive", className: "text-yellow-500" },
+  "timed-out": { label: "Inconclusive (timed out)", className: "text-yellow-500" },
+};
+
 // 1. Advice Database for CMS Platforms
 const cmsAdvice: Record<string, string> = {
   "WordPress": "WordPress is the most targeted CMS in the world. Ensure you are using a security plugin (like Wordfence), change the default 'admin' username, and keep all plugins auto-updated.",
@@ -20,87 +55,250 @@ const cmsAdvice: Record<string, string> = {
   "Squarespace": "Squarespace is a closed ecosystem. Your main risk is weak passwords. Enforce strong password policies for all contributors and limit permissions.",
   "Joomla": "Joomla requires strict maintenance. Rename your 'htaccess.txt' to '.htaccess' to activate built-in firewall rules and remove unused extensions immediately.",
   "Drupal": "Drupal is powerful but complex. Ensure you are subscribed to Drupal Security Advisories and apply core security patches within hours of release.",
+  "WooCommerce": "WooCommerce inherits every WordPress risk and adds payment data to the mix. Keep WooCommerce and its payment gateway extensions on the latest release and never store card data on the server.",
+  "Magento": "Magento stores are a favourite target for card-skimming (Magecart) attacks. Apply Adobe security patches promptly, move the admin panel off '/admin' and enforce 2FA for all admin users.",
+  "PrestaShop": "PrestaShop modules are the usual point of compromise. Remove unused modules, keep the core updated and restrict access to the back office by IP where possible.",
+  "BigCommerce": "BigCommerce is hosted and patched for you. Focus on account hygiene: enforce 2FA for staff and review third-party app permissions regularly.",
+  "Ghost": "Ghost is lean, but self-hosted installs must be kept current. Enable 2FA on staff accounts and keep Node.js and Ghost itself on supported versions.",
+  "Webflow": "Webflow is fully managed. Your main risks are account takeover and third-party embeds: enforce 2FA on the workspace and review custom code snippets.",
+  "HubSpot CMS": "HubSpot CMS is hosted and patched for you. Protect the HubSpot account itself with 2FA and limit who can publish custom modules.",
   "Unknown": "We could not identify a specific CMS. This often means a custom build, which requires a manual code audit to ensure no hidden vulnerabilities exist."
 };
 
 export default function Home() {
+  const [session, setSession] = useState<{ user: SessionUser, organisations: Organisation[] } | null>(null);
+  // Client organisation picked for the scan; its industry and headcount replace the manual choices
+  const [clientId, setClientId] = useState('');
   const [domain, setDomain] = useState('');
   const [industry, setIndustry] = useState('marketing');
   const [employees, setEmployees] = useState(5);
+  const [profile, setProfile] = useState(DEFAULT_PROFILE);
+  // A port profile id, or "custom" to probe the ports typed into customPorts
+  const [portProfile, setPortProfile] = useState(DEFAULT_PORT_PROFILE);
+  const [customPorts, setCustomPorts] = useState('');
+  // Deep checks are offered only once the typed domain's ownership is verified
+  const [deep, setDeep] = useState(false);
+  // Framework shown in the readiness view and used to tag each issue with its controls
+  const [frameworkId, setFrameworkId] = useState(DEFAULT_FRAMEWORK);
+  const [verifiedDomain, setVerifiedDomain] = useState<string | null>(null);
   
   const [loading, setLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
   
   const [riskScore, setRiskScore] = useState(0);
-  const [financialLoss, setFinancialLoss] = useState(0);
-  const [issues, setIssues] = useState<string[]>([]);
-  const [passes, setPasses] = useState<string[]>([]);
-  const [detectedCMS, setDetectedCMS] = useState<string | null>(null);
+  const [exposure, setExposure] = useState<ExposureEstimate | null>(null);
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [breakdown, setBreakdown] = useState<CheckContribution[]>([]);
+  const [checkRuns, setCheckRuns] = useState<CheckRun[]>([]);
+  // The stored scan behind the dashboard, used for the client report, history link and breakdown header
+  const [scanned, setScanned] = useState<{ id: string, domain: string, deep: boolean, profile: string } | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const [selectedFix, setSelectedFix] = useState<Finding | null>(null);
+  // DNS host and web server chosen in the fix box; null follows what the scan detected
+  const [platformChoice, setPlatformChoice] = useState<Platforms | null>(null);
+  // Label of the snippet last copied, for the button's confirmation
+  const [copied, setCopied] = useState<string | null>(null);
+
+  // Notes on the scanned domain's findings, keyed by noteKey, and the one being edited
+  const [notes, setNotes] = useState<Record<string, FindingNote>>({});
+  const [noteDraft, setNoteDraft] = useState<{ key: string, status: NoteStatus, text: string } | null>(null);
+  // Why the note being edited couldn't be saved or removed
+  const [noteErrors, setNoteErrors] = useState<string[]>([]);
+
+  // The proxy only checks that a session cookie exists; an expired or revoked one lands here
+  useEffect(() => {
+    getSession().then(current => current ? setSession(current) : window.location.assign("/login"));
+  }, []);
 
-  const [selectedFix, setSelectedFix] = useState<FixData | null>(null);
-  const [copySuccess, setCopySuccess] = useState(false);
+  useEffect(() => {
+    if (!session || !hasRole(session.user, "consultant") || !domain.includes(".")) return;
+    let current = true;
+    const timer = setTimeout(() => isDomainVerified(domain).catch(() => false).then(result => current && setVerifiedDomain(result ? domain : null)), 300);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [session, domain]);
+
+  const verified = verifiedDomain !== null && verifiedDomain === domain;
+  const user = session?.user ?? null;
+  const isStaff = !!user && hasRole(user, "consultant");
+  // A typed domain that belongs to a client counts as picking that client
+  const organisation = session?.organisations.find(o => o.id === clientId)
+    ?? session?.organisations.find(o => o.domains.includes(domain.trim().toLowerCase()))
+    ?? null;
 
   const handleScan = async () => {
     if (!domain) return;
     setLoading(true);
     setShowResults(false);
     setSelectedFix(null);
-    setCopySuccess(false);
-
-    const result = await scanDomain(domain);
-    const loss = calculateFinancialRisk(industry, employees, result.score);
-    
-    setRiskScore(result.score);
-    setFinancialLoss(loss);
-    setIssues(result.issues);
-    setPasses(result.passes);
-    setDetectedCMS(result.cms);
-    
+    setPlatformChoice(null);
+    setCopied(null);
+    setScanError(null);
+    setReportError(null);
+    setScanned(null);
+    setFindings([]);
+    setExposure(null);
+    setCheckRuns([]);
+    setNotes({});
+    setNoteDraft(null);
+    setNoteErrors([]);
+
+    try {
+      const response = await fetch("/scans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ domain, profile, ports: portProfile === "custom" ? customPorts : portProfile, deep: deep && verified, industry: organisation?.industry ?? industry, employees: organisation?.employees ?? employees }),
+      });
+      // One ScanStreamEvent per line; a chunk can end mid-line
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        const lines = (buffer + chunk.value).split("\n");
+        buffer = lines.pop()!;
+        lines.filter(Boolean).forEach(line => handleScanEvent(JSON.parse(line)));
+      }
+    } catch {
+      setScanError("Lost connection to the scanner. Please try again.");
+    }
     setLoading(false);
-    setShowResults(true);
   };
 
-  const handleCopy = (text: string) => {
-    navigator.clipboard.writeText(text);
-    setCopySuccess(true);
-    setTimeout(() => setCopySuccess(false), 2000);
+  const handleScanEvent = (event: ScanStreamEvent) => {
+    switch (event.type) {
+      case "started":
+        setCheckRuns(event.checks);
+        setShowResults(true);
+        break;
+      case "check":
+        // Provisional findings; the stored scan below replaces them with the final scoring
+        setCheckRuns(runs => runs.map(r => r.checkId === event.run.checkId ? event.run : r));
+        setFindings(current => [...current.filter(f => f.checkId !== event.run.checkId), ...event.findings]);
+        break;
+      case "stored": {
+        const { id, scan: result } = event.stored;
+        setRiskScore(result.score);
+        setExposure(event.stored.exposure);
+        setFindings(result.findings);
+        setBreakdown(result.breakdown);
+        setCheckRuns(result.checks);
+        setScanned({ id, domain: result.domain, deep: !!result.deep, profile: result.profile });
+        // The scan is still shown, without notes, if they can't be loaded
+        getFindingNotes(result.domain).then(setNotes).catch(() => setNotes({}));
+        break;
+      }
+      case "error":
+        setScanError(event.error);
+        setShowResults(false);
+        break;
+    }
   };
 
-  const generateFix = (issue: string) => {
-    setCopySuccess(false);
-    if (issue.includes("DMARC")) {
-      setSelectedFix({
-        title: "DMARC Implementation Guide",
-        type: "TXT Record",
-        code: `Host: _dmarc\nValue: v=DMARC1; p=none; rua=mailto:admin@${domain}`,
-        explanation: "This record puts your email domain into 'Monitoring Mode'. It does not block any emails yet (so it is safe to install), but it will start sending you reports on who is sending email as your company.",
-        steps: [
-            "Log in to your DNS Provider.",
-            "Go to 'DNS Management'.",
-            "Add a new record: Select 'TXT' as the type.",
-            "Paste '_dmarc' into the Host/Name field.",
-            "Paste the code below into the Value/Content field.",
-            "⚠ IMPORTANT: Change 'admin@...' to the actual IT email address.",
-            "Save. Changes can take up to 48 hours to propagate."
-        ]
-      });
+  const handleReport = async (mode: "download" | "print") => {
+    if (!scanned) return;
+    // Opened before the await so popup blockers still see it as a user action
+    const win = mode === "print" ? window.open("", "_blank") : null;
+    setReportLoading(true);
+    setReportError(null);
+    let report;
+    try {
+      report = await generateReport(scanned.id);
+    } catch {
+      win?.close();
+      setReportError("The report couldn't be generated. Please try again.");
+      return;
+    } finally {
+      setReportLoading(false);
     }
-    else if (issue.includes("SPF")) {
-      setSelectedFix({
-        title: "SPF Record Template",
-        type: "TXT Record",
-        code: `Host: @\nValue: v=spf1 include:_spf.google.com include:spf.protection.outlook.com ~all`,
-        explanation: "This template lists exactly which services are allowed to send email for you. This template authorizes Google and Outlook.",
-        steps: [
-            "Log in to your DNS Provider.",
-            "Go to 'DNS Management'.",
-            "Add a new record: Select 'TXT' as the type.",
-            "Type '@' into the Host/Name field.",
-            "Paste the code below into the Value field.",
-            "⚠ IMPORTANT: If you use Mailchimp or HubSpot, ask IT to add them to this list."
-        ]
-      });
+    if (mode === "print") {
+      // Print the report document itself, not the dashboard; "Save as PDF" gives the PDF
+      if (!win) return;
+      win.document.write(report.html);
+      win.document.close();
+      win.addEventListener("load", () => win.print());
+      return;
     }
+    const url = URL.createObjectURL(new Blob([report.html], { type: "text/html" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = report.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const editNote = (draft: { key: string, status: NoteStatus, text: string } | null) => {
+    setNoteDraft(draft);
+    setNoteErrors([]);
+  };
+
+  const handleSaveNote = async (finding: Finding) => {
+    if (!scanned || !noteDraft) return;
+    let result;
+    try {
+      result = await saveFindingNote({ domain: scanned.domain, findingId: finding.id, subject: finding.subject ?? null, status: noteDraft.status, text: noteDraft.text });
+    } catch {
+      setNoteErrors(["The note couldn't be saved. Please try again."]);
+      return;
+    }
+    setNoteErrors(result.errors);
+    if (result.note) {
+      setNotes(current => ({ ...current, [noteDraft.key]: result.note! }));
+      setNoteDraft(null);
+    }
+  };
+
+  const handleRemoveNote = async (key: string) => {
+    if (!scanned) return;
+    try {
+      await removeFindingNote(scanned.domain, key);
+    } catch {
+      setNoteErrors(["The note couldn't be removed. Please try again."]);
+      return;
+    }
+    setNoteErrors([]);
+    setNotes(current => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+    setNoteDraft(null);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.assign("/login");
+  };
+
+  const handleCopy = (label: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  // Dashboard totals only make sense once the final, stored result is in
+  const finished = !loading && scanned !== null;
+  const completedChecks = checkRuns.filter(r => r.status !== "queued" && r.status !== "running").length;
+  const inconclusive = checkRuns.filter(isInconclusive);
+
+  const issues = failedFindings(findings);
+  const passes = passedFindings(findings);
+  const stack = technologiesFromFindings(findings);
+  const platforms = stack.filter(t => t.category === "cms" || t.category === "ecommerce");
+  const advised = stack.filter(t => cmsAdvice[t.name]);
+  // Version status from the components check, keyed by technology name
+  const componentIssues = (name: string) => issues.filter(f => (f.id === "tech.vulnerable" || f.id === "tech.eol") && f.subject === name);
+  const readiness = assessFramework({ findings, checks: checkRuns }, FRAMEWORKS.find(f => f.id === frameworkId) ?? FRAMEWORKS[0]);
+
+  const fixPlatforms = platformChoice ?? detectPlatforms(findings);
+  const playbook = selectedFix && buildPlaybook(selectedFix, findings, scanned?.domain ?? domain, fixPlatforms);
+
+  const openFix = (finding: Finding) => {
+    setCopied(null);
+    setSelectedFix(finding);
   };
 
   return (
@@ -117,54 +315,144 @@ export default function Home() {
               COLLECTIVE <span className="text-emerald-400">VISION</span>
             </h1>
           </div>
-          {showResults && (
-            <button onClick={() => window.print()} className="text-xs bg-slate-800 hover:bg-slate-700 text-white border border-slate-600 px-4 py-2 rounded flex items-center gap-2 transition">
+          <div className="flex items-center gap-3">
+          {isStaff && <>
+          <Link href="/clients" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Clients</Link>
+          <Link href="/portfolio" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Portfolio</Link>
+          <Link href="/monitoring" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Monitoring</Link>
+          </>}
+          <Link href="/history" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">History</Link>
+          <Link href="/verification" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Verification</Link>
+          {user && hasRole(user, "admin") && <>
+          <Link href="/users" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Users</Link>
+          <Link href="/audit" className="text-xs text-slate-300 hover:text-white px-3 py-2 transition">Audit</Link>
+          </>}
+          {finished && (
+            <button onClick={() => handleReport("print")} disabled={reportLoading} className="text-xs bg-slate-800 hover:bg-slate-700 text-white border border-slate-600 px-4 py-2 rounded flex items-center gap-2 transition">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
               <span className="hidden sm:inline">Export PDF</span>
             </button>
           )}
+          {user && (
+            <div className="text-right border-l border-slate-700 pl-3">
+              <p className="text-xs text-slate-200" title={user.email}>{user.name}</p>
+              <button onClick={handleSignOut} className="text-[11px] text-slate-500 hover:text-white transition">{ROLE_LABELS[user.role]} · Sign out</button>
+            </div>
+          )}
+          </div>
         </div>
       </nav>
 
       <div className="max-w-4xl mx-auto p-8">
         
+        {/* Client users see their organisation's domains instead of the scanner */}
+        {user && !isStaff && (
+          <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 mb-8">
+            <p className="text-xs font-bold text-emerald-400 uppercase mb-4 tracking-wider">{session?.organisations[0]?.name ?? "Your"} Domains</p>
+            {(session?.organisations[0]?.domains.length ?? 0) === 0 ? <p className="text-sm text-slate-500 italic">No domains have been added for your organisation yet.</p> : (
+              <ul className="space-y-2">
+                {session?.organisations[0]?.domains.map((d) => (
+                  <li key={d}><Link href={`/history/${d}`} className="text-sm text-emerald-400 hover:underline">{d} →</Link></li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Input Card */}
+        {isStaff && (
         <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 mb-8 input-card">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="col-span-1 md:col-span-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+            <div className={`col-span-1 ${session!.organisations.length > 0 ? "md:col-span-3" : "md:col-span-5"}`}>
               <label className="block text-xs font-bold text-emerald-400 uppercase mb-2 tracking-wider">Target Domain</label>
-              <input type="text" placeholder="company.com" className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition" value={domain} onChange={(e) => setDomain(e.target.value)} />
+              <input type="text" placeholder="company.com" list="client-domains" className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-white focus:ring-2 focus:ring-emerald-500 outline-none transition" value={domain} onChange={(e) => setDomain(e.target.value)} />
+              <datalist id="client-domains">
+                {(organisation?.domains ?? []).map((d) => <option key={d} value={d} />)}
+              </datalist>
+              <label className={`mt-2 flex items-center gap-2 text-xs ${verified ? "text-slate-300" : "text-slate-500"}`} title={verified ? "Also probe for exposed files, mixed content, outdated scripts and admin logins" : undefined}>
+                <input type="checkbox" className="accent-emerald-500" checked={deep && verified} disabled={!verified} onChange={(e) => setDeep(e.target.checked)} />
+                Deep scan
+                {!verified && <Link href={`/verification${domain ? `?domain=${encodeURIComponent(domain.trim().toLowerCase())}` : ""}`} className="text-slate-400 hover:text-emerald-400 underline">verify ownership to enable</Link>}
+              </label>
+              {scanError && <p className="mt-2 text-xs text-red-400">⚠ {scanError}</p>}
             </div>
+            {session!.organisations.length > 0 && (
+              <div className="col-span-1 md:col-span-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Client</label>
+                <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-white focus:border-emerald-500 outline-none" value={organisation?.id ?? ""} onChange={(e) => { setClientId(e.target.value); setDomain(session!.organisations.find(o => o.id === e.target.value)?.domains[0] ?? ""); }}>
+                  <option value="">No client</option>
+                  {session!.organisations.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+                </select>
+              </div>
+            )}
             <div>
               <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Industry Sector</label>
-              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={industry} onChange={(e) => setIndustry(e.target.value)}>
-                <option value="marketing">Marketing & Advertising</option>
-                <option value="finance">Finance & Legal</option>
-                <option value="retail">Retail & E-commerce</option>
-                <option value="manufacturing">Manufacturing</option>
-                <option value="other">Other Services</option>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none disabled:opacity-60" value={organisation?.industry ?? industry} onChange={(e) => setIndustry(e.target.value)} disabled={!!organisation} title={organisation ? `Set by ${organisation.name}'s profile` : undefined}>
+                {Object.entries(INDUSTRY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
               </select>
             </div>
             <div>
               <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Company Size</label>
-              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={employees} onChange={(e) => setEmployees(Number(e.target.value))}>
-                <option value="5">1 - 10 Employees</option>
-                <option value="25">11 - 50 Employees</option>
-                <option value="100">50+ Employees</option>
+              {organisation ? (
+                <p className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white opacity-60" title={`Set by ${organisation.name}'s profile`}>{organisation.employees} Employees</p>
+              ) : (
+                <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={employees} onChange={(e) => setEmployees(Number(e.target.value))}>
+                  <option value="5">1 - 10 Employees</option>
+                  <option value="25">11 - 50 Employees</option>
+                  <option value="100">50+ Employees</option>
+                </select>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Scoring Profile</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={profile} onChange={(e) => setProfile(e.target.value)} title={SCORING_PROFILES[profile]?.description}>
+                {Object.values(SCORING_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Ports</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={portProfile} onChange={(e) => setPortProfile(e.target.value)} title={PORT_PROFILES[portProfile]?.description}>
+                {Object.values(PORT_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                <option value="custom">Custom</option>
               </select>
+              {portProfile === "custom" && <input type="text" placeholder="22,8080,6379" className="mt-2 w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-sm font-mono text-white focus:border-emerald-500 outline-none" value={customPorts} onChange={(e) => setCustomPorts(e.target.value)} title={`Up to ${MAX_CUSTOM_PORTS} port numbers`} />}
             </div>
             <div className="flex items-end">
               <button onClick={handleScan} disabled={loading} className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 rounded-lg shadow-lg transform active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
-                {loading ? "Initializing Scanner..." : "RUN DIAGNOSTIC"}
+                {loading ? (checkRuns.length > 0 ? `Scanning ${completedChecks}/${checkRuns.length}...` : "Initializing Scanner...") : "RUN DIAGNOSTIC"}
               </button>
             </div>
           </div>
         </div>
+        )}
 
         {/* Results Dashboard */}
         {showResults && (
           <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-            
+
+            {/* Check Progress */}
+            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+              <div className="flex items-baseline justify-between mb-4">
+                <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">{loading ? "Scan in Progress" : "Checks Run"}</p>
+                <p className="text-xs text-slate-500">{completedChecks} / {checkRuns.length} complete</p>
+              </div>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+                {checkRuns.map((run) => (
+                  <li key={run.checkId} className="flex items-baseline justify-between gap-4 text-sm" title={run.error ?? undefined}>
+                    <span className="text-slate-300">{run.name}</span>
+                    <span className="text-right text-[11px] uppercase tracking-wider">
+                      <span className={CHECK_STATUS_STYLES[run.status].className}>{CHECK_STATUS_STYLES[run.status].label}</span>
+                      {run.durationMs !== null && <span className="text-slate-500 font-mono normal-case"> · {(run.durationMs / 1000).toFixed(1)}s</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {!loading && inconclusive.length > 0 && (
+                <p className="mt-4 text-xs text-yellow-500">⚠ {inconclusive.map(r => r.name).join(", ")} could not be completed and {inconclusive.length === 1 ? "is" : "are"} left out of the score. Re-run the scan to include {inconclusive.length === 1 ? "it" : "them"}.</p>
+              )}
+            </div>
+
+            {finished && <>
             {/* Top Metrics Row */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               
@@ -191,33 +479,140 @@ export default function Home() {
                 <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-2">Est. Financial Exposure</p>
                 <div className="flex items-baseline gap-2">
                   <span className="text-4xl font-black text-white">
-                    £{financialLoss.toLocaleString()}
+                    {exposure && formatMoney(exposure.likely, exposure.currency)}
                   </span>
+                  <span className="text-slate-500 text-xs">/ year</span>
                 </div>
+                {exposure && <p className="text-sm text-slate-400 mt-1">Range {formatExposureRange(exposure)}</p>}
                 <p className="text-xs text-slate-500 mt-3 leading-relaxed">
-                  Projected loss based on {industry} industry averages and {issues.length} detected vulnerabilities.
+                  Likely annual loss for a {INDUSTRY_LABELS[exposure?.industry ?? industry]} business with {exposure?.sizeBand}, from the {exposure?.drivers.length ?? 0} issues that add measurable risk.
                 </p>
               </div>
 
-              {/* Card 3: Technology Intelligence (CMS) */}
+              {/* Card 3: Technology Intelligence */}
               <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 flex flex-col justify-between relative">
                 <div>
                   <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mb-2">Technology Intelligence</p>
                   <p className="text-xl font-bold text-white mb-1">
-                    {detectedCMS ? detectedCMS : "Unknown Platform"}
+                    {platforms.length > 0 ? platforms.map(p => p.name).join(" + ") : "Unknown Platform"}
                   </p>
-                  <div className="w-full h-1 bg-slate-700 rounded-full mt-2 overflow-hidden">
-                    <div className="h-full bg-blue-500 w-2/3"></div>
-                  </div>
+                  <ul className="mt-3 space-y-2">
+                    {stack.map((tech) => (
+                      <li key={tech.name} title={tech.signals.join(", ")}>
+                        <div className="flex items-baseline justify-between text-xs">
+                          <span className="text-slate-200 font-medium">{tech.name}{tech.version && <span className="text-slate-400 font-mono"> {tech.version}</span>}</span>
+                          <span className="text-slate-500">{TECH_CATEGORY_LABELS[tech.category]} · {tech.confidence}%</span>
+                        </div>
+                        {componentIssues(tech.name).map((issue) => (
+                          <p key={issue.id} className={`text-[11px] mt-0.5 ${issue.id === "tech.vulnerable" ? "text-red-400" : "text-orange-400"}`}>
+                            {issue.id === "tech.vulnerable"
+                              ? `${(issue.evidence.advisories as string[]).length} known vulnerabilities${issue.evidence.fixedIn ? ` · fixed in ${issue.evidence.fixedIn}` : ""}`
+                              : `End-of-life since ${issue.evidence.eolDate}`}
+                          </p>
+                        ))}
+                        <div className="w-full h-1 bg-slate-700 rounded-full mt-1 overflow-hidden">
+                          <div className="h-full bg-blue-500" style={{ width: `${tech.confidence}%` }}></div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-                <div className="mt-4">
-                  <p className="text-xs text-slate-400 leading-relaxed">
-                    {detectedCMS ? cmsAdvice[detectedCMS] : cmsAdvice["Unknown"]}
-                  </p>
+                <div className="mt-4 space-y-2">
+                  {platforms.length === 0 && <p className="text-xs text-slate-400 leading-relaxed">{cmsAdvice["Unknown"]}</p>}
+                  {advised.map((tech) => (
+                    <p key={tech.name} className="text-xs text-slate-400 leading-relaxed">
+                      {componentIssues(tech.name).length > 0 && <span className="text-red-400 font-medium">Your {tech.name} version needs updating. </span>}
+                      {cmsAdvice[tech.name]}
+                    </p>
+                  ))}
                 </div>
               </div>
             </div>
 
+            {/* Score Breakdown */}
+            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+              <div className="flex items-baseline justify-between mb-4">
+                <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">Score Breakdown</p>
+                {/* The profile the scan was scored with, not whatever the dropdown says now */}
+                {scanned && <p className="text-xs text-slate-500">{SCORING_PROFILES[scanned.profile]?.name ?? scanned.profile} profile</p>}
+              </div>
+              <ul className="space-y-3">
+                {breakdown.map((c) => (
+                  <li key={c.checkId} className="grid grid-cols-[9rem_1fr_5rem] items-center gap-4 text-sm">
+                    <span className="text-slate-300 font-medium">{c.name}</span>
+                    <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div className={`h-full ${c.inconclusive ? 'bg-slate-600' : c.pointsLost > 0 ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${c.pointsAvailable > 0 ? ((c.pointsAvailable - c.pointsLost) / c.pointsAvailable) * 100 : 100}%` }}></div>
+                    </div>
+                    <span className="text-right font-mono text-xs text-slate-400">{c.inconclusive ? "inconclusive" : `${(c.pointsAvailable - c.pointsLost).toFixed(1)} / ${c.pointsAvailable}`}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Exposure Drivers */}
+            {exposure && (
+              <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+                <div className="flex items-baseline justify-between mb-4">
+                  <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">What Drives the Exposure</p>
+                  <p className="text-xs text-slate-500">Risk model v{exposure.modelVersion}</p>
+                </div>
+                {exposure.drivers.length === 0 ? <p className="text-sm text-slate-500 italic">No issue found adds measurable exposure.</p> : (
+                  <ul className="space-y-3">
+                    {exposure.drivers.slice(0, 8).map((d) => (
+                      <li key={`${d.findingId}:${d.subject ?? ""}`} className="grid grid-cols-[1fr_8rem_6rem] items-center gap-4 text-sm" title={exposure.categories.find(c => c.category === d.category)?.rationale}>
+                        <div>
+                          <p className="text-slate-300">{d.title}</p>
+                          <p className="text-[11px] text-slate-500">{CATEGORY_LABELS[d.category]} · {d.severity} · {(d.likelihood * 100).toFixed(1)}% a year</p>
+                        </div>
+                        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-orange-500" style={{ width: `${d.share}%` }}></div>
+                        </div>
+                        <span className="text-right font-mono text-xs text-slate-300">{formatMoney(d.amount, exposure.currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-slate-500 mt-4 leading-relaxed">
+                  A serious breach would cost a business of this sector and size about {formatMoney(exposure.breachCost, exposure.currency)}. Each issue adds an annual chance of an incident in its area (hover for why), weighted by severity and by ×{exposure.riskMultiplier} for how often the sector is targeted.
+                  {exposure.unassessed.length > 0 && <span className="text-yellow-500"> Not priced, as the checks didn&apos;t complete: {exposure.unassessed.join(", ")}.</span>}
+                </p>
+              </div>
+            )}
+
+            {/* Compliance Readiness */}
+            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+              <div className="flex flex-wrap items-baseline justify-between gap-3 mb-4">
+                <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">Compliance Readiness</p>
+                <select className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200" value={readiness.id} onChange={(e) => setFrameworkId(e.target.value)}>
+                  {FRAMEWORKS.map((f) => <option key={f.id} value={f.id}>{f.name}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-baseline gap-x-6 gap-y-2 mb-4 text-sm">
+                <span className="text-3xl font-black text-white">{readiness.readiness === null ? "—" : `${readiness.readiness}%`}</span>
+                {(Object.keys(CONTROL_STATUS_LABELS) as ControlStatus[]).map((status) => (
+                  <span key={status} className="text-slate-400"><span className="font-bold text-slate-200">{readiness.counts[status]}</span> {CONTROL_STATUS_LABELS[status].toLowerCase()}</span>
+                ))}
+              </div>
+              <ul className="space-y-2">
+                {readiness.controls.map((c) => (
+                  <li key={c.id} className="grid grid-cols-[1fr_auto] gap-4 text-sm border-t border-slate-700 pt-2">
+                    <div>
+                      <p className="text-slate-300"><span className="font-mono text-xs text-slate-500">{c.id}</span> {c.title}</p>
+                      <p className="text-[11px] text-slate-500">
+                        {c.status === "failing" ? c.issues.map(i => i.title).join("; ") : c.status === "evidenced" ? c.evidence.join("; ") : c.note}
+                        {c.unassessed.length > 0 && c.status !== "not-assessable" && <span className="text-yellow-500"> · Not checked: {c.unassessed.join(", ")}</span>}
+                      </p>
+                    </div>
+                    <span className={`self-start text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border whitespace-nowrap ${CONTROL_STATUS_STYLES[c.status]}`}>{CONTROL_STATUS_LABELS[c.status]}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-slate-500 mt-4 leading-relaxed">
+                {readiness.description} Readiness is the share of externally assessable controls that are evidenced; controls about internal processes and devices need an on-site or documentary review. It isn&apos;t certification.
+              </p>
+            </div>
+            </>}
+
             {/* Detailed Findings Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               
@@ -228,22 +623,63 @@ export default function Home() {
                     <svg className="w-5 h-5 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                     Security Gaps Detected
                   </h3>
-                  <ul className="space-y-3">
-                    {issues.map((issue, index) => (
-                      <li key={index} className="flex flex-col gap-2 p-3 bg-red-500/10 rounded-lg border border-red-500/20">
-                        <div className="flex items-start gap-3">
-                            <span className="mt-1 w-2 h-2 bg-red-500 rounded-full flex-shrink-0"></span>
-                            <span className="text-sm text-red-200 font-medium">{issue}</span>
-                        </div>
-                        {(issue.includes("DMARC") || issue.includes("SPF")) && (
-                            <button onClick={() => generateFix(issue)} className="ml-5 text-xs bg-red-500/20 hover:bg-red-500/40 text-red-200 py-1 px-3 rounded border border-red-500/30 w-fit transition flex items-center gap-2">
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                                GENERATE DNS FIX
-                            </button>
-                        )}
-                      </li>
-                    ))}
-                  </ul>
+                  {groupByCategory(issues).map((group) => (
+                    <div key={group.category} className="mb-5 last:mb-0">
+                      <h4 className="text-[11px] font-bold uppercase tracking-widest text-slate-400 mb-2">{group.label}</h4>
+                      <ul className="space-y-3">
+                        {group.findings.map((issue) => {
+                          const key = noteKey(issue);
+                          const note = notes[key];
+                          return (
+                          <li key={key} className="flex flex-col gap-2 p-3 bg-red-500/10 rounded-lg border border-red-500/20">
+                            <div className="flex items-start gap-3">
+                                <span className="mt-1 w-2 h-2 bg-red-500 rounded-full flex-shrink-0"></span>
+                                <div className="flex flex-col gap-1">
+                                    <span className="text-sm text-red-200 font-medium">{issue.title}</span>
+                                    <span className="text-[10px] uppercase tracking-wider text-red-400/80">{issue.severity}{issue.scoreImpact > 0 && ` · -${issue.scoreImpact} pts`}{controlsForFinding(issue, readiness.id).length > 0 && ` · ${controlsForFinding(issue, readiness.id).join(", ")}`}</span>
+                                    <EvidenceList evidence={issue.evidence} />
+                                    {note && (
+                                        <div className={`mt-1 text-xs rounded border px-2 py-1 ${NOTE_STYLES[note.status]}`}>
+                                            <span className="font-bold uppercase tracking-wider text-[10px]">{NOTE_STATUS_LABELS[note.status]}</span>
+                                            {note.text && <span className="whitespace-pre-wrap"> · {note.text}</span>}
+                                            <span className="block text-[10px] opacity-70">{note.author}</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="ml-5 flex flex-wrap gap-2">
+                            {issue.remediation && (
+                                <button onClick={() => openFix(issue)} className="text-xs bg-red-500/20 hover:bg-red-500/40 text-red-200 py-1 px-3 rounded border border-red-500/30 w-fit transition flex items-center gap-2">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                                    GENERATE FIX
+                                </button>
+                            )}
+                            {isStaff && finished && noteDraft?.key !== key && (
+                                <button onClick={() => editNote({ key, status: note?.status ?? "in-progress", text: note?.text ?? "" })} className="text-xs bg-slate-700/50 hover:bg-slate-700 text-slate-200 py-1 px-3 rounded border border-slate-600 w-fit transition">
+                                    {note ? "EDIT NOTE" : "ADD NOTE"}
+                                </button>
+                            )}
+                            </div>
+                            {noteDraft?.key === key && (
+                                <div className="ml-5 space-y-2">
+                                    <select value={noteDraft.status} onChange={(e) => setNoteDraft({ ...noteDraft, status: e.target.value as NoteStatus })} className="bg-slate-950 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200">
+                                        {Object.entries(NOTE_STATUS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                    </select>
+                                    <textarea rows={2} value={noteDraft.text} onChange={(e) => setNoteDraft({ ...noteDraft, text: e.target.value })} placeholder="Why, who owns it, when it's due..." className="w-full bg-slate-950 border border-slate-600 rounded p-2 text-xs text-slate-200" />
+                                    <div className="flex gap-3 text-xs">
+                                        <button onClick={() => handleSaveNote(issue)} className="bg-emerald-500 hover:bg-emerald-600 text-white px-3 py-1 rounded transition">Save</button>
+                                        {note && <button onClick={() => handleRemoveNote(key)} className="text-red-400 hover:text-red-300">Remove</button>}
+                                        <button onClick={() => editNote(null)} className="text-slate-400 hover:text-white">Cancel</button>
+                                    </div>
+                                    {noteErrors.map((error) => <p key={error} className="text-xs text-red-400">⚠ {error}</p>)}
+                                </div>
+                            )}
+                          </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -254,14 +690,22 @@ export default function Home() {
                   Secured Perimeters
                 </h3>
                 {passes.length > 0 ? (
-                  <ul className="space-y-3">
-                    {passes.map((pass, index) => (
-                      <li key={index} className="flex items-start gap-3 p-3 bg-emerald-500/10 rounded-lg border border-emerald-500/20">
-                        <span className="mt-1 w-2 h-2 bg-emerald-500 rounded-full flex-shrink-0"></span>
-                        <span className="text-sm text-emerald-100 font-medium">{pass}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  groupByCategory(passes).map((group) => (
+                    <div key={group.category} className="mb-5 last:mb-0">
+                      <h4 className="text-[11px] font-bold uppercase tracking-widest text-slate-400 mb-2">{group.label}</h4>
+                      <ul className="space-y-3">
+                        {group.findings.map((pass) => (
+                          <li key={`${pass.id}:${pass.subject ?? ""}`} className="flex items-start gap-3 p-3 bg-emerald-500/10 rounded-lg border border-emerald-500/20">
+                            <span className="mt-1 w-2 h-2 bg-emerald-500 rounded-full flex-shrink-0"></span>
+                            <div className="flex flex-col gap-1">
+                              <span className="text-sm text-emerald-100 font-medium">{pass.title}</span>
+                              <EvidenceList evidence={pass.evidence} />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
                 ) : (
                   <p className="text-slate-500 text-sm italic">No secured assets detected yet.</p>
                 )}
@@ -269,41 +713,88 @@ export default function Home() {
             </div>
 
             {/* REMEDIATION BOX */}
-            {selectedFix && (
+            {playbook && (
                 <div className="bg-slate-800 rounded-xl border border-slate-600 p-6 shadow-2xl animate-in fade-in slide-in-from-bottom-2 scroll-mt-6" id="fix-box">
                     <div className="flex justify-between items-start mb-4 border-b border-slate-700 pb-4">
                         <div>
-                            <h3 className="text-emerald-400 font-bold text-lg">{selectedFix.title}</h3>
-                            <p className="text-slate-400 text-sm mt-1">{selectedFix.explanation}</p>
+                            <h3 className="text-emerald-400 font-bold text-lg">{playbook.title}</h3>
+                            <p className="text-slate-400 text-sm mt-1">{playbook.summary}</p>
                         </div>
                         <button onClick={() => setSelectedFix(null)} className="text-slate-500 hover:text-white p-2">✕</button>
                     </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <div>
-                            <p className="text-xs font-bold text-slate-500 uppercase mb-2">Configuration Record</p>
-                            <div className="bg-slate-950 p-4 rounded-lg border border-slate-700 font-mono text-sm text-emerald-300 break-all relative group">
-                                {selectedFix.code}
-                                <button onClick={() => handleCopy(selectedFix.code)} className={`absolute top-2 right-2 text-xs px-2 py-1 rounded transition font-bold border ${copySuccess ? "bg-emerald-500 text-white border-emerald-500" : "bg-slate-800 text-white border-slate-600 opacity-0 group-hover:opacity-100"}`}>
-                                    {copySuccess ? "Copied! ✓" : "Copy"}
-                                </button>
-                            </div>
-                            {selectedFix.title.includes("DMARC") && <p className="text-xs text-yellow-500 mt-2">⚠ <strong>Action Required:</strong> Change <strong>admin@{domain}</strong> to a valid email.</p>}
-                            {selectedFix.title.includes("SPF") && <p className="text-xs text-yellow-500 mt-2">⚠ Note: Add any other email services (Mailchimp/HubSpot) before saving.</p>}
+                    {playbook.uses.length > 0 && (
+                        <div className="flex flex-wrap gap-4 mb-6">
+                            {playbook.uses.includes("dns") && (
+                                <label className="text-xs text-slate-400 flex items-center gap-2">DNS host
+                                    <select value={fixPlatforms.dnsProvider} onChange={(e) => setPlatformChoice({ ...fixPlatforms, dnsProvider: e.target.value as DnsProvider })} className="bg-slate-950 border border-slate-600 rounded px-2 py-1 text-slate-200">
+                                        {Object.entries(DNS_PROVIDER_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                            {playbook.uses.includes("web") && (
+                                <label className="text-xs text-slate-400 flex items-center gap-2">Web server
+                                    <select value={fixPlatforms.webServer} onChange={(e) => setPlatformChoice({ ...fixPlatforms, webServer: e.target.value as WebServer })} className="bg-slate-950 border border-slate-600 rounded px-2 py-1 text-slate-200">
+                                        {Object.entries(WEB_SERVER_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                                    </select>
+                                </label>
+                            )}
                         </div>
+                    )}
+                    {playbook.stages.length > 0 && (
+                        <div className="mb-6">
+                            <p className="text-xs font-bold text-slate-500 uppercase mb-2">Rollout</p>
+                            <ol className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                                {playbook.stages.map((stage, i) => (
+                                    <li key={stage.title} className={`p-3 rounded-lg border text-xs ${stage.status === "current" ? "border-emerald-500 bg-emerald-500/10" : "border-slate-700 bg-slate-900/50"}`}>
+                                        <p className={`font-bold ${stage.status === "done" ? "text-slate-500 line-through" : "text-slate-200"}`}>{i + 1}. {stage.title}</p>
+                                        <p className="text-slate-500 mt-1">{stage.status === "current" ? "Publish now" : stage.duration}</p>
+                                        <p className="font-mono text-[10px] text-slate-400 mt-2 break-all">{stage.value}</p>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div>
                             <p className="text-xs font-bold text-slate-500 uppercase mb-2">Implementation Steps</p>
-                            <ol className="list-decimal pl-4 space-y-2 text-sm text-slate-300">{selectedFix.steps.map((step, i) => <li key={i}>{step}</li>)}</ol>
+                            <ol className="list-decimal pl-4 space-y-2 text-sm text-slate-300">{playbook.steps.map((step, i) => <li key={i}>{step}</li>)}</ol>
+                            {playbook.warnings.map((warning, i) => <p key={i} className="text-xs text-yellow-500 mt-2">⚠ {warning}</p>)}
+                        </div>
+                        <div className="space-y-4">
+                            {playbook.snippets.map((snippet, i) => (
+                                <div key={i}>
+                                    <p className="text-xs font-bold text-slate-500 uppercase mb-2">{snippet.label}</p>
+                                    <div className="bg-slate-950 p-4 rounded-lg border border-slate-700 relative group">
+                                        <pre className="font-mono text-xs text-emerald-300 whitespace-pre-wrap break-all">{snippet.code}</pre>
+                                        <button onClick={() => handleCopy(`${i}:${snippet.label}`, snippet.code)} className={`absolute top-2 right-2 text-xs px-2 py-1 rounded transition font-bold border ${copied === `${i}:${snippet.label}` ? "bg-emerald-500 text-white border-emerald-500" : "bg-slate-800 text-white border-slate-600 opacity-0 group-hover:opacity-100"}`}>
+                                            {copied === `${i}:${snippet.label}` ? "Copied! ✓" : "Copy"}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
                         </div>
                     </div>
                 </div>
             )}
 
             {/* Footer */}
+            {finished && (
             <div className="bg-gradient-to-r from-slate-800 to-slate-900 border border-slate-700 rounded-xl p-8 text-center">
               <h3 className="text-xl font-bold text-white mb-2">Full Security Audit Available</h3>
-              <p className="text-slate-400 text-sm max-w-2xl mx-auto mb-6">This report represents a non-intrusive external scan. Deep inspection requires authorization.</p>
-              <button className="bg-emerald-500 hover:bg-emerald-600 text-white px-8 py-3 rounded-full font-bold shadow-lg shadow-emerald-500/20 transition">Generate Full Client Report</button>
+              {scanned?.deep ? (
+                <p className="text-slate-400 text-sm max-w-2xl mx-auto mb-6">This report includes the deep checks authorised by the owner&apos;s verification of {scanned.domain}.</p>
+              ) : (
+                <p className="text-slate-400 text-sm max-w-2xl mx-auto mb-6">This report represents a non-intrusive external scan. Deep inspection requires the owner to <Link href={`/verification${scanned ? `?domain=${scanned.domain}` : ""}`} className="text-emerald-400 hover:underline">verify control of the domain</Link>.</p>
+              )}
+              <button onClick={() => handleReport("download")} disabled={reportLoading} className="bg-emerald-500 hover:bg-emerald-600 text-white px-8 py-3 rounded-full font-bold shadow-lg shadow-emerald-500/20 transition disabled:opacity-50">
+                {reportLoading ? "Preparing Report..." : "Generate Full Client Report"}
+              </button>
+              {reportError && <p className="mt-3 text-xs text-red-400">⚠ {reportError}</p>}
+              {scanned && (
+                <Link href={`/history/${scanned.domain}`} className="block mt-4 text-xs text-slate-400 hover:text-emerald-400 transition">View score history for {scanned.domain} →</Link>
+              )}
             </div>
+            )}
             
           </div>
         )}
@@ -0,0 +1,1066 @@
+// app/playbooks.ts
+// Step-by-step fixes for every remediation key, written for the client's DNS host and web server and
+// seeded from what the scan found (MX hosts, existing records, header values). Pure functions of the
+// findings with no Node imports, so the dashboard builds them in the browser.
+import { caaDomainsForIssuer } from './certificateAuthorities';
+import type { Finding, RemediationKey } from './findings';
+import { REMEDIATION_GUIDES } from './remediation';
+import { technologiesFromFindings } from './technologies';
+
+export type DnsProvider = "cloudflare" | "route53" | "godaddy" | "generic";
+export type WebServer = "nginx" | "apache" | "iis" | "cloudflare" | "generic";
+
+export const DNS_PROVIDER_LABELS: Record<DnsProvider, string> = {
+  cloudflare: "Cloudflare",
+  route53: "Amazon Route 53",
+  godaddy: "GoDaddy",
+  generic: "Other DNS host",
+};
+
+export const WEB_SERVER_LABELS: Record<WebServer, string> = {
+  nginx: "nginx",
+  apache: "Apache",
+  iis: "Microsoft IIS",
+  cloudflare: "Cloudflare rules",
+  generic: "Other web server",
+};
+
+export interface Platforms {
+  dnsProvider: DnsProvider;
+  webServer: WebServer;
+}
+
+export interface PlaybookSnippet {
+  label: string;
+  code: string;
+}
+
+// One step of a staged rollout, such as DMARC from p=none to p=reject
+export interface PlaybookStage {
+  title: string;
+  duration: string;
+  value: string;
+  status: "done" | "current" | "next";
+}
+
+export interface Playbook {
+  key: RemediationKey;
+  title: string;
+  summary: string;
+  // Which platform choices change the instructions, so the UI only offers those
+  uses: ("dns" | "web")[];
+  steps: string[];
+  snippets: PlaybookSnippet[];
+  stages: PlaybookStage[];
+  warnings: string[];
+}
+
+type PlaybookBody = Partial<Omit<Playbook, "key" | "title" | "summary">>;
+
+interface PlaybookContext extends Platforms {
+  domain: string;
+  finding: Finding;
+  findings: Finding[];
+}
+
+// --- HELPER: EVIDENCE ---
+const evidenceOf = (findings: Finding[], prefix: string, key: string) =>
+  findings.filter(f => f.id.startsWith(prefix)).map(f => f.evidence[key]).find(v => v !== undefined && v !== null);
+
+const asList = (value: unknown) => Array.isArray(value) ? value.map(String) : typeof value === "string" ? [value] : [];
+
+// MX evidence is "10 mx.example.com" on the MX finding and bare hostnames on the SPF one
+function mxHosts(findings: Finding[]) {
+  const hosts = asList(evidenceOf(findings, "email.mx.present", "mx") ?? evidenceOf(findings, "email.spf.", "mx"));
+  return [...new Set(hosts.map(h => h.trim().split(/\s+/).pop()!.toLowerCase().replace(/\.$/, "")))].filter(Boolean);
+}
+
+// --- PLATFORM DETECTION ---
+const NAMESERVER_PROVIDERS: { provider: DnsProvider, pattern: RegExp }[] = [
+  { provider: "cloudflare", pattern: /\.ns\.cloudflare\.com\.?$/i },
+  { provider: "route53", pattern: /\.awsdns-\d+\./i },
+  { provider: "godaddy", pattern: /\.domaincontrol\.com\.?$/i },
+];
+
+// The origin server when the headers give it away; Cloudflare only when it hides the origin
+const WEB_SERVER_TECHNOLOGIES: { server: WebServer, technology: string }[] = [
+  { server: "nginx", technology: "Nginx" },
+  { server: "apache", technology: "Apache" },
+  { server: "apache", technology: "LiteSpeed" },
+  { server: "iis", technology: "Microsoft IIS" },
+  { server: "cloudflare", technology: "Cloudflare" },
+];
+
+export function detectPlatforms(findings: Finding[]): Platforms {
+  const nameservers = asList(evidenceOf(findings, "dns.ns.", "nameservers"));
+  const stack = technologiesFromFindings(findings).map(t => t.name);
+  return {
+    dnsProvider: NAMESERVER_PROVIDERS.find(p => nameservers.some(ns => p.pattern.test(ns)))?.provider ?? "generic",
+    webServer: WEB_SERVER_TECHNOLOGIES.find(w => stack.includes(w.technology))?.server ?? "generic",
+  };
+}
+
+// --- HELPER: DNS CHANGES ---
+// `name` is relative to the zone; "@" is the domain itself
+interface DnsRecord {
+  type: "TXT" | "CAA" | "CNAME" | "A";
+  name: string;
+  value: string;
+}
+
+type DnsAction = "add" | "replace" | "delete";
+
+const fqdn = (domain: string, name: string) => name === "@" ? domain : `${name}.${domain}`;
+
+// TXT strings are limited to 255 characters; longer values are split into several quoted strings
+const quoteTxt = (value: string) => (value.match(/.{1,255}/g) ?? [""]).map(part => `"${part.replace(/"/g, '\\"')}"`).join(" ");
+
+const zoneValue = (record: DnsRecord) => record.type === "TXT" ? quoteTxt(record.value) : record.value;
+
+function cloudflareApiBody(domain: string, record: DnsRecord) {
+  const body: Record<string, unknown> = { type: record.type, name: fqdn(domain, record.name), ttl: 1 };
+  if (record.type === "CAA") {
+    const [flags, tag, value] = record.value.match(/^(\d+)\s+(\S+)\s+"(.*)"$/)!.slice(1);
+    body.data = { flags: Number(flags), tag, value };
+  } else {
+    body.content = record.value;
+  }
+  return JSON.stringify(body);
+}
+
+function route53ChangeBatch(domain: string, action: DnsAction, records: DnsRecord[]) {
+  // Route 53 keeps one record set per name and type, holding every value
+  const sets = [...new Set(records.map(r => `${r.type} ${r.name}`))].map(key => records.filter(r => `${r.type} ${r.name}` === key));
+  return JSON.stringify({
+    Changes: sets.map(set => ({
+      Action: action === "delete" ? "DELETE" : "UPSERT",
+      ResourceRecordSet: {
+        Name: `${fqdn(domain, set[0].name)}.`,
+        Type: set[0].type,
+        TTL: 300,
+        ResourceRecords: set.map(r => ({ Value: zoneValue(r) })),
+      },
+    })),
+  }, null, 2);
+}
+
+function dnsChange(ctx: PlaybookContext, action: DnsAction, records: DnsRecord[]): Required<Pick<Playbook, "steps" | "snippets" | "warnings">> {
+  const { domain, dnsProvider } = ctx;
+  const describe = (r: DnsRecord) => `${r.type} record named ${r.name === "@" ? "@ (the domain itself)" : r.name}`;
+  const fields = records.map(r => `Type: ${r.type}\nName: ${r.name}\nValue: ${r.value}`).join("\n\n");
+  const zone = records.map(r => `${fqdn(domain, r.name)}. 300 IN ${r.type} ${zoneValue(r)}`).join("\n");
+  const perRecord = (add: string, replace: string, remove: string) => records.map(r => (action === "add" ? add : action === "replace" ? replace : remove).replace("{record}", describe(r)));
+
+  switch (dnsProvider) {
+    case "cloudflare":
+      return {
+        steps: [
+          `In the Cloudflare dashboard, open ${domain} and go to DNS → Records.`,
+          ...perRecord(
+            "Click Add record and create a {record} with the value below. Leave TTL on Auto.",
+            "Find the existing {record}, click Edit and replace its content with the value below.",
+            "Find the {record} and delete it."),
+        ],
+        snippets: [
+          { label: action === "delete" ? "Record to delete" : "Record", code: fields },
+          ...(action === "delete" ? [] : records.map(r => ({
+            label: "Cloudflare API",
+            code: `curl -X ${action === "add" ? "POST" : "PUT"} "https://api.cloudflare.com/client/v4/zones/$ZONE_ID/dns_records${action === "add" ? "" : "/$RECORD_ID"}" \\\n  -H "Authorization: Bearer $CF_API_TOKEN" -H "Content-Type: application/json" \\\n  --data '${cloudflareApiBody(domain, r)}'`,
+          }))),
+        ],
+        warnings: [],
+      };
+    case "route53":
+      return {
+        steps: [
+          `In the Route 53 console, open Hosted zones → ${domain}.`,
+          ...perRecord(
+            "Click Create record and add a {record}. Put TXT values in double quotes, as shown in the zone line below.",
+            "Select the {record}, click Edit record and replace the value with the one below.",
+            "Select the {record} and delete it."),
+          "Or apply the change batch below with the AWS CLI.",
+        ],
+        snippets: [
+          { label: "change-batch.json", code: route53ChangeBatch(domain, action, records) },
+          { label: "AWS CLI", code: "aws route53 change-resource-record-sets --hosted-zone-id $ZONE_ID --change-batch file://change-batch.json" },
+          { label: "Zone file", code: zone },
+        ],
+        warnings: action === "delete"
+          ? ["DELETE must match the record's current TTL and values exactly; adjust them to what the console shows."]
+          : ["UPSERT replaces every value of that type at the name. If other TXT values live there (such as site verification tokens), add them to ResourceRecords too."],
+      };
+    case "godaddy":
+      return {
+        steps: [
+          `Sign in to GoDaddy, open My Products → ${domain} → DNS → DNS Records.`,
+          ...perRecord(
+            "Click Add New Record and create a {record} with the value below.",
+            "Click the pencil icon next to the {record} and replace its value with the one below.",
+            "Click the bin icon next to the {record} to delete it."),
+          "Save. GoDaddy usually publishes changes within an hour.",
+        ],
+        snippets: [{ label: action === "delete" ? "Record to delete" : "Record", code: fields }],
+        warnings: [],
+      };
+    default:
+      return {
+        steps: [
+          "Sign in to the service that hosts DNS for the domain (often the registrar or hosting provider) and open its DNS records.",
+          ...perRecord(
+            "Add a {record} with the value below.",
+            "Edit the existing {record} and replace its value with the one below.",
+            "Delete the {record}."),
+          "Changes can take up to the record's TTL (often an hour) to be seen everywhere.",
+        ],
+        snippets: [
+          { label: action === "delete" ? "Record to delete" : "Record", code: fields },
+          { label: "Zone file (BIND)", code: zone },
+        ],
+        warnings: [],
+      };
+  }
+}
+
+// --- HELPER: WEB SERVER CONFIG ---
+interface HeaderChange {
+  set?: { name: string, value: string }[];
+  remove?: string[];
+}
+
+const escapeQuotes = (value: string) => value.replace(/"/g, '\\"');
+const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+function headerChange(ctx: PlaybookContext, { set = [], remove = [] }: HeaderChange): Required<Pick<Playbook, "steps" | "snippets" | "warnings">> {
+  switch (ctx.webServer) {
+    case "nginx":
+      return {
+        steps: [
+          `Add the lines below to the server block for ${ctx.domain} (or to the http block to cover every site).`,
+          "Test and reload: sudo nginx -t && sudo systemctl reload nginx",
+        ],
+        snippets: [{ label: "nginx", code: [
+          ...set.map(h => `add_header ${h.name} "${escapeQuotes(h.value)}" always;`),
+          ...(remove.length > 0 ? ["server_tokens off;", ...remove.filter(h => h.toLowerCase() !== "server").map(h => `proxy_hide_header ${h};\nfastcgi_hide_header ${h};`)] : []),
+        ].join("\n") }],
+        warnings: set.length > 0 ? ["nginx drops inherited add_header lines in any block that sets its own, so repeat these in location blocks that use add_header."] : [],
+      };
+    case "apache":
+      return {
+        steps: [
+          "Enable mod_headers if it isn't already: sudo a2enmod headers",
+          `Add the lines below to the VirtualHost for ${ctx.domain}, or to .htaccess on shared hosting.`,
+          "Test and reload: sudo apachectl configtest && sudo systemctl reload apache2",
+        ],
+        snippets: [{ label: "Apache", code: [
+          ...set.map(h => `Header always set ${h.name} "${escapeQuotes(h.value)}"`),
+          ...(remove.length > 0 ? ["# ServerTokens and ServerSignature belong in the main server config", "ServerTokens Prod", "ServerSignature Off", ...remove.filter(h => h.toLowerCase() !== "server").map(h => `Header always unset ${h}`)] : []),
+        ].join("\n") }],
+        warnings: [],
+      };
+    case "iis":
+      return {
+        steps: [
+          "Add the settings below to web.config in the site root, merging with any existing system.webServer section.",
+          "Or set them in IIS Manager → the site → HTTP Response Headers.",
+        ],
+        snippets: [{ label: "web.config", code: [
+          "<configuration>",
+          "  <system.webServer>",
+          ...(remove.some(h => h.toLowerCase() === "server") ? ["    <security>", "      <requestFiltering removeServerHeader=\"true\" />", "    </security>"] : []),
+          "    <httpProtocol>",
+          "      <customHeaders>",
+          ...remove.filter(h => h.toLowerCase() !== "server").map(h => `        <remove name="${escapeXml(h)}" />`),
+          ...set.map(h => `        <add name="${escapeXml(h.name)}" value="${escapeXml(h.value)}" />`),
+          "      </customHeaders>",
+          "    </httpProtocol>",
+          "  </system.webServer>",
+          "</configuration>",
+        ].join("\n") }],
+        warnings: remove.some(h => /aspnet/i.test(h)) ? ["X-AspNet-Version is removed with <httpRuntime enableVersionHeader=\"false\" /> under system.web."] : [],
+      };
+    case "cloudflare":
+      return {
+        steps: [
+          `In the Cloudflare dashboard, open ${ctx.domain} and go to Rules → Transform Rules → Modify Response Header.`,
+          "Create a rule that applies to all incoming requests.",
+          ...set.map(h => `Add an action: Set static, header name ${h.name}, value as below.`),
+          ...remove.map(h => `Add an action: Remove, header name ${h}.`),
+          "Deploy the rule.",
+        ],
+        snippets: set.length > 0 ? [{ label: "Headers", code: set.map(h => `${h.name}: ${h.value}`).join("\n") }] : [],
+        warnings: remove.some(h => h.toLowerCase() === "server") ? ["Cloudflare always sends its own Server: cloudflare header; what matters is that the origin's version no longer appears."] : [],
+      };
+    default:
+      return {
+        steps: [
+          "Configure the web server, CDN or application framework to send these headers on every HTML response.",
+          ...(remove.length > 0 ? [`Stop sending ${remove.join(", ")}, or strip the version numbers from them.`] : []),
+        ],
+        snippets: set.length > 0 ? [{ label: "Headers", code: set.map(h => `${h.name}: ${h.value}`).join("\n") }] : [],
+        warnings: [],
+      };
+  }
+}
+
+// --- SPF BUILDER ---
+// Mail providers recognised from MX hostnames, with the include their own documentation gives
+const MAIL_PROVIDERS: { name: string, mx: RegExp, spf: string }[] = [
+  { name: "Google Workspace", mx: /(^|\.)(google|googlemail)\.com$/, spf: "include:_spf.google.com" },
+  { name: "Microsoft 365", mx: /\.mail\.protection\.outlook\.com$/, spf: "include:spf.protection.outlook.com" },
+  { name: "Zoho Mail", mx: /(^|\.)zoho\.com$/, spf: "include:zohomail.com" },
+  { name: "Zoho Mail (EU)", mx: /(^|\.)zoho\.eu$/, spf: "include:zohomail.eu" },
+  { name: "Fastmail", mx: /(^|\.)messagingengine\.com$/, spf: "include:spf.messagingengine.com" },
+  { name: "Proton Mail", mx: /(^|\.)protonmail\.ch$/, spf: "include:_spf.protonmail.ch" },
+  { name: "GoDaddy Email", mx: /(^|\.)secureserver\.net$/, spf: "include:secureserver.net" },
+];
+
+const LOOKUP_MECHANISMS = /^[+\-~?]?(include|a|mx|ptr|exists|redirect)\b/i;
+
+export interface SpfPlan {
+  record: string;
+  // Why each term is there
+  terms: { term: string, reason: string }[];
+  // Top-level lookups; includes may add more of their own
+  lookups: number;
+}
+
+export function buildSpfRecord(mx: string[], existing: string[]): SpfPlan {
+  const terms: SpfPlan["terms"] = [];
+  const add = (term: string, reason: string) => {
+    if (!terms.some(t => t.term.toLowerCase() === term.toLowerCase())) terms.push({ term, reason });
+  };
+
+  const providers = MAIL_PROVIDERS.filter(p => mx.some(host => p.mx.test(host)));
+  providers.forEach(p => add(p.spf, `Your MX records point at ${p.name}`));
+  const unknownMx = mx.filter(host => !providers.some(p => p.mx.test(host)));
+  if (unknownMx.length > 0) add("mx", `Your own mail servers (${unknownMx.join(", ")}) may also send`);
+
+  // Everything the current record(s) authorise is kept, minus the parts that make SPF unsafe or broken
+  existing.forEach(record => {
+    const recordTerms = record.trim().split(/\s+/).slice(1);
+    recordTerms.forEach(term => {
+      const bare = term.replace(/^\+/, "");
+      if (/^[+\-~?]?all$/i.test(term) || /^redirect=/i.test(term) || /^exp=/i.test(term)) return;
+      if (/^[+\-~?]?ptr\b/i.test(term)) return;
+      add(bare, "Already in your SPF record");
+    });
+    // A redirect only applies when the record has no "all" (RFC 7208 6.1). The new record ends in -all, so
+    // its target becomes an include, or every sender it authorises would be rejected.
+    const redirect = recordTerms.find(term => /^redirect=/i.test(term));
+    if (redirect && !recordTerms.some(term => /^[+\-~?]?all$/i.test(term))) add(`include:${redirect.slice(9)}`, "Your SPF record redirected here");
+  });
+
+  if (terms.length === 0) add("mx", "No mail provider was recognised; authorise the domain's MX hosts");
+  return {
+    record: `v=spf1 ${terms.map(t => t.term).join(" ")} -all`,
+    terms: [...terms, { term: "-all", reason: "Reject mail from anything not listed" }],
+    lookups: terms.filter(t => LOOKUP_MECHANISMS.test(t.term)).length,
+  };
+}
+
+// --- DMARC ROLLOUT ---
+const DMARC_STAGES: { title: string, duration: string, tags: string }[] = [
+  { title: "Monitor", duration: "2-4 weeks", tags: "p=none" },
+  { title: "Quarantine a quarter of failing mail", duration: "1-2 weeks", tags: "p=quarantine; pct=25" },
+  { title: "Quarantine all failing mail", duration: "2 weeks", tags: "p=quarantine" },
+  { title: "Reject", duration: "Ongoing", tags: "p=reject; sp=reject" },
+];
+
+// Index of the first stage still to publish, judged from the current record's evidence
+function dmarcStage(policy: string | null, pct: number) {
+  if (policy === "none") return 1;
+  if (policy === "quarantine") return pct < 100 ? 2 : 3;
+  if (policy === "reject") return 3;
+  return 0;
+}
+
+export function planDmarcRollout(domain: string, findings: Finding[]): PlaybookStage[] {
+  const policy = (evidenceOf(findings, "email.dmarc.", "policy") as string | undefined)?.toLowerCase() ?? null;
+  const pct = Number(evidenceOf(findings, "email.dmarc.", "pct") ?? 100);
+  const subdomainPolicy = (evidenceOf(findings, "email.dmarc.", "subdomainPolicy") as string | undefined) ?? null;
+  const rua = (evidenceOf(findings, "email.dmarc.", "rua") as string | undefined) ?? `mailto:dmarc-reports@${domain}`;
+  const ruf = evidenceOf(findings, "email.dmarc.", "ruf") as string | undefined;
+  const current = dmarcStage(policy, pct);
+  // A record already at p=reject only needs its remaining gaps (sp, rua, pct) closed
+  const finished = policy === "reject" && pct >= 100 && subdomainPolicy === "reject" && findings.every(f => f.id !== "email.dmarc.no-reporting");
+  return DMARC_STAGES.map((stage, i) => ({
+    title: stage.title,
+    duration: stage.duration,
+    value: `v=DMARC1; ${stage.tags}; rua=${rua}${ruf ? `; ruf=${ruf}` : ""}`,
+    status: finished || i < current ? "done" : i === current ? "current" : "next",
+  }));
+}
+
+// --- PLAYBOOKS ---
+const EXPOSED_SERVICE_CONFIG: Record<string, PlaybookSnippet> = {
+  "Redis": { label: "redis.conf", code: "bind 127.0.0.1 ::1\nprotected-mode yes\nrequirepass <long random password>" },
+  "MySQL": { label: "my.cnf, [mysqld] section", code: "bind-address = 127.0.0.1" },
+  "PostgreSQL": { label: "postgresql.conf", code: "listen_addresses = 'localhost'" },
+  "MongoDB": { label: "mongod.conf", code: "net:\n  bindIp: 127.0.0.1\nsecurity:\n  authorization: enabled" },
+  "Elasticsearch": { label: "elasticsearch.yml", code: "network.host: 127.0.0.1\nxpack.security.enabled: true" },
+  "Memcached": { label: "/etc/memcached.conf", code: "-l 127.0.0.1\n-U 0" },
+  "Docker API": { label: "/etc/docker/daemon.json", code: "{\n  \"hosts\": [\"unix:///var/run/docker.sock\"]\n}" },
+  "SSH": { label: "sshd_config, if SSH must stay public", code: "PasswordAuthentication no\nPermitRootLogin no" },
+  "VNC": { label: "VNC server", code: "# Listen on localhost only and connect through an SSH tunnel:\nvncserver -localhost yes\nssh -L 5901:localhost:5901 user@server" },
+  "Telnet": { label: "Disable Telnet", code: "sudo systemctl disable --now telnet.socket" },
+};
+
+const TLS_CIPHERS = "ECDHE-ECDSA-AES128-GCM-SHA256:ECDHE-RSA-AES128-GCM-SHA256:ECDHE-ECDSA-AES256-GCM-SHA384:ECDHE-RSA-AES256-GCM-SHA384:ECDHE-ECDSA-CHACHA20-POLY1305:ECDHE-RSA-CHACHA20-POLY1305";
+
+const STARTER_CSP = "default-src 'self'; script-src 'self'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; font-src 'self' data:; connect-src 'self'; object-src 'none'; base-uri 'self'; form-action 'self'; frame-ancestors 'self'";
+
+// Tightens an existing policy for the weakness found; what the site really needs still has to come from reports
+function reviseCsp(policy: string, findingId: string) {
+  const directives = policy.split(";").map(d => d.trim().split(/\s+/)).filter(d => d[0]);
+  const find = (name: string) => directives.find(d => d[0].toLowerCase() === name);
+  const scriptSrc = find("script-src") ?? find("default-src");
+  if (findingId === "web.csp.no-default-src" && !find("default-src")) directives.unshift(["default-src", "'self'"]);
+  if (findingId === "web.csp.unsafe-eval" && scriptSrc) scriptSrc.splice(0, scriptSrc.length, ...scriptSrc.filter(s => s !== "'unsafe-eval'"));
+  if (findingId === "web.csp.unsafe-inline" && scriptSrc) scriptSrc.splice(0, scriptSrc.length, ...scriptSrc.filter(s => s !== "'unsafe-inline'"), "'nonce-{RANDOM}'", "'strict-dynamic'");
+  if (findingId === "web.csp.wildcard") {
+    if (scriptSrc) scriptSrc.splice(0, scriptSrc.length, ...scriptSrc.filter(s => !["*", "https:", "http:", "data:"].includes(s)));
+    else directives.unshift(["default-src", "'self'"]);
+    if (!find("object-src")) directives.push(["object-src", "'none'"]);
+  }
+  return directives.map(d => d.length === 1 ? `${d[0]} 'none'` : d.join(" ")).join("; ");
+}
+
+const PLAYBOOKS: Record<RemediationKey, (ctx: PlaybookContext) => PlaybookBody> = {
+  "close-port": ({ finding }) => {
+    const port = Number(finding.evidence.port ?? finding.subject);
+    const service = String(finding.evidence.service ?? "the service");
+    const config = EXPOSED_SERVICE_CONFIG[service] ?? (finding.evidence.product === "MariaDB" ? EXPOSED_SERVICE_CONFIG.MySQL : undefined);
+    return {
+      steps: [
+        `Confirm whether ${service} on port ${port} needs to be reachable from the internet at all. It almost never does.`,
+        `Block inbound TCP ${port} from the internet on the host firewall and on any cloud security group or hosting firewall in front of it.`,
+        ...(config ? [`Also make ${service} listen only on localhost or the private network (${config.label}), then restart it.`] : []),
+        "Give administrators access over a VPN, SSH tunnel or zero-trust gateway instead.",
+        "Run the scan again to confirm the port is closed.",
+      ],
+      snippets: [
+        { label: "Linux (ufw)", code: `sudo ufw deny ${port}/tcp` },
+        { label: "Windows Firewall (PowerShell)", code: `New-NetFirewallRule -DisplayName "Block ${service} ${port}" -Direction Inbound -Protocol TCP -LocalPort ${port} -Action Block` },
+        { label: "AWS security group", code: `aws ec2 revoke-security-group-ingress --group-id <sg-id> --protocol tcp --port ${port} --cidr 0.0.0.0/0` },
+        ...(config ? [config] : []),
+      ],
+      warnings: service === "Docker API" ? ["An open Docker API gives full control of the host. Treat it as compromised and check for unknown containers."] : [],
+    };
+  },
+
+  "tls-certificate": ctx => {
+    const { domain, finding } = ctx;
+    const names = `-d ${domain} -d www.${domain}`;
+    const keyType = finding.id === "tls.key.weak" || finding.id === "tls.signature.weak" ? " --key-type ecdsa" : "";
+    const warnings = finding.id === "tls.chain.untrusted" ? ["Install the full chain (fullchain.pem), not just the site certificate; missing intermediates are the usual cause."] : [];
+    switch (ctx.webServer) {
+      case "nginx":
+      case "apache":
+        return {
+          uses: ["web"],
+          steps: [
+            "Install certbot from your distribution's packages or snap.",
+            `Issue and install a certificate covering ${domain} and www.${domain} with the command below.`,
+            "certbot sets up automatic renewal; confirm it with: sudo certbot renew --dry-run",
+          ],
+          snippets: [
+            { label: "certbot", code: `sudo certbot --${ctx.webServer}${keyType} ${names}` },
+            ctx.webServer === "nginx"
+              ? { label: "nginx", code: `ssl_certificate /etc/letsencrypt/live/${domain}/fullchain.pem;\nssl_certificate_key /etc/letsencrypt/live/${domain}/privkey.pem;` }
+              : { label: "Apache", code: `SSLCertificateFile /etc/letsencrypt/live/${domain}/fullchain.pem\nSSLCertificateKeyFile /etc/letsencrypt/live/${domain}/privkey.pem` },
+          ],
+          warnings,
+        };
+      case "iis":
+        return {
+          uses: ["web"],
+          steps: [
+            "Download win-acme (a free Let's Encrypt client for Windows) and run it as Administrator on the server.",
+            `Request a certificate for ${domain} and www.${domain}; win-acme installs it in IIS and schedules renewal.`,
+            "In IIS Manager, check the site's https binding uses the new certificate with Require Server Name Indication ticked.",
+          ],
+          snippets: [{ label: "win-acme", code: `wacs.exe --source iis --host ${domain},www.${domain}` }],
+          warnings,
+        };
+      case "cloudflare":
+        return {
+          uses: ["web"],
+          steps: [
+            `In the Cloudflare dashboard, open ${domain} → SSL/TLS → Edge Certificates and check Universal SSL is active for ${domain} and www.${domain}.`,
+            "Make sure both DNS records are proxied (orange cloud); unproxied records are served with the origin's certificate.",
+            "Under SSL/TLS → Origin Server, create an origin certificate and install it on the web server.",
+            "Set SSL/TLS → Overview → encryption mode to Full (strict).",
+          ],
+          warnings,
+        };
+      default:
+        return {
+          uses: ["web"],
+          steps: [
+            `Issue a certificate from a public CA (Let's Encrypt is free) covering ${domain} and www.${domain}, with an RSA 2048-bit or ECDSA P-256 key.`,
+            "Install the full chain, including intermediates, on the web server, load balancer or CDN.",
+            "Turn on automatic renewal and add the expiry date to your monitoring.",
+          ],
+          snippets: [{ label: "certbot (standalone)", code: `sudo certbot certonly --standalone${keyType} ${names}` }],
+          warnings,
+        };
+    }
+  },
+
+  "tls-hardening": ctx => {
+    switch (ctx.webServer) {
+      case "nginx":
+        return {
+          uses: ["web"],
+          steps: ["Replace the ssl_* settings in the server block (or http block) with the lines below.", "Test and reload: sudo nginx -t && sudo systemctl reload nginx"],
+          snippets: [{ label: "nginx", code: `ssl_protocols TLSv1.2 TLSv1.3;\nssl_ciphers ${TLS_CIPHERS};\nssl_prefer_server_ciphers off;\nssl_stapling on;\nssl_stapling_verify on;\nresolver 1.1.1.1 8.8.8.8 valid=300s;` }],
+        };
+      case "apache":
+        return {
+          uses: ["web"],
+          steps: ["Add the lines below to the SSL VirtualHost (SSLStaplingCache goes outside it, in the main config).", "Test and reload: sudo apachectl configtest && sudo systemctl reload apache2"],
+          snippets: [{ label: "Apache", code: `SSLProtocol -all +TLSv1.2 +TLSv1.3\nSSLCipherSuite ${TLS_CIPHERS}\nSSLHonorCipherOrder off\nSSLUseStapling On\n\n# Main server config\nSSLStaplingCache "shmcb:logs/ssl_stapling(32768)"` }],
+        };
+      case "iis":
+        return {
+          uses: ["web"],
+          steps: [
+            "Run the PowerShell below as Administrator to turn off TLS 1.0 and 1.1 in Windows (SChannel), then restart the server.",
+            "Alternatively, apply the Best Practices template in the free IIS Crypto tool, which also reorders cipher suites.",
+            "IIS staples OCSP responses by default; make sure the server can reach the CA's OCSP responder.",
+          ],
+          snippets: [{ label: "PowerShell", code: "foreach ($protocol in 'TLS 1.0', 'TLS 1.1') {\n  $key = \"HKLM:\\SYSTEM\\CurrentControlSet\\Control\\SecurityProviders\\SCHANNEL\\Protocols\\$protocol\\Server\"\n  New-Item $key -Force | Out-Null\n  New-ItemProperty $key -Name Enabled -Value 0 -PropertyType DWord -Force | Out-Null\n  New-ItemProperty $key -Name DisabledByDefault -Value 1 -PropertyType DWord -Force | Out-Null\n}" }],
+        };
+      case "cloudflare":
+        return {
+          uses: ["web"],
+          steps: [
+            `In the Cloudflare dashboard, open ${ctx.domain} → SSL/TLS → Edge Certificates.`,
+            "Set Minimum TLS Version to TLS 1.2 and turn TLS 1.3 on.",
+            "Cloudflare staples OCSP and picks modern ciphers for proxied traffic; harden the origin as well if it is reachable directly.",
+          ],
+        };
+      default:
+        return { uses: ["web"], snippets: [{ label: "Settings", code: `Protocols: TLS 1.2, TLS 1.3\nCiphers: ${TLS_CIPHERS.replace(/:/g, ", ")}\nOCSP stapling: on` }] };
+    }
+  },
+
+  "https-redirect": ctx => {
+    const { domain } = ctx;
+    switch (ctx.webServer) {
+      case "nginx":
+        return { uses: ["web"], steps: ["Add this server block for plain HTTP, replacing any existing port 80 block for the site.", "Test and reload: sudo nginx -t && sudo systemctl reload nginx"], snippets: [{ label: "nginx", code: `server {\n    listen 80;\n    listen [::]:80;\n    server_name ${domain} www.${domain};\n    return 301 https://$host$request_uri;\n}` }] };
+      case "apache":
+        return { uses: ["web"], steps: ["Replace the port 80 VirtualHost for the site with the one below.", "Test and reload: sudo apachectl configtest && sudo systemctl reload apache2"], snippets: [{ label: "Apache", code: `<VirtualHost *:80>\n    ServerName ${domain}\n    ServerAlias www.${domain}\n    Redirect permanent / https://${domain}/\n</VirtualHost>` }] };
+      case "iis":
+        return { uses: ["web"], steps: ["Install the IIS URL Rewrite module if it isn't already.", "Add the rule below to web.config under system.webServer, keeping the http binding so the redirect can be served."], snippets: [{ label: "web.config", code: "<rewrite>\n  <rules>\n    <rule name=\"Redirect to HTTPS\" stopProcessing=\"true\">\n      <match url=\"(.*)\" />\n      <conditions>\n        <add input=\"{HTTPS}\" pattern=\"off\" />\n      </conditions>\n      <action type=\"Redirect\" url=\"https://{HTTP_HOST}/{R:1}\" redirectType=\"Permanent\" />\n    </rule>\n  </rules>\n</rewrite>" }] };
+      case "cloudflare":
+        return { uses: ["web"], steps: [`In the Cloudflare dashboard, open ${domain} → SSL/TLS → Edge Certificates and turn on Always Use HTTPS.`] };
+      default:
+        return { uses: ["web"], steps: ["Configure the web server or CDN to answer every plain HTTP request with a 301 redirect to the same host and path over HTTPS."] };
+    }
+  },
+
+  "redirects": ctx => {
+    const chain = asList(ctx.finding.evidence.redirectChain);
+    const insecure = PLAYBOOKS["https-redirect"](ctx);
+    return {
+      uses: ["web"],
+      steps: [
+        "Find where each redirect below is configured (web server, CMS settings such as the WordPress site URL, or application code) and change its target to https://.",
+        ...chain.filter(hop => /http:\/\//.test(hop)).map(hop => `Redirect to fix: ${hop}`),
+        ...(insecure.steps ?? []),
+      ],
+      snippets: insecure.snippets,
+    };
+  },
+
+  "spf": ctx => {
+    const existing = ctx.finding.id === "email.spf.multiple" ? asList(ctx.finding.evidence.records) : asList(evidenceOf(ctx.findings, "email.spf.", "record"));
+    const plan = buildSpfRecord(mxHosts(ctx.findings), existing);
+    const measured = Number(evidenceOf(ctx.findings, "email.spf.", "lookups") ?? 0);
+    const change = dnsChange(ctx, existing.length > 0 ? "replace" : "add", [{ type: "TXT", name: "@", value: plan.record }]);
+    return {
+      uses: ["dns"],
+      steps: [
+        "Check the record below lists every service that sends email as the domain: mailbox provider, newsletters, CRM, invoicing and helpdesk tools.",
+        ...plan.terms.map(t => `${t.term}: ${t.reason}`),
+        ...(existing.length > 1 ? ["Delete every other v=spf1 record; a domain must publish exactly one."] : []),
+        ...change.steps,
+      ],
+      snippets: change.snippets,
+      warnings: [
+        "-all tells receivers to reject mail from anything not listed, so add missing senders before you save.",
+        ...(measured > 10 || plan.lookups > 10 ? [`The current record needs ${Math.max(measured, plan.lookups)} DNS lookups (limit 10). Remove includes for services you no longer use, or replace them with ip4:/ip6: ranges.`] : []),
+        ...change.warnings,
+      ],
+    };
+  },
+
+  "spf-null": ctx => {
+    // An existing DMARC record is replaced, keeping its reporting addresses: a second record would make
+    // receivers ignore DMARC entirely (RFC 7489 6.6.3)
+    const hasDmarc = evidenceOf(ctx.findings, "email.dmarc.", "record") !== undefined;
+    const reporting = (["rua", "ruf"] as const).map(tag => [tag, evidenceOf(ctx.findings, "email.dmarc.", tag) as string | undefined] as const).filter(([, value]) => value);
+    const dmarc: DnsRecord = { type: "TXT", name: "_dmarc", value: ["v=DMARC1; p=reject; sp=reject", ...reporting.map(([tag, value]) => `${tag}=${value}`)].join("; ") };
+    const spf: DnsRecord = { type: "TXT", name: "@", value: "v=spf1 -all" };
+    const changes = hasDmarc ? [dnsChange(ctx, "add", [spf]), dnsChange(ctx, "replace", [dmarc])] : [dnsChange(ctx, "add", [spf, dmarc])];
+    return {
+      uses: ["dns"],
+      steps: [
+        `${ctx.domain} has no mail servers, so nothing should ever send email as it. These records tell receivers to reject any message that claims to.`,
+        // Both changes open with the same "go to your DNS host" step
+        ...new Set(changes.flatMap(c => c.steps)),
+      ],
+      snippets: changes.flatMap(c => c.snippets),
+      warnings: [...new Set(changes.flatMap(c => c.warnings))],
+    };
+  },
+
+  "dmarc": ctx => {
+    const stages = planDmarcRollout(ctx.domain, ctx.findings);
+    const next = stages.find(s => s.status === "current") ?? stages[stages.length - 1];
+    const hasRecord = evidenceOf(ctx.findings, "email.dmarc.", "record") !== undefined;
+    const change = dnsChange(ctx, hasRecord ? "replace" : "add", [{ type: "TXT", name: "_dmarc", value: next.value }]);
+    const generatedRua = evidenceOf(ctx.findings, "email.dmarc.", "rua") === undefined;
+    return {
+      uses: ["dns"],
+      stages,
+      steps: [
+        `Publish the "${next.title}" stage now, then move to the next stage once the aggregate reports show every legitimate sender passing SPF or DKIM.`,
+        ...change.steps,
+      ],
+      snippets: change.snippets,
+      warnings: [
+        ...(generatedRua ? [`Change dmarc-reports@${ctx.domain} to a mailbox someone reads, or to a DMARC reporting service's address.`] : []),
+        ...change.warnings,
+      ],
+    };
+  },
+
+  "dkim": ctx => {
+    const mx = mxHosts(ctx.findings);
+    const provider = MAIL_PROVIDERS.find(p => mx.some(host => p.mx.test(host)))?.name;
+    const weak = ctx.finding.id === "email.dkim.weak-key" ? ["Generate a new 2048-bit key, publish it under a new selector and switch signing to it before removing the old one."] : [];
+    if (provider === "Google Workspace") {
+      const change = dnsChange(ctx, "add", [{ type: "TXT", name: "google._domainkey", value: "v=DKIM1; k=rsa; p=<key from the Admin console>" }]);
+      return {
+        uses: ["dns"],
+        steps: [
+          ...weak,
+          "In the Google Admin console, go to Apps → Google Workspace → Gmail → Authenticate email.",
+          "Select the domain, click Generate new record with a 2048-bit key and copy the TXT value.",
+          ...change.steps,
+          "Back in the Admin console, click Start authentication once the record is visible.",
+        ],
+        snippets: change.snippets,
+        warnings: change.warnings,
+      };
+    }
+    if (provider === "Microsoft 365") {
+      const tenant = ctx.domain.replace(/\./g, "-");
+      const change = dnsChange(ctx, "add", [1, 2].map(n => ({ type: "CNAME" as const, name: `selector${n}._domainkey`, value: `selector${n}-${tenant}._domainkey.<tenant>.onmicrosoft.com` })));
+      return {
+        uses: ["dns"],
+        steps: [
+          ...weak,
+          "In the Microsoft Defender portal, go to Email & collaboration → Policies & rules → Threat policies → Email authentication settings → DKIM.",
+          "Select the domain; the portal shows the two CNAME records to publish. Use its values where they differ from the ones below.",
+          ...change.steps,
+          "Once the records resolve, switch Sign messages for this domain with DKIM signatures on.",
+        ],
+        snippets: change.snippets,
+        warnings: ["Replace <tenant> with your Microsoft 365 tenant name.", ...change.warnings],
+      };
+    }
+    return {
+      uses: ["dns"],
+      steps: [
+        ...weak,
+        "Turn on DKIM signing in every service that sends as the domain (mailbox provider, newsletter and CRM tools). Each gives you a selector and a DNS record.",
+        "Publish each record exactly as given, usually a TXT or CNAME at <selector>._domainkey.",
+        "Send a test message and check the Authentication-Results header shows dkim=pass.",
+      ],
+    };
+  },
+
+  "mta-sts": ctx => {
+    const { domain } = ctx;
+    const mx = asList(evidenceOf(ctx.findings, "email.mta-sts.", "policyMx")).length > 0 ? asList(evidenceOf(ctx.findings, "email.mta-sts.", "policyMx")) : mxHosts(ctx.findings);
+    const mode = ctx.finding.id === "email.mta-sts.not-enforced" ? "enforce" : "testing";
+    const policy = `version: STSv1\nmode: ${mode}\n${(mx.length > 0 ? mx : ["<your MX host>"]).map(h => `mx: ${h}`).join("\n")}\nmax_age: 604800\n`;
+    const id = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+    const change = dnsChange(ctx, ctx.finding.id === "email.mta-sts.missing" ? "add" : "replace", [{ type: "TXT", name: "_mta-sts", value: `v=STSv1; id=${id}01` }]);
+    const url = `https://mta-sts.${domain}/.well-known/mta-sts.txt`;
+    const hosting: PlaybookSnippet = ctx.webServer === "nginx"
+      ? { label: "nginx", code: `server {\n    listen 443 ssl;\n    server_name mta-sts.${domain};\n    # ssl_certificate lines for mta-sts.${domain}\n    location = /.well-known/mta-sts.txt {\n        default_type text/plain;\n        return 200 "${policy.replace(/\n/g, "\\n")}";\n    }\n}` }
+      : ctx.webServer === "cloudflare"
+        ? { label: "Cloudflare Worker (route: mta-sts." + domain + "/.well-known/mta-sts.txt)", code: `export default {\n  fetch: () => new Response(\`${policy}\`, { headers: { "Content-Type": "text/plain" } }),\n};` }
+        : { label: "mta-sts.txt", code: policy };
+    return {
+      uses: ["dns", "web"],
+      steps: [
+        `Serve the policy below as plain text at ${url}, over HTTPS with a valid certificate for mta-sts.${domain}.`,
+        `Point mta-sts.${domain} at the server or service hosting it (an A or CNAME record).`,
+        ...(mode === "testing" ? ["Run in testing mode with TLS reporting on for a few weeks, then change mode to enforce and publish a new id."] : ["Change mode to enforce in the policy and publish the new id below so senders fetch it again."]),
+        ...change.steps,
+      ],
+      snippets: [hosting, ...change.snippets],
+      warnings: ["The policy must list every MX host, or mail to the missing ones will be refused once enforced.", ...change.warnings],
+    };
+  },
+
+  "tls-rpt": ctx => {
+    const change = dnsChange(ctx, "add", [{ type: "TXT", name: "_smtp._tls", value: `v=TLSRPTv1; rua=mailto:tls-reports@${ctx.domain}` }]);
+    return { uses: ["dns"], steps: change.steps, snippets: change.snippets, warnings: [`Change tls-reports@${ctx.domain} to a mailbox someone reads.`, ...change.warnings] };
+  },
+
+  "dnssec": ctx => {
+    const anchorOnly = ctx.finding.id === "dns.dnssec.unanchored";
+    const warnings = ctx.finding.id === "dns.dnssec.broken"
+      ? ["The registrar publishes a DS record but the zone isn't signed, so validating resolvers can't resolve the domain. Sign the zone now, or remove the DS record at the registrar."]
+      : [];
+    const registrar = "Add the DS record at the domain's registrar (Domain settings → DNSSEC), unless the registrar is also the DNS host and does it for you.";
+    switch (ctx.dnsProvider) {
+      case "cloudflare":
+        return { uses: ["dns"], warnings, steps: [
+          ...(anchorOnly ? [] : [`In the Cloudflare dashboard, open ${ctx.domain} → DNS → Settings and click Enable DNSSEC.`]),
+          "Copy the DS record Cloudflare shows.",
+          registrar,
+          "Cloudflare Registrar domains get the DS record automatically.",
+        ] };
+      case "route53":
+        return { uses: ["dns"], warnings, steps: [
+          ...(anchorOnly ? [] : [
+            `In the Route 53 console, open Hosted zones → ${ctx.domain} → DNSSEC signing and click Enable DNSSEC signing.`,
+            "Create a key-signing key backed by a customer managed KMS key in us-east-1.",
+          ]),
+          "Click View information to create DS record and copy it.",
+          "For domains registered with Route 53, add it under Registered domains → the domain → DNSSEC keys; otherwise at the registrar.",
+        ], snippets: anchorOnly ? [] : [{ label: "AWS CLI", code: `aws route53 create-key-signing-key --hosted-zone-id $ZONE_ID --name ksk1 --key-management-service-arn $KMS_KEY_ARN --status ACTIVE --caller-reference $(date +%s)\naws route53 enable-hosted-zone-dnssec --hosted-zone-id $ZONE_ID` }] };
+      case "godaddy":
+        return { uses: ["dns"], warnings, steps: [
+          ...(anchorOnly ? [] : [`In GoDaddy, open My Products → ${ctx.domain} → DNS → DNSSEC and turn it on (GoDaddy signs zones on its Premium DNS plan).`]),
+          "When GoDaddy is also the registrar it publishes the DS record itself; otherwise copy it to the registrar.",
+        ] };
+      default:
+        return { uses: ["dns"], warnings, steps: [...(anchorOnly ? [] : ["Turn on DNSSEC signing at the DNS host."]), registrar, "Check the chain validates (for example with dnsviz.net) before relying on it."] };
+    }
+  },
+
+  "caa": ctx => {
+    const issuer = evidenceOf(ctx.findings, "tls.", "issuer") ?? evidenceOf(ctx.findings, "dns.caa.", "observedIssuer");
+    const known = typeof issuer === "string" ? caaDomainsForIssuer(issuer) : [];
+    const authorities = known.length > 0 ? known : ["letsencrypt.org"];
+    const records: DnsRecord[] = [
+      ...authorities.map(ca => ({ type: "CAA" as const, name: "@", value: `0 issue "${ca}"` })),
+      ...(ctx.finding.id === "dns.caa.missing" ? [{ type: "CAA" as const, name: "@", value: `0 iodef "mailto:security@${ctx.domain}"` }] : []),
+    ];
+    const change = dnsChange(ctx, "add", records);
+    return {
+      uses: ["dns"],
+      steps: [
+        known.length > 0 ? `The current certificate comes from ${issuer}, so these records authorise it.` : "We couldn't identify the current certificate authority; change letsencrypt.org to the CA you use.",
+        "Add a record for every other CA that issues certificates for the domain, including those used by your CDN or email provider.",
+        ...change.steps,
+      ],
+      snippets: change.snippets,
+      warnings: [
+        ...(ctx.webServer === "cloudflare" || ctx.dnsProvider === "cloudflare" ? ["Cloudflare adds CAA records for its own certificate authorities automatically when Universal SSL is on."] : []),
+        ...change.warnings,
+      ],
+    };
+  },
+
+  "nameservers": ctx => {
+    const nameservers = asList(ctx.finding.evidence.nameservers);
+    return {
+      uses: ["dns"],
+      steps: [
+        `The domain is served by ${nameservers.join(", ") || "no nameservers we could find"}.`,
+        ...(ctx.finding.id === "dns.ns.insufficient" ? ["Add at least one more nameserver at the registrar; every DNS host provides two or more."] : []),
+        ctx.dnsProvider === "cloudflare" ? "Cloudflare can run alongside a second provider with multi-provider DNS (Enterprise) or as a secondary to another primary."
+          : ctx.dnsProvider === "route53" ? "Route 53 can't act as a secondary, so pick a secondary provider that supports Route 53 sync, or keep both zones in sync from infrastructure-as-code."
+          : "Pick a second DNS provider that supports zone transfers (AXFR) from your primary, or manage both zones from the same infrastructure-as-code.",
+        "List the second provider's nameservers at the registrar alongside the current ones.",
+      ],
+    };
+  },
+
+  "dns-wildcard": ctx => {
+    const change = dnsChange(ctx, "delete", asList(ctx.finding.evidence.resolvesTo).slice(0, 1).map(value => ({ type: "A" as const, name: "*", value })));
+    return {
+      uses: ["dns"],
+      steps: ["List the subdomains actually in use and create explicit records for them.", "Then remove the wildcard (*) record.", ...change.steps],
+      snippets: change.snippets,
+      warnings: change.warnings,
+    };
+  },
+
+  "dangling-cname": ctx => {
+    const hostname = String(ctx.finding.evidence.hostname ?? ctx.finding.subject ?? "");
+    const name = hostname.endsWith(`.${ctx.domain}`) ? hostname.slice(0, -ctx.domain.length - 1) : hostname;
+    const change = dnsChange(ctx, "delete", [{ type: "CNAME", name, value: String(ctx.finding.evidence.cname ?? "") }]);
+    return {
+      uses: ["dns"],
+      steps: [
+        `${hostname} points at ${ctx.finding.evidence.cname}, which no longer exists on ${ctx.finding.evidence.service ?? "the service"}. Anyone who claims it can serve content on your subdomain.`,
+        "Delete the record now, or re-create the resource it points to if it's still needed.",
+        ...change.steps,
+      ],
+      snippets: change.snippets,
+      warnings: ["Check the subdomain isn't already serving someone else's content; if it is, treat it as an incident.", ...change.warnings],
+    };
+  },
+
+  "hsts": ctx => {
+    const value = "max-age=31536000; includeSubDomains";
+    const warnings = ["includeSubDomains forces HTTPS on every subdomain; check they all serve HTTPS first, or start without it.", "Add preload and submit the domain at hstspreload.org only once you're sure; removal takes months."];
+    if (ctx.webServer === "cloudflare") {
+      return {
+        uses: ["web"],
+        steps: [
+          `In the Cloudflare dashboard, open ${ctx.domain} → SSL/TLS → Edge Certificates → HTTP Strict Transport Security (HSTS) and click Enable HSTS.`,
+          "Set Max Age to 12 months, turn on Apply HSTS policy to subdomains, and save.",
+        ],
+        warnings,
+      };
+    }
+    const change = headerChange(ctx, { set: [{ name: "Strict-Transport-Security", value }] });
+    return { uses: ["web"], steps: change.steps, snippets: change.snippets, warnings: [...warnings, ...change.warnings] };
+  },
+
+  "content-type-options": ctx => ({ uses: ["web"], ...headerChange(ctx, { set: [{ name: "X-Content-Type-Options", value: "nosniff" }] }) }),
+
+  "clickjacking": ctx => {
+    const change = headerChange(ctx, { set: [{ name: "X-Frame-Options", value: "SAMEORIGIN" }] });
+    return { uses: ["web"], ...change, steps: [...change.steps, "If the site sends a Content-Security-Policy, also add frame-ancestors 'self' to it; modern browsers prefer it over X-Frame-Options."] };
+  },
+
+  "referrer-policy": ctx => ({ uses: ["web"], ...headerChange(ctx, { set: [{ name: "Referrer-Policy", value: "strict-origin-when-cross-origin" }] }) }),
+
+  "permissions-policy": ctx => {
+    const change = headerChange(ctx, { set: [{ name: "Permissions-Policy", value: "camera=(), microphone=(), geolocation=(), payment=()" }] });
+    return { uses: ["web"], ...change, warnings: ["Leave out any feature the site uses, such as payment=() on a shop using the Payment Request API.", ...change.warnings] };
+  },
+
+  "cross-origin-isolation": ctx => {
+    const missing = asList(ctx.finding.evidence.missing);
+    const values: Record<string, string> = {
+      "cross-origin-opener-policy": "same-origin",
+      "cross-origin-resource-policy": "same-site",
+    };
+    const set = missing.filter(name => values[name]).map(name => ({ name: name.replace(/(^|-)([a-z])/g, (_, dash, c) => dash + c.toUpperCase()), value: values[name] }));
+    const change = headerChange(ctx, { set });
+    return {
+      uses: ["web"],
+      ...change,
+      warnings: [
+        ...(missing.includes("cross-origin-embedder-policy") ? ["Add Cross-Origin-Embedder-Policy: require-corp only once every third-party script, image and frame sends CORP or CORS headers; it blocks anything that doesn't."] : []),
+        "Cross-Origin-Opener-Policy: same-origin breaks pop-up sign-in and payment flows that talk to their opener; use same-origin-allow-popups if you rely on them.",
+        ...change.warnings,
+      ],
+    };
+  },
+
+  "version-disclosure": ctx => {
+    const headers = Object.keys(ctx.finding.evidence).map(name => name.replace(/(^|-)([a-z])/g, (_, dash, c) => dash + c.toUpperCase()));
+    const change = headerChange(ctx, { remove: headers.length > 0 ? headers : ["Server", "X-Powered-By"] });
+    const php = headers.includes("X-Powered-By") && /php/i.test(String(ctx.finding.evidence["x-powered-by"] ?? ""));
+    return {
+      uses: ["web"],
+      steps: [...change.steps, ...(php ? ["Set expose_php = Off in php.ini and restart PHP-FPM to stop PHP adding X-Powered-By."] : [])],
+      snippets: change.snippets,
+      warnings: change.warnings,
+    };
+  },
+
+  "csp": ctx => {
+    const { finding } = ctx;
+    const current = String(finding.evidence.header ?? finding.evidence.reportOnly ?? "");
+    if (finding.id === "web.csp.report-only") {
+      const change = headerChange(ctx, { set: [{ name: "Content-Security-Policy", value: current }] });
+      return {
+        uses: ["web"],
+        stages: [
+          { title: "Report only", duration: "Until reports are clean", value: `Content-Security-Policy-Report-Only: ${current}`, status: "done" },
+          { title: "Enforce", duration: "Ongoing", value: `Content-Security-Policy: ${current}`, status: "current" },
+        ],
+        steps: ["Check the violation reports show nothing the site needs is being blocked.", "Then send the same policy as an enforcing header, as below, and remove the report-only one.", ...change.steps],
+        snippets: change.snippets,
+        warnings: change.warnings,
+      };
+    }
+    const policy = finding.id === "web.csp.missing" ? STARTER_CSP : reviseCsp(current, finding.id);
+    const change = headerChange(ctx, { set: [{ name: "Content-Security-Policy-Report-Only", value: policy }] });
+    return {
+      uses: ["web"],
+      stages: [
+        { title: "Report only", duration: "2-4 weeks", value: `Content-Security-Policy-Report-Only: ${policy}`, status: "current" },
+        { title: "Enforce", duration: "Ongoing", value: `Content-Security-Policy: ${policy}`, status: "next" },
+      ],
+      steps: [
+        finding.id === "web.csp.missing"
+          ? "Start from the policy below in report-only mode; browsers report what it would block without blocking anything."
+          : "The policy below is your current one with the weakness removed. Try it in report-only mode alongside the current header.",
+        "Add the sources the site genuinely needs (analytics, payment, fonts) as reports come in.",
+        ...(policy.includes("{RANDOM}") ? ["Generate a fresh random nonce for every response and add the same nonce attribute to each inline <script> tag."] : []),
+        "Once reports are clean, switch the header name to Content-Security-Policy.",
+        ...change.steps,
+      ],
+      snippets: change.snippets,
+      warnings: change.warnings,
+    };
+  },
+
+  "cookies": ctx => {
+    const cookies = asList(ctx.finding.evidence.cookies).map(c => c.split(":")[0]);
+    const steps = [
+      `Set Secure, HttpOnly and SameSite=Lax where the application creates ${cookies.length > 0 ? cookies.join(", ") : "its cookies"}; that is the most reliable fix.`,
+      "Leave HttpOnly off only for cookies that front-end JavaScript must read.",
+    ];
+    const snippet: Record<WebServer, PlaybookSnippet | null> = {
+      nginx: { label: "nginx 1.19.3+ (proxied apps)", code: "proxy_cookie_flags ~ secure httponly samesite=lax;" },
+      apache: { label: "Apache", code: "Header always edit Set-Cookie \"^((?!.*;\\s*Secure).*)$\" \"$1; Secure\"\nHeader always edit Set-Cookie \"^((?!.*;\\s*HttpOnly).*)$\" \"$1; HttpOnly\"\nHeader always edit Set-Cookie \"^((?!.*;\\s*SameSite).*)$\" \"$1; SameSite=Lax\"" },
+      iis: { label: "web.config (ASP.NET)", code: "<system.web>\n  <httpCookies requireSSL=\"true\" httpOnlyCookies=\"true\" sameSite=\"Lax\" />\n</system.web>" },
+      cloudflare: null,
+      generic: null,
+    };
+    return {
+      uses: ["web"],
+      steps: [...steps, ...(snippet[ctx.webServer] ? ["As a safety net, the server can add the flags to every cookie it passes on:"] : [])],
+      snippets: [
+        ...(snippet[ctx.webServer] ? [snippet[ctx.webServer]!] : []),
+        { label: "PHP (php.ini)", code: "session.cookie_secure = 1\nsession.cookie_httponly = 1\nsession.cookie_samesite = \"Lax\"" },
+      ],
+    };
+  },
+
+  "update-component": ({ finding }) => {
+    const name = finding.subject ?? "the component";
+    const { version, fixedIn, eolDate } = finding.evidence;
+    const commands: Record<string, string> = {
+      "WordPress": "wp core update\nwp plugin update --all\nwp theme update --all",
+      "Drupal": "composer update drupal/core-recommended --with-all-dependencies\ndrush updatedb\ndrush cache:rebuild",
+      "Joomla": "php cli/joomla.php core:update",
+      "Nginx": "sudo apt update && sudo apt install --only-upgrade nginx",
+      "Apache": "sudo apt update && sudo apt install --only-upgrade apache2",
+      "PHP": "sudo apt update && sudo apt install --only-upgrade 'php*'",
+      // Client-side libraries found in the site's own scripts, for sites that bundle them from npm
+      "jQuery": "npm install jquery@latest",
+      "jQuery UI": "npm install jquery-ui@latest",
+      "Bootstrap": "npm install bootstrap@latest",
+      "Lodash": "npm install lodash@latest",
+      "Moment.js": "npm install moment@latest",
+    };
+    return {
+      steps: [
+        fixedIn ? `Upgrade ${name} from ${version} to ${fixedIn} or later.` : eolDate ? `${name} ${version} stopped receiving security fixes on ${eolDate}. Move to a supported release line.` : `Upgrade ${name} from ${version} to the latest release.`,
+        "Take a backup and try the upgrade on a staging copy first if the site is customised.",
+        "Turn on automatic security updates where the platform supports them.",
+        ...asList(finding.evidence.details).map(d => `Fixes: ${d}`),
+      ],
+      snippets: commands[name] ? [{ label: `${name} update`, code: commands[name] }] : [],
+    };
+  },
+
+  "sensitive-files": ctx => {
+    const path = ctx.finding.subject ?? "the file";
+    const snippet: Record<WebServer, PlaybookSnippet | null> = {
+      nginx: { label: "nginx", code: "location ~ /\\.(?!well-known/) {\n    deny all;\n}\nlocation ~* \\.(bak|old|orig|sql|zip|tar\\.gz)$|~$ {\n    deny all;\n}" },
+      apache: { label: "Apache", code: "<FilesMatch \"^\\.|\\.(bak|old|orig|sql|zip|tar\\.gz)$|~$\">\n    Require all denied\n</FilesMatch>\n<DirectoryMatch \"/\\.(git|svn)\">\n    Require all denied\n</DirectoryMatch>" },
+      iis: { label: "web.config", code: "<system.webServer>\n  <security>\n    <requestFiltering>\n      <hiddenSegments>\n        <add segment=\".git\" />\n        <add segment=\".svn\" />\n        <add segment=\".env\" />\n      </hiddenSegments>\n      <fileExtensions>\n        <add fileExtension=\".bak\" allowed=\"false\" />\n        <add fileExtension=\".sql\" allowed=\"false\" />\n        <add fileExtension=\".zip\" allowed=\"false\" />\n      </fileExtensions>\n    </requestFiltering>\n  </security>\n</system.webServer>" },
+      cloudflare: { label: "WAF custom rule expression (action: Block)", code: "(http.request.uri.path contains \"/.git\") or (http.request.uri.path contains \"/.svn\") or (http.request.uri.path contains \"/.env\") or (http.request.uri.path matches \"\\\\.(bak|sql|zip)$\")" },
+      generic: null,
+    };
+    return {
+      uses: ["web"],
+      steps: [
+        `Delete ${path} from the web root on ${ctx.domain}, or move it outside the folder the web server serves.`,
+        ...(/\.(git|svn)\//.test(path) ? ["Deploy from a build artifact or with git archive rather than a working copy, so repository folders never reach the server."] : []),
+        "Block dotfiles and backup extensions so a future mistake isn't served either:",
+      ],
+      snippets: snippet[ctx.webServer] ? [snippet[ctx.webServer]!] : [],
+      warnings: ctx.finding.severity === "critical" ? ["Assume the file has already been downloaded. Rotate every password, API key and secret it contained, and check repository history for others."] : [],
+    };
+  },
+
+  "directory-listing": ctx => {
+    const snippet: Record<WebServer, PlaybookSnippet | null> = {
+      nginx: { label: "nginx", code: "autoindex off;" },
+      apache: { label: "Apache (VirtualHost or .htaccess)", code: "Options -Indexes" },
+      iis: { label: "web.config", code: "<system.webServer>\n  <directoryBrowse enabled=\"false\" />\n</system.webServer>" },
+      cloudflare: null,
+      generic: null,
+    };
+    return {
+      uses: ["web"],
+      steps: [
+        `Turn off automatic directory indexes for ${ctx.finding.subject ?? "the folder"}${snippet[ctx.webServer] ? ":" : " in the web server configuration."}`,
+        "Alternatively, put an empty index.html in the folder.",
+        "Look through the listing for files that were never meant to be public, and remove them.",
+      ],
+      snippets: snippet[ctx.webServer] ? [snippet[ctx.webServer]!] : [],
+    };
+  },
+
+  "mixed-content": ctx => {
+    const { finding } = ctx;
+    const urls = asList(finding.evidence.urls);
+    const change = headerChange(ctx, { set: [{ name: "Content-Security-Policy", value: "upgrade-insecure-requests" }] });
+    return {
+      uses: ["web"],
+      steps: [
+        finding.id === "web.mixed-content.insecure-form"
+          ? "Change the form's action to an https:// or relative URL, and make sure the endpoint accepts HTTPS."
+          : "Change each URL below to https://, or make it relative. If a third party doesn't serve it over HTTPS, host a copy yourself.",
+        "Then have browsers upgrade any that were missed, by adding upgrade-insecure-requests to the CSP (merge it into an existing policy rather than sending two):",
+        ...change.steps,
+      ],
+      snippets: [...(urls.length > 0 ? [{ label: "Loaded over HTTP", code: urls.join("\n") }] : []), ...change.snippets],
+      warnings: change.warnings,
+    };
+  },
+
+  "admin-exposure": ctx => {
+    const path = ctx.finding.subject ?? "/admin/";
+    // Database tools and server managers are raised as high
+    const database = ctx.finding.severity === "high";
+    const snippet: Record<WebServer, PlaybookSnippet | null> = {
+      nginx: { label: "nginx", code: `location ^~ ${path} {\n    allow 203.0.113.0/24;   # office or VPN range\n    deny all;\n    # keep the existing handler for this path below, e.g. include fastcgi_params\n}` },
+      apache: { label: "Apache", code: `<Location "${path}">\n    Require ip 203.0.113.0/24\n</Location>` },
+      iis: { label: "web.config", code: `<location path="${path.replace(/^\/|\/$/g, "")}">\n  <system.webServer>\n    <security>\n      <ipSecurity allowUnlisted="false">\n        <add ipAddress="203.0.113.0" subnetMask="255.255.255.0" allowed="true" />\n      </ipSecurity>\n    </security>\n  </system.webServer>\n</location>` },
+      cloudflare: { label: "WAF custom rule expression (action: Block)", code: `(starts_with(http.request.uri.path, "${path}") and not ip.src in {203.0.113.0/24})` },
+      generic: null,
+    };
+    return {
+      uses: ["web"],
+      steps: [
+        database
+          ? `Remove the tool at ${path} from the production server. If it is needed, reach it over a VPN or SSH tunnel instead.`
+          : `Allow ${path} only from your office or VPN addresses, replacing the example range below.`,
+        ...(database ? ["Until it is removed, restrict it to known addresses:"] : []),
+        "Require two-factor authentication for every admin account, and rate-limit failed logins.",
+      ],
+      snippets: snippet[ctx.webServer] ? [snippet[ctx.webServer]!] : [],
+      warnings: ["Check the login keeps working for the people who need it before rolling the restriction out everywhere."],
+    };
+  },
+};
+
+// Null for findings that passed or have nothing to fix
+export function buildPlaybook(finding: Finding, findings: Finding[], domain: string, platforms: Platforms = detectPlatforms(findings)): Playbook | null {
+  if (finding.passed || !finding.remediation) return null;
+  const guide = REMEDIATION_GUIDES[finding.remediation];
+  const body = PLAYBOOKS[finding.remediation]({ ...platforms, domain, finding, findings });
+  return {
+    key: finding.remediation,
+    title: guide.title,
+    summary: guide.summary,
+    uses: body.uses ?? [],
+    steps: body.steps ?? guide.steps,
+    snippets: body.snippets ?? [],
+    stages: body.stages ?? [],
+    warnings: body.warnings ?? [],
+  };
+}
@@ -0,0 +1,67 @@
+// app/portProfiles.ts
+// Which TCP ports the exposure check probes. Kept free of Node imports so the dashboard can list the profiles.
+
+export type PortSeverity = "critical" | "high" | "medium";
+
+export interface PortDefinition {
+  port: number;
+  service: string;
+  // How bad it is for this service to answer from the internet
+  severity: PortSeverity;
+}
+
+export interface PortProfile {
+  id: string;
+  name: string;
+  description: string;
+  ports: number[];
+}
+
+// Services we can name from the port alone; banners may identify something else
+export const KNOWN_SERVICES: Record<number, Omit<PortDefinition, "port">> = {
+  21: { service: "FTP", severity: "high" },
+  22: { service: "SSH", severity: "high" },
+  23: { service: "Telnet", severity: "critical" },
+  445: { service: "SMB", severity: "critical" },
+  2375: { service: "Docker API", severity: "critical" },
+  3306: { service: "MySQL", severity: "critical" },
+  3389: { service: "RDP", severity: "critical" },
+  5432: { service: "PostgreSQL", severity: "critical" },
+  5900: { service: "VNC", severity: "critical" },
+  6379: { service: "Redis", severity: "critical" },
+  9200: { service: "Elasticsearch", severity: "critical" },
+  11211: { service: "Memcached", severity: "critical" },
+  27017: { service: "MongoDB", severity: "critical" },
+};
+
+export const DEFAULT_PORT_PROFILE = "default";
+
+export const PORT_PROFILES: Record<string, PortProfile> = {
+  "default": {
+    id: "default",
+    name: "Default",
+    description: "Remote access and databases most often left open: FTP, SSH, RDP, MySQL and PostgreSQL.",
+    ports: [21, 22, 3389, 3306, 5432],
+  },
+  "extended": {
+    id: "extended",
+    name: "Extended",
+    description: "The default ports plus Telnet, SMB, VNC, Redis, MongoDB, Elasticsearch, Memcached and the Docker API.",
+    ports: [21, 22, 23, 445, 3389, 5900, 3306, 5432, 6379, 27017, 9200, 11211, 2375],
+  },
+};
+
+export const MAX_CUSTOM_PORTS = 50;
+
+// A profile id, or a custom comma-separated list such as "22,8080,6379". Null if it's neither.
+export function resolvePortSelection(selection: string = DEFAULT_PORT_PROFILE): PortDefinition[] | null {
+  const ports = PORT_PROFILES[selection]?.ports ?? parsePortList(selection);
+  return ports && ports.map(port => ({ port, ...(KNOWN_SERVICES[port] ?? { service: "Unknown service", severity: "medium" }) }));
+}
+
+function parsePortList(list: string): number[] | null {
+  const parts = list.split(/[\s,]+/).filter(Boolean);
+  const ports = [...new Set(parts.map(Number))];
+  if (parts.length === 0 || ports.length > MAX_CUSTOM_PORTS) return null;
+  return ports.every(port => Number.isInteger(port) && port >= 1 && port <= 65535) ? ports : null;
+}
@@ -0,0 +1,151 @@
+// app/portfolio.ts
+import { randomBytes } from 'crypto';
+import { parseCsv } from './csv';
+import { failedFindings } from './findings';
+import type { ReportOptions } from './report';
+import { INDUSTRY_LABELS, type ExposureRange } from './riskCalculator';
+import { saveScan } from './scanStore';
+import { hostnameProblem, normalizeDomain, runScan, TimeoutError, withTimeout } from './scanner';
+import { technologiesFromFindings } from './technologies';
+
+export interface PortfolioRow extends ReportOptions {
+  domain: string;
+}
+
+export type PortfolioItemStatus = "queued" | "scanning" | "done" | "failed" | "timed-out";
+
+export interface PortfolioItem extends PortfolioRow {
+  status: PortfolioItemStatus;
+  scanId: string | null;
+  score: number | null;
+  exposure: ExposureRange | null;
+  topIssues: string[];
+  cms: string[];
+  error: string | null;
+  durationMs: number | null;
+}
+
+export interface PortfolioBatch {
+  id: string;
+  createdAt: string;
+  profile: string | undefined;
+  ports: string | undefined;
+  concurrency: number;
+  timeoutMs: number;
+  items: PortfolioItem[];
+  finished: boolean;
+}
+
+export interface PortfolioSettings {
+  profile?: string;
+  // Port profile id or custom port list, as accepted by runScan
+  ports?: string;
+  concurrency: number;
+  timeoutMs: number;
+}
+
+export const MAX_PORTFOLIO_ROWS = 500;
+export const MAX_CONCURRENCY = 10;
+const RETAINED_BATCHES = 20;
+
+// --- HELPER: CSV INPUT ---
+// Columns are domain, industry, employees. A header row is optional; when present its names pick
+// the columns, so "Company,Website,Staff" style exports work as long as they say domain/website.
+const COLUMN_NAMES = { domain: /^(domain|website|url|site|host)/i, industry: /^(industry|sector)/i, employees: /^(employees|staff|size|headcount)/i };
+
+function resolveIndustry(value: string | undefined) {
+  const wanted = value?.trim().toLowerCase();
+  if (!wanted) return null;
+  return Object.entries(INDUSTRY_LABELS).find(([key, label]) => key === wanted || label.toLowerCase() === wanted)?.[0] ?? null;
+}
+
+// `defaults` fills in rows that don't give their own industry or employee count
+export function parsePortfolioCsv(text: string, defaults: ReportOptions): { rows: PortfolioRow[], errors: string[] } {
+  const table = parseCsv(text);
+  const errors: string[] = [];
+  const header = table[0]?.some(cell => COLUMN_NAMES.domain.test(cell.trim())) ? table.shift()! : null;
+  // -1 when the header row doesn't have the column
+  const column = (name: keyof typeof COLUMN_NAMES, position: number) => header ? header.findIndex(cell => COLUMN_NAMES[name].test(cell.trim())) : position;
+  const [domainCol, industryCol, employeesCol] = [column("domain", 0), column("industry", 1), column("employees", 2)];
+
+  const seen = new Set<string>();
+  const rows: PortfolioRow[] = [];
+  table.forEach((cells, i) => {
+    const line = i + (header ? 2 : 1);
+    const domain = normalizeDomain(cells[domainCol] ?? "");
+    const problem = hostnameProblem(domain);
+    if (problem) {
+      errors.push(`Line ${line}: "${cells[domainCol] ?? ""}" skipped. ${problem.message}`);
+      return;
+    }
+    if (seen.has(domain)) return;
+    seen.add(domain);
+    const industry = industryCol >= 0 ? resolveIndustry(cells[industryCol]) : null;
+    if (industryCol >= 0 && cells[industryCol]?.trim() && !industry) errors.push(`Line ${line}: unknown industry "${cells[industryCol]}", using the default`);
+    const employees = employeesCol >= 0 ? parseInt(cells[employeesCol] ?? "", 10) : NaN;
+    rows.push({ domain, industry: industry ?? defaults.industry, employees: employees > 0 ? employees : defaults.employees });
+  });
+
+  if (rows.length > MAX_PORTFOLIO_ROWS) {
+    errors.push(`Only the first ${MAX_PORTFOLIO_ROWS} domains will be scanned`);
+    rows.length = MAX_PORTFOLIO_ROWS;
+  }
+  return { rows, errors };
+}
+
+// --- BATCH RUNNER ---
+// Batches live in memory for progress polling; every finished scan is also saved to the scan store.
+const batches = new Map<string, PortfolioBatch>();
+
+async function scanItem(batch: PortfolioBatch, item: PortfolioItem) {
+  const started = Date.now();
+  item.status = "scanning";
+  try {
+    // A timed-out scan is abandoned rather than cancelled; its slot goes to the next domain
+    const stored = await withTimeout(runScan(item.domain, batch.profile, { ports: batch.ports }).then(scan => saveScan(scan, { industry: item.industry, employees: item.employees })), batch.timeoutMs);
+    const issues = failedFindings(stored.scan.findings).sort((a, b) => b.scoreImpact - a.scoreImpact);
+    Object.assign(item, {
+      status: "done",
+      scanId: stored.id,
+      score: stored.scan.score,
+      exposure: { currency: stored.exposure.currency, low: stored.exposure.low, likely: stored.exposure.likely, high: stored.exposure.high },
+      topIssues: issues.slice(0, 3).map(f => f.title),
+      cms: technologiesFromFindings(stored.scan.findings).filter(t => t.category === "cms" || t.category === "ecommerce").map(t => t.name),
+    });
+  } catch (e) {
+    item.status = e instanceof TimeoutError ? "timed-out" : "failed";
+    item.error = e instanceof Error ? e.message : String(e);
+  }
+  item.durationMs = Date.now() - started;
+}
+
+async function runBatch(batch: PortfolioBatch) {
+  const queue = [...batch.items];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) await scanItem(batch, item);
+  };
+  await Promise.all(Array.from({ length: Math.min(batch.concurrency, queue.length) }, worker));
+  batch.finished = true;
+}
+
+export function startPortfolioBatch(rows: PortfolioRow[], settings: PortfolioSettings): PortfolioBatch {
+  const batch: PortfolioBatch = {
+    id: randomBytes(8).toString("hex"),
+    createdAt: new Date().toISOString(),
+    profile: settings.profile,
+    ports: settings.ports,
+    concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(settings.concurrency))),
+    timeoutMs: settings.timeoutMs,
+    items: rows.map(row => ({ ...row, status: "queued", scanId: null, score: null, exposure: null, topIssues: [], cms: [], error: null, durationMs: null })),
+    finished: rows.length === 0,
+  };
+  batches.set(batch.id, batch);
+  // Forget the oldest batches; their scans stay in the scan store
+  [...batches.keys()].slice(0, -RETAINED_BATCHES).forEach(id => batches.delete(id));
+  void runBatch(batch);
+  return batch;
+}
+
+export function getPortfolioBatch(id: string): PortfolioBatch | null {
+  return batches.get(id) ?? null;
+}
@@ -0,0 +1,208 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getPortfolioScan, startPortfolioScan } from '../actions';
+import { toCsv } from '../csv';
+import { DEFAULT_PORT_PROFILE, MAX_CUSTOM_PORTS, PORT_PROFILES } from '../portProfiles';
+import type { PortfolioBatch, PortfolioItem } from '../portfolio';
+import { formatExposureRange, formatMoney, INDUSTRY_LABELS } from '../riskCalculator';
+import { DEFAULT_PROFILE, SCORING_PROFILES } from '../scoring';
+
+const POLL_INTERVAL_MS = 1500;
+
+type SortKey = "domain" | "status" | "score" | "exposure" | "cms" | "topIssues";
+
+const COLUMNS: { key: SortKey, label: string }[] = [
+  { key: "domain", label: "Domain" },
+  { key: "status", label: "Status" },
+  { key: "score", label: "Score" },
+  { key: "exposure", label: "Exposure" },
+  { key: "cms", label: "CMS" },
+  { key: "topIssues", label: "Top Issues" },
+];
+
+const STATUS_STYLES: Record<PortfolioItem["status"], string> = {
+  "queued": "text-slate-500",
+  "scanning": "text-blue-400 animate-pulse",
+  "done": "text-emerald-400",
+  "failed": "text-red-400",
+  "timed-out": "text-orange-400",
+};
+
+function compareItems(a: PortfolioItem, b: PortfolioItem, key: SortKey) {
+  switch (key) {
+    case "score": return (a.score ?? 0) - (b.score ?? 0);
+    case "exposure": return (a.exposure?.likely ?? 0) - (b.exposure?.likely ?? 0);
+    case "cms": case "topIssues": return a[key].join(", ").localeCompare(b[key].join(", "));
+    default: return a[key].localeCompare(b[key]);
+  }
+}
+
+export default function Portfolio() {
+  const [csv, setCsv] = useState('');
+  const [industry, setIndustry] = useState('marketing');
+  const [employees, setEmployees] = useState(5);
+  const [profile, setProfile] = useState(DEFAULT_PROFILE);
+  // A port profile id, or "custom" to probe the ports typed into customPorts
+  const [portProfile, setPortProfile] = useState(DEFAULT_PORT_PROFILE);
+  const [customPorts, setCustomPorts] = useState('');
+  const [concurrency, setConcurrency] = useState(4);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(60);
+
+  const [batch, setBatch] = useState<PortfolioBatch | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey, descending: boolean }>({ key: "score", descending: false });
+
+  const rows = [...(batch?.items ?? [])].sort((a, b) => {
+    // Unscored rows stay at the bottom whichever way the column is sorted
+    if ((sort.key === "score" || sort.key === "exposure") && (a[sort.key] === null || b[sort.key] === null)) {
+      return Number(a[sort.key] === null) - Number(b[sort.key] === null);
+    }
+    const order = compareItems(a, b, sort.key);
+    return sort.descending ? -order : order;
+  });
+  const completed = batch?.items.filter(i => i.status !== "queued" && i.status !== "scanning").length ?? 0;
+  const total = batch?.items.length ?? 0;
+
+  // Poll until every domain has a result
+  useEffect(() => {
+    if (!batch || batch.finished) return;
+    const timer = setTimeout(async () => setBatch(await getPortfolioScan(batch.id)), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setCsv(await file.text());
+  };
+
+  const handleStart = async () => {
+    if (!csv.trim()) return;
+    const result = await startPortfolioScan(csv, { profile, ports: portProfile === "custom" ? customPorts : portProfile, concurrency, timeoutMs: timeoutSeconds * 1000, defaults: { industry, employees } });
+    setBatch(result.batch);
+    setErrors(result.errors);
+  };
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : key === "exposure" }));
+  };
+
+  const handleExport = () => {
+    if (!batch) return;
+    const csvText = toCsv([
+      ["domain", "status", "score", "exposure_low", "exposure_likely", "exposure_high", "currency", "cms", "top_issues", "industry", "employees", "error", "scan_id"],
+      ...rows.map(item => [item.domain, item.status, item.score, item.exposure?.low ?? null, item.exposure?.likely ?? null, item.exposure?.high ?? null, item.exposure?.currency ?? null, item.cms.join("; "), item.topIssues.join("; "), item.industry, item.employees, item.error, item.scanId]),
+    ]);
+    const url = URL.createObjectURL(new Blob([csvText], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `portfolio-${batch.createdAt.slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-6xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Portfolio <span className="text-emerald-400">Scan</span></h1>
+
+        <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700">
+          <label className="block text-xs font-bold text-emerald-400 uppercase mb-2 tracking-wider">Domains CSV</label>
+          <p className="text-xs text-slate-400 mb-3">One domain per line, optionally followed by industry and employee count. A header row (domain, industry, employees) is optional.</p>
+          <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} className="block mb-3 text-sm text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-slate-700 file:text-white hover:file:bg-slate-600" />
+          <textarea rows={6} placeholder={"domain,industry,employees\nexample.com,retail,25\nexample.org"} className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-sm font-mono text-white focus:ring-2 focus:ring-emerald-500 outline-none" value={csv} onChange={(e) => setCsv(e.target.value)} />
+
+          <div className="grid grid-cols-2 md:grid-cols-7 gap-4 mt-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Default Industry</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={industry} onChange={(e) => setIndustry(e.target.value)}>
+                {Object.entries(INDUSTRY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Default Size</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={employees} onChange={(e) => setEmployees(Number(e.target.value))}>
+                <option value="5">1 - 10 Employees</option>
+                <option value="25">11 - 50 Employees</option>
+                <option value="100">50+ Employees</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Profile</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={profile} onChange={(e) => setProfile(e.target.value)}>
+                {Object.values(SCORING_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Ports</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={portProfile} onChange={(e) => setPortProfile(e.target.value)} title={PORT_PROFILES[portProfile]?.description}>
+                {Object.values(PORT_PROFILES).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                <option value="custom">Custom</option>
+              </select>
+              {portProfile === "custom" && <input type="text" placeholder="22,8080,6379" className="mt-2 w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-sm font-mono text-white focus:border-emerald-500 outline-none" value={customPorts} onChange={(e) => setCustomPorts(e.target.value)} title={`Up to ${MAX_CUSTOM_PORTS} port numbers`} />}
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Parallel Scans</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))}>
+                {[1, 2, 4, 6, 8, 10].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Timeout</label>
+              <select className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none" value={timeoutSeconds} onChange={(e) => setTimeoutSeconds(Number(e.target.value))}>
+                {[30, 60, 120, 300].map(n => <option key={n} value={n}>{n}s per domain</option>)}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button onClick={handleStart} disabled={!!batch && !batch.finished} className="w-full bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                {batch && !batch.finished ? "Scanning..." : "SCAN ALL"}
+              </button>
+            </div>
+          </div>
+          {errors.length > 0 && (
+            <ul className="mt-4 text-xs text-yellow-500 space-y-1">{errors.map((e, i) => <li key={i}>⚠ {e}</li>)}</ul>
+          )}
+        </div>
+
+        {batch && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">{completed} / {total} Domains Complete</p>
+              <button onClick={handleExport} disabled={total === 0} className="text-xs bg-slate-900 hover:bg-slate-700 text-white border border-slate-600 px-4 py-2 rounded transition disabled:opacity-50">Export CSV</button>
+            </div>
+            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden mb-6">
+              <div className="h-full bg-emerald-500 transition-all" style={{ width: `${total > 0 ? (completed / total) * 100 : 100}%` }}></div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                    {COLUMNS.map((c) => (
+                      <th key={c.key} className="pb-3 pr-4 cursor-pointer select-none hover:text-white" onClick={() => handleSort(c.key)}>
+                        {c.label}{sort.key === c.key && (sort.descending ? " ▼" : " ▲")}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((item) => (
+                    <tr key={item.domain} className="border-t border-slate-700 align-top">
+                      <td className="py-3 pr-4">
+                        {item.scanId ? <Link href={`/history/${item.domain}`} className="text-emerald-400 hover:underline">{item.domain}</Link> : item.domain}
+                      </td>
+                      <td className={`py-3 pr-4 text-xs uppercase tracking-wider ${STATUS_STYLES[item.status]}`} title={item.error ?? undefined}>{item.status}</td>
+                      <td className={`py-3 pr-4 font-bold ${item.score === null ? 'text-slate-600' : item.score < 70 ? 'text-red-400' : 'text-emerald-400'}`}>{item.score ?? "—"}</td>
+                      <td className="py-3 pr-4 text-slate-300" title={item.exposure ? formatExposureRange(item.exposure) : undefined}>{item.exposure === null ? "—" : formatMoney(item.exposure.likely, item.exposure.currency)}</td>
+                      <td className="py-3 pr-4 text-slate-300">{item.cms.join(", ") || "—"}</td>
+                      <td className="py-3 text-xs text-slate-400">{item.error ?? item.topIssues.join(" · ")}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
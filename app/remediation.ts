@@ -0,0 +1,240 @@
+// app/remediation.ts
+import type { RemediationKey } from './findings';
+
+export interface RemediationGuide {
+  title: string;
+  summary: string;
+  steps: string[];
+}
+
+// --- REMEDIATION GUIDES ---
+// Plain-language fixes for each remediation key, written for the client's IT contact.
+// Playbooks (playbooks.ts) turn each one into provider- and server-specific steps on the dashboard.
+export const REMEDIATION_GUIDES: Record<RemediationKey, RemediationGuide> = {
+  "close-port": {
+    title: "Close exposed services",
+    summary: "Remote access and database ports should never be reachable from the internet.",
+    steps: [
+      "Confirm whether the service is still needed.",
+      "Block the port on the firewall or cloud security group for all public addresses.",
+      "Move remote administration behind a VPN or zero-trust access gateway.",
+    ],
+  },
+  "tls-certificate": {
+    title: "Install a valid certificate",
+    summary: "Browsers warn visitors away from sites without a valid, trusted certificate.",
+    steps: [
+      "Issue a certificate from a public CA (Let's Encrypt is free) covering the domain and www.",
+      "Install the full chain, including intermediates, on the web server or CDN.",
+      "Enable automatic renewal and monitor the expiry date.",
+    ],
+  },
+  "tls-hardening": {
+    title: "Harden TLS configuration",
+    summary: "Legacy protocols, weak ciphers and small keys let attackers downgrade or break encryption.",
+    steps: [
+      "Disable SSLv3, TLS 1.0 and TLS 1.1; allow only TLS 1.2 and 1.3.",
+      "Restrict cipher suites to AEAD ciphers with forward secrecy (ECDHE).",
+      "Use an RSA key of at least 2048 bits or an ECDSA P-256 key, signed with SHA-256 or better.",
+      "Enable OCSP stapling.",
+    ],
+  },
+  "https-redirect": {
+    title: "Redirect HTTP to HTTPS",
+    summary: "Visitors who type the bare domain should be sent straight to the encrypted site.",
+    steps: [
+      "Configure the web server or CDN to answer every HTTP request with a 301 redirect to HTTPS.",
+      "Keep the same host and path in the redirect target.",
+    ],
+  },
+  "spf": {
+    title: "Publish a strict SPF record",
+    summary: "SPF lists the servers allowed to send email for the domain.",
+    steps: [
+      "List every service that sends email as the domain (mailbox provider, CRM, newsletters).",
+      "Publish a single TXT record at the root: v=spf1 include:<provider> ... -all.",
+      "Keep the record within 10 DNS lookups; flatten or remove unused includes.",
+    ],
+  },
+  "spf-null": {
+    title: "Publish a null SPF record",
+    summary: "A domain that sends no email should say so, so receivers reject forgeries.",
+    steps: [
+      "Publish a TXT record at the root: v=spf1 -all.",
+      "Pair it with a DMARC record of p=reject.",
+    ],
+  },
+  "dmarc": {
+    title: "Enforce DMARC",
+    summary: "DMARC tells receivers what to do with mail that fails SPF and DKIM, and reports abuse.",
+    steps: [
+      "Publish v=DMARC1; p=none; rua=mailto:<reports address> at _dmarc.",
+      "Review the aggregate reports until every legitimate sender passes.",
+      "Move to p=quarantine, then p=reject, and make sure sp= covers subdomains.",
+    ],
+  },
+  "dkim": {
+    title: "Sign outgoing mail with DKIM",
+    summary: "DKIM signatures prove a message was sent by the domain and not altered.",
+    steps: [
+      "Enable DKIM signing in each sending service and publish the selector records it provides.",
+      "Use 2048-bit keys and rotate them at least yearly.",
+    ],
+  },
+  "mta-sts": {
+    title: "Enforce MTA-STS",
+    summary: "MTA-STS stops attackers downgrading inbound mail to unencrypted delivery.",
+    steps: [
+      "Host a policy at https://mta-sts.<domain>/.well-known/mta-sts.txt listing the MX hosts.",
+      "Publish the _mta-sts TXT record with a policy id.",
+      "Run in testing mode with TLS-RPT, then switch to mode: enforce.",
+    ],
+  },
+  "tls-rpt": {
+    title: "Enable TLS reporting",
+    summary: "TLS-RPT sends reports when other servers fail to deliver mail securely.",
+    steps: ["Publish v=TLSRPTv1; rua=mailto:<reports address> at _smtp._tls."],
+  },
+  "dnssec": {
+    title: "Enable DNSSEC",
+    summary: "DNSSEC signs DNS answers so they cannot be forged or redirected.",
+    steps: [
+      "Turn on DNSSEC signing at the DNS host.",
+      "Add the DS record it provides at the domain registrar.",
+      "Confirm the chain validates before relying on it.",
+    ],
+  },
+  "caa": {
+    title: "Restrict certificate issuance with CAA",
+    summary: "CAA records name the only certificate authorities allowed to issue for the domain.",
+    steps: [
+      "Publish a CAA issue record for each CA you use, e.g. 0 issue \"letsencrypt.org\".",
+      "Add an iodef record so violations are reported.",
+    ],
+  },
+  "nameservers": {
+    title: "Make DNS resilient",
+    summary: "DNS served by a single provider or server is a single point of failure.",
+    steps: [
+      "Serve the zone from at least two nameservers.",
+      "For critical domains, add a secondary DNS provider on a separate network.",
+    ],
+  },
+  "dns-wildcard": {
+    title: "Review wildcard DNS",
+    summary: "Wildcard records make every possible subdomain resolve, which helps phishing and hides typos.",
+    steps: ["Replace the wildcard with explicit records for the subdomains in use."],
+  },
+  "dangling-cname": {
+    title: "Remove dangling DNS records",
+    summary: "A CNAME pointing at a deleted cloud resource lets anyone claim it and serve content on your subdomain.",
+    steps: [
+      "Delete the CNAME record, or re-create the resource it points to.",
+      "Remove DNS records whenever the service behind them is decommissioned.",
+    ],
+  },
+  "hsts": {
+    title: "Enable HSTS",
+    summary: "HSTS makes browsers refuse to load the site over plain HTTP.",
+    steps: [
+      "Send Strict-Transport-Security: max-age=31536000; includeSubDomains on every HTTPS response.",
+      "Once every subdomain serves HTTPS, add preload and submit the domain to the preload list.",
+    ],
+  },
+  "content-type-options": {
+    title: "Disable MIME sniffing",
+    summary: "Stops browsers reinterpreting uploaded files as scripts.",
+    steps: ["Send X-Content-Type-Options: nosniff on every response."],
+  },
+  "clickjacking": {
+    title: "Prevent clickjacking",
+    summary: "Stops other sites embedding yours in a frame to trick users into clicking.",
+    steps: ["Send Content-Security-Policy: frame-ancestors 'self' (or X-Frame-Options: SAMEORIGIN)."],
+  },
+  "referrer-policy": {
+    title: "Set a Referrer-Policy",
+    summary: "Stops full URLs, which can contain tokens or personal data, leaking to other sites.",
+    steps: ["Send Referrer-Policy: strict-origin-when-cross-origin."],
+  },
+  "permissions-policy": {
+    title: "Set a Permissions-Policy",
+    summary: "Switches off browser features (camera, microphone, location) the site doesn't use.",
+    steps: ["Send Permissions-Policy: camera=(), microphone=(), geolocation=() and extend as needed."],
+  },
+  "cross-origin-isolation": {
+    title: "Add cross-origin isolation headers",
+    summary: "COOP, COEP and CORP protect against cross-site leaks and side-channel attacks.",
+    steps: [
+      "Send Cross-Origin-Opener-Policy: same-origin.",
+      "Send Cross-Origin-Resource-Policy: same-origin (or same-site).",
+      "Add Cross-Origin-Embedder-Policy: require-corp once third-party resources support it.",
+    ],
+  },
+  "version-disclosure": {
+    title: "Hide software versions",
+    summary: "Version numbers in headers tell attackers exactly which exploits to try.",
+    steps: ["Remove or genericise the Server, X-Powered-By and X-Generator headers in the server configuration."],
+  },
+  "csp": {
+    title: "Deploy a Content Security Policy",
+    summary: "A CSP limits where scripts can load from, containing the damage of any XSS flaw.",
+    steps: [
+      "Start with Content-Security-Policy-Report-Only and a default-src 'self' policy.",
+      "Allow the script sources the site genuinely needs, using nonces instead of 'unsafe-inline'.",
+      "Switch to an enforcing Content-Security-Policy header once reports are clean.",
+    ],
+  },
+  "cookies": {
+    title: "Secure cookies",
+    summary: "Cookie flags stop session theft over HTTP, via scripts and via cross-site requests.",
+    steps: ["Set Secure, HttpOnly and SameSite=Lax (or Strict) on every session and authentication cookie."],
+  },
+  "redirects": {
+    title: "Keep redirects on HTTPS",
+    summary: "A redirect through plain HTTP exposes the visitor to interception.",
+    steps: ["Update every redirect target to an https:// URL."],
+  },
+  "update-component": {
+    title: "Update vulnerable components",
+    summary: "Known vulnerabilities in outdated software are the most common way sites are compromised.",
+    steps: [
+      "Upgrade the component to at least the fixed version listed, or to a supported release line.",
+      "Replace end-of-life software that no longer receives security fixes.",
+      "Enable automatic updates where the platform supports them.",
+    ],
+  },
+  "sensitive-files": {
+    title: "Remove exposed files",
+    summary: "Source repositories, environment files and backups left in the web root hand attackers passwords and code.",
+    steps: [
+      "Delete the file from the web root, or move it outside it.",
+      "Block dotfiles and backup extensions in the web server configuration so they can't return.",
+      "Treat every password, key and token in the file as leaked: rotate them.",
+    ],
+  },
+  "directory-listing": {
+    title: "Turn off directory listings",
+    summary: "A listing shows every file in a folder, including ones that were never linked.",
+    steps: [
+      "Disable automatic indexes in the web server configuration.",
+      "Check the listed folders for files that shouldn't be public and remove them.",
+    ],
+  },
+  "mixed-content": {
+    title: "Load everything over HTTPS",
+    summary: "Resources fetched over HTTP on an HTTPS page can be read or replaced by anyone on the network path.",
+    steps: [
+      "Change every http:// resource and form URL on the page to https://, or to a relative URL.",
+      "Add the upgrade-insecure-requests CSP directive to catch any that remain.",
+    ],
+  },
+  "admin-exposure": {
+    title: "Restrict admin logins",
+    summary: "A public login page invites password guessing, and database tools expose the whole database behind one password.",
+    steps: [
+      "Allow the admin paths only from office or VPN addresses.",
+      "Remove database admin tools from production servers.",
+      "Require two-factor authentication for every admin account.",
+    ],
+  },
+};
@@ -0,0 +1,251 @@
+// app/report.ts
+import fs from 'fs';
+import path from 'path';
+import { CONTROL_STATUS_LABELS, type ComplianceAssessment, type ControlReadiness, type ControlStatus, type FrameworkReadiness } from './compliance';
+import { CATEGORY_LABELS, failedFindings, groupByCategory, passedFindings, type Finding, type ScanResult, type Severity } from './findings';
+import { REMEDIATION_GUIDES } from './remediation';
+import { formatExposureRange, formatMoney, INDUSTRY_LABELS, type ExposureEstimate } from './riskCalculator';
+import { getScoringProfile } from './scoring';
+import { TECH_CATEGORY_LABELS, technologiesFromFindings } from './technologies';
+
+export interface ReportOptions {
+  industry: string;
+  employees: number;
+}
+
+export interface ClientReport {
+  filename: string;
+  html: string;
+}
+
+const SEVERITY_ORDER: Severity[] = ["critical", "high", "medium", "low", "info"];
+const SEVERITY_COLOURS: Record<Severity, string> = { critical: "#b91c1c", high: "#c2410c", medium: "#b45309", low: "#0369a1", info: "#475569" };
+const CONTROL_STATUS_COLOURS: Record<ControlStatus, string> = { "evidenced": "#047857", "failing": "#b91c1c", "not-assessable": "#64748b" };
+
+// --- HELPER: HTML ---
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+const formatDate = (iso: string) => `${new Date(iso).toLocaleString("en-GB", { timeZone: "UTC", dateStyle: "long", timeStyle: "short" })} UTC`;
+
+const formatPercent = (chance: number) => `${(chance * 100).toFixed(chance < 0.1 ? 1 : 0)}%`;
+
+// Shown in the exposure table; the rest are summed into one row
+const MAX_DRIVERS = 10;
+
+// The logo is inlined so the downloaded file renders offline and prints the same everywhere
+function logoDataUri() {
+  try {
+    return `data:image/png;base64,${fs.readFileSync(path.join(process.cwd(), "public", "logo.png")).toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
+
+function renderEvidence(evidence: Finding["evidence"]) {
+  const entries = Object.entries(evidence).filter(([, value]) => value !== null && value !== "");
+  if (entries.length === 0) return "";
+  return `<dl class="evidence">${entries.map(([key, value]) =>
+    `<div><dt>${escapeHtml(key)}</dt><dd>${escapeHtml(Array.isArray(value) ? value.join(", ") : String(value))}</dd></div>`).join("")}</dl>`;
+}
+
+function renderControl(control: ControlReadiness) {
+  const details = control.status === "failing" ? control.issues.map(i => i.title)
+    : control.status === "evidenced" ? control.evidence
+    : [control.note ?? ""];
+  return `<tr>
+    <td><strong>${escapeHtml(control.id)}</strong><br>${escapeHtml(control.title)}</td>
+    <td><span class="badge" style="background:${CONTROL_STATUS_COLOURS[control.status]}">${CONTROL_STATUS_LABELS[control.status]}</span></td>
+    <td>${escapeHtml(details.join("; "))}${control.unassessed.length > 0 && control.status !== "not-assessable" ? `<div class="note">Not checked in this scan: ${escapeHtml(control.unassessed.join(", "))}</div>` : ""}</td>
+  </tr>`;
+}
+
+function renderFramework(framework: FrameworkReadiness) {
+  return `<h3>${escapeHtml(framework.name)} (${escapeHtml(framework.edition)})</h3>
+<table>
+  <thead><tr><th style="width:40%">Control</th><th style="width:20%">Status</th><th>Evidence or issues</th></tr></thead>
+  <tbody>${framework.controls.map(renderControl).join("")}</tbody>
+</table>`;
+}
+
+function renderIssue(finding: Finding) {
+  const guide = finding.remediation ? REMEDIATION_GUIDES[finding.remediation] : null;
+  return `<article class="finding">
+    <header>
+      <span class="badge" style="background:${SEVERITY_COLOURS[finding.severity]}">${finding.severity}</span>
+      <h4>${escapeHtml(finding.title)}</h4>
+      ${finding.scoreImpact > 0 ? `<span class="impact">−${finding.scoreImpact} pts</span>` : ""}
+    </header>
+    ${renderEvidence(finding.evidence)}
+    ${guide ? `<div class="remediation">
+      <p><strong>${escapeHtml(guide.title)}.</strong> ${escapeHtml(guide.summary)}</p>
+      <ol>${guide.steps.map(step => `<li>${escapeHtml(step)}</li>`).join("")}</ol>
+    </div>` : ""}
+  </article>`;
+}
+
+function executiveSummary(scan: ScanResult, exposure: ExposureEstimate) {
+  const issues = failedFindings(scan.findings);
+  const counts = SEVERITY_ORDER.map(severity => [severity, issues.filter(f => f.severity === severity).length] as const).filter(([, n]) => n > 0);
+  const top = [...issues].sort((a, b) => b.scoreImpact - a.scoreImpact).slice(0, 3).filter(f => f.scoreImpact > 0);
+  const posture = scan.score < 70
+    ? "The external security posture needs attention: issues found in this assessment leave the organisation exposed to common, opportunistic attacks."
+    : "The external security posture is in good shape; the remaining issues are hardening opportunities rather than urgent gaps.";
+  return `<p>${escapeHtml(scan.domain)} scored <strong>${scan.score}/100</strong>. ${posture}</p>
+    <p>${issues.length === 0 ? "No security issues were found." : `${issues.length} issue${issues.length === 1 ? " was" : "s were"} found (${counts.map(([s, n]) => `${n} ${s}`).join(", ")}).`}
+    Based on the sector, company size and the issues found, the estimated annual financial exposure is <strong>${formatMoney(exposure.likely, exposure.currency)}</strong>
+    (between ${formatExposureRange(exposure)}).</p>
+    ${top.length > 0 ? `<p>Fixing these first will recover the most points:</p><ol>${top.map(f => `<li>${escapeHtml(f.title)} (${f.scoreImpact} pts)</li>`).join("")}</ol>` : ""}`;
+}
+
+// Rendering is a pure function of the stored scan, its options, the exposure it was priced at and the compliance
+// assessment it was stored with, so the same scan always produces the same report. The scan itself is embedded at
+// the end so the file can be regenerated later.
+export function renderReport(scan: ScanResult, options: ReportOptions, exposure: ExposureEstimate, compliance: ComplianceAssessment): ClientReport {
+  const profile = getScoringProfile(scan.profile);
+  const otherDrivers = exposure.drivers.slice(MAX_DRIVERS);
+  const issues = failedFindings(scan.findings);
+  const passes = passedFindings(scan.findings);
+  const inconclusive = scan.breakdown.filter(c => c.inconclusive);
+  const stack = technologiesFromFindings(scan.findings);
+  const advisoryData = scan.findings.map(f => f.evidence.advisoryData).find(v => typeof v === "string");
+  const logo = logoDataUri();
+  const embedded = JSON.stringify({ scan, options, exposure, compliance }).replace(/</g, "\\u003c");
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Security Assessment: ${escapeHtml(scan.domain)}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #0f172a; font-size: 10.5pt; line-height: 1.5; max-width: 210mm; margin: 0 auto; padding: 12mm; }
+  @media print { body { padding: 0; } }
+  h1, h2, h3, h4 { margin: 0; }
+  h2 { font-size: 15pt; color: #047857; border-bottom: 2px solid #10b981; padding-bottom: 4px; margin: 28px 0 12px; }
+  h3 { font-size: 11pt; text-transform: uppercase; letter-spacing: .06em; color: #475569; margin: 18px 0 8px; }
+  .cover { display: flex; align-items: center; justify-content: space-between; border-bottom: 4px solid #10b981; padding-bottom: 16px; }
+  .cover img { height: 48px; }
+  .cover .brand { font-weight: 800; letter-spacing: .2em; }
+  .cover .brand span { color: #10b981; }
+  .title { margin: 24px 0 4px; font-size: 22pt; }
+  .meta { color: #475569; }
+  .metrics { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin: 20px 0; }
+  .metric { border: 1px solid #cbd5e1; border-radius: 8px; padding: 12px; }
+  .metric .label { font-size: 8pt; text-transform: uppercase; letter-spacing: .08em; color: #64748b; }
+  .metric .value { font-size: 20pt; font-weight: 800; }
+  .bad { color: #b91c1c; } .good { color: #047857; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { font-size: 8pt; text-transform: uppercase; letter-spacing: .06em; color: #64748b; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .finding { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 12px; margin-bottom: 10px; break-inside: avoid; }
+  .finding header { display: flex; align-items: baseline; gap: 8px; }
+  .finding h4 { font-size: 10.5pt; flex: 1; }
+  .badge { color: #fff; font-size: 7.5pt; text-transform: uppercase; letter-spacing: .06em; padding: 1px 6px; border-radius: 4px; }
+  .impact { font-size: 9pt; color: #b91c1c; font-weight: 600; }
+  .evidence { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 8pt; color: #475569; margin: 6px 0 0; word-break: break-all; }
+  .evidence dt { display: inline; color: #94a3b8; } .evidence dt::after { content: ": "; }
+  .evidence dd { display: inline; margin: 0; }
+  .remediation { background: #ecfdf5; border-radius: 6px; padding: 8px 10px; margin-top: 8px; }
+  .remediation p { margin: 0; } .remediation ol { margin: 4px 0 0; padding-left: 18px; }
+  .passes li { margin-bottom: 4px; }
+  .note { font-size: 9pt; color: #92400e; }
+  .appendix { break-before: page; }
+  footer { margin-top: 32px; font-size: 8pt; color: #94a3b8; border-top: 1px solid #e2e8f0; padding-top: 8px; }
+</style>
+</head>
+<body>
+<div class="cover">
+  ${logo ? `<img src="${logo}" alt="Collective Security">` : ""}
+  <div class="brand">COLLECTIVE <span>VISION</span></div>
+</div>
+<h1 class="title">External Security Assessment</h1>
+<p class="meta"><strong>${escapeHtml(scan.domain)}</strong> · Scanned ${formatDate(scan.scannedAt)} · ${escapeHtml(profile.name)} profile</p>
+
+<div class="metrics">
+  <div class="metric"><div class="label">Security Score</div><div class="value ${scan.score < 70 ? "bad" : "good"}">${scan.score}<span style="font-size:11pt;color:#64748b">/100</span></div></div>
+  <div class="metric"><div class="label">Estimated Exposure</div><div class="value">${formatMoney(exposure.likely, exposure.currency)}</div><div class="meta">${formatExposureRange(exposure)}</div></div>
+  <div class="metric"><div class="label">Issues Found</div><div class="value ${issues.length > 0 ? "bad" : "good"}">${issues.length}</div></div>
+</div>
+
+<h2>Executive Summary</h2>
+${executiveSummary(scan, exposure)}
+
+<h2>Score Breakdown</h2>
+<table>
+  <thead><tr><th>Check</th><th>Area</th><th>Severity</th><th class="num">Points</th></tr></thead>
+  <tbody>${scan.breakdown.map(c => `<tr><td>${escapeHtml(c.name)}</td><td>${CATEGORY_LABELS[c.category]}</td><td>${c.severity}</td><td class="num">${c.inconclusive ? "Inconclusive" : `${(c.pointsAvailable - c.pointsLost).toFixed(1)} / ${c.pointsAvailable}`}</td></tr>`).join("")}</tbody>
+</table>
+${inconclusive.length > 0 ? `<p class="note">${escapeHtml(inconclusive.map(c => c.name).join(", "))} could not be completed during this scan and ${inconclusive.length === 1 ? "was" : "were"} left out of the score.</p>` : ""}
+
+<h2>Financial Exposure</h2>
+<p>A serious breach would cost an organisation of this sector and size about <strong>${formatMoney(exposure.breachCost, exposure.currency)}</strong>.
+Each issue adds a chance of such an incident, so the exposure below is what the issues are likely to cost in a year, not the cost of a breach.</p>
+${exposure.drivers.length === 0 ? "<p>No issue found in this assessment adds measurable exposure.</p>" : `<table>
+  <thead><tr><th>Issue</th><th>Area</th><th class="num">Annual likelihood</th><th class="num">Exposure</th><th class="num">Share</th></tr></thead>
+  <tbody>${exposure.drivers.slice(0, MAX_DRIVERS).map(d => `<tr><td>${escapeHtml(d.title)}</td><td>${CATEGORY_LABELS[d.category]}</td><td class="num">${formatPercent(d.likelihood)}</td><td class="num">${formatMoney(d.amount, exposure.currency)}</td><td class="num">${d.share}%</td></tr>`).join("")}
+  ${otherDrivers.length > 0 ? `<tr><td>${otherDrivers.length} other issues</td><td></td><td></td><td class="num">${formatMoney(otherDrivers.reduce((sum, d) => sum + d.amount, 0), exposure.currency)}</td><td class="num">${otherDrivers.reduce((sum, d) => sum + d.share, 0).toFixed(1)}%</td></tr>` : ""}</tbody>
+</table>`}
+${exposure.unassessed.length > 0 ? `<p class="note">${escapeHtml(exposure.unassessed.join(", "))} could not be completed, so anything ${exposure.unassessed.length === 1 ? "it" : "they"} would have found is not priced.</p>` : ""}
+
+<h2>Compliance Readiness</h2>
+<p>Each framework's controls are matched against what this scan could observe from outside. A control is <em>evidenced</em> when the related checks passed,
+and <em>failing</em> when they found an issue. Many controls concern internal processes and devices, and can only be confirmed by an on-site or documentary review.
+Readiness is not certification, but failing controls are likely to be raised by an assessor. Controls were mapped with version ${compliance.mappingVersion} of the control mapping.</p>
+<table>
+  <thead><tr><th>Framework</th><th class="num">Evidenced</th><th class="num">Failing</th><th class="num">Not assessable</th><th class="num">Readiness</th></tr></thead>
+  <tbody>${compliance.frameworks.map(f => `<tr><td>${escapeHtml(f.name)}</td><td class="num">${f.counts.evidenced}</td><td class="num">${f.counts.failing}</td><td class="num">${f.counts["not-assessable"]}</td><td class="num">${f.readiness === null ? "—" : `${f.readiness}%`}</td></tr>`).join("")}</tbody>
+</table>
+${compliance.frameworks.map(renderFramework).join("\n")}
+
+<h2>Findings and Remediation</h2>
+${issues.length === 0 ? "<p>No issues were found.</p>" : groupByCategory(issues).map(group => `<h3>${group.label}</h3>
+${[...group.findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.scoreImpact - a.scoreImpact).map(renderIssue).join("\n")}`).join("\n")}
+
+<h2>Controls in Place</h2>
+${passes.length === 0 ? "<p>No passing controls were recorded.</p>" : groupByCategory(passes.filter(f => f.id !== "tech.detected")).map(group => `<h3>${group.label}</h3>
+<ul class="passes">${group.findings.map(f => `<li>${escapeHtml(f.title)}${renderEvidence(f.evidence)}</li>`).join("")}</ul>`).join("\n")}
+
+<h2>Technology Stack</h2>
+${stack.length === 0 ? "<p>No technologies could be identified from the homepage.</p>" : `<table>
+  <thead><tr><th>Technology</th><th>Version</th><th>Category</th><th class="num">Confidence</th></tr></thead>
+  <tbody>${stack.map(t => `<tr><td>${escapeHtml(t.name)}</td><td>${escapeHtml(t.version ?? "—")}</td><td>${TECH_CATEGORY_LABELS[t.category] ?? t.category}</td><td class="num">${t.confidence}%</td></tr>`).join("")}</tbody>
+</table>`}
+
+<section class="appendix">
+<h2>Appendix: Methodology</h2>
+<p>This is a non-intrusive external assessment. Only publicly reachable information was examined: DNS records, the TLS handshake,
+a TCP connection attempt to a small set of sensitive ports, and the homepage as a browser would request it. No credentials were used
+and no exploitation was attempted.${scan.deep ? ` Because the owner verified control of the domain, this was a deep scan: it also requested
+a fixed list of paths where repositories, backups, directory listings and admin logins are commonly left exposed, and the site's own scripts.` : ""}
+Results reflect the state of ${escapeHtml(scan.domain)} at ${formatDate(scan.scannedAt)}.</p>
+<h3>Scoring</h3>
+<p>Each check carries a weight set by the <strong>${escapeHtml(profile.name)}</strong> profile (${escapeHtml(profile.description)}).
+Failed findings remove a fraction of their check's weight, capped at the check's total, and the result is normalised to a score out of 100
+(scoring version ${scan.scoringVersion}). A check that errors or times out is reported as inconclusive and left out of the total.</p>
+<table>
+  <thead><tr><th>Check</th><th>Area</th><th>Severity</th><th class="num">Weight (pts)</th></tr></thead>
+  <tbody>${scan.breakdown.map(c => `<tr><td>${escapeHtml(c.name)}</td><td>${CATEGORY_LABELS[c.category]}</td><td>${c.severity}</td><td class="num">${c.pointsAvailable}</td></tr>`).join("")}</tbody>
+</table>
+<h3>Financial Exposure</h3>
+<p>The breach cost starts from the average for the ${escapeHtml(INDUSTRY_LABELS[exposure.industry] ?? INDUSTRY_LABELS.other)} sector and is scaled to company size
+(${options.employees} employees, the ${escapeHtml(exposure.sizeBand)} band). Each area below has an annual likelihood that one critical issue in it is exploited,
+scaled down for less severe issues and by ${exposure.riskMultiplier}× for how often the sector is targeted, and an impact: the share of the breach cost such an incident causes.
+An area's exposure is its impact times the chance that at least one of its issues is exploited, and the total is capped at the breach cost.
+The low and high figures repeat the calculation with lower and higher likelihoods. This is an indicative estimate (risk model version ${exposure.modelVersion}), not an actuarial one.</p>
+${exposure.categories.length > 0 ? `<table>
+  <thead><tr><th>Area</th><th>Why it matters</th><th class="num">Likelihood</th><th class="num">Impact</th><th class="num">Exposure</th></tr></thead>
+  <tbody>${exposure.categories.map(c => `<tr><td>${CATEGORY_LABELS[c.category]}</td><td>${escapeHtml(c.rationale)}</td><td class="num">${formatPercent(c.likelihood)}</td><td class="num">${formatPercent(c.impact)}</td><td class="num">${formatMoney(c.amount, exposure.currency)}</td></tr>`).join("")}</tbody>
+</table>` : ""}
+${advisoryData ? `<h3>Vulnerability Data</h3><p>Component versions were matched against the offline advisory dataset dated ${escapeHtml(String(advisoryData))}.</p>` : ""}
+</section>
+
+<footer>Collective Vision · ${escapeHtml(scan.domain)} · ${escapeHtml(scan.scannedAt)}</footer>
+<script type="application/json" id="scan-data">${embedded}</script>
+</body>
+</html>
+`;
+
+  return { filename: `security-report-${scan.domain}-${scan.scannedAt.slice(0, 10)}.html`, html };
+}
@@ -1,27 +1,150 @@
-// utils/riskCalculator.ts
-
-const INDUSTRY_DATA: Record<string, { baseCost: number; riskMultiplier: number }> = {
-  "marketing": { baseCost: 4500000, riskMultiplier: 1.2 }, 
-  "finance": { baseCost: 5600000, riskMultiplier: 1.5 },
-  "retail": { baseCost: 2000000, riskMultiplier: 1.0 },
-  "manufacturing": { baseCost: 1500000, riskMultiplier: 0.9 },
-  "other": { baseCost: 1000000, riskMultiplier: 1.0 },
-};
-
-export function calculateFinancialRisk(
-  industry: string, 
-  employeeCount: number, 
-  securityScore: number
-) {
-  const data = INDUSTRY_DATA[industry] || INDUSTRY_DATA["other"];
-  
-  let sizeFactor = 0;
-  if (employeeCount < 10) sizeFactor = 0.002;
-  else if (employeeCount < 50) sizeFactor = 0.005;
-  else sizeFactor = 0.015;
-
-  const vulnerabilityFactor = (100 - securityScore) / 100;
-  const estimatedLoss = data.baseCost * sizeFactor * vulnerabilityFactor;
-
-  return Math.ceil(estimatedLoss / 100) * 100;
-}
\ No newline at end of file
+// app/riskCalculator.ts
+import MODEL from './data/riskModel.json';
+import type { FindingCategory, ScanResult, Severity } from './findings';
+import { failedFindings, isInconclusive } from './findings';
+
+// --- MODEL FORMAT (data/riskModel.json) ---
+//   industries:      breachCost is the cost of a serious breach at a large organisation in the sector
+//                    (in baseCurrency); riskMultiplier is how heavily the sector is targeted, applied to likelihoods
+//   sizeBands:       costFactor scales breachCost down to the organisation; the first band that fits is used
+//   categories:      likelihood is the annual chance that one critical failing in the category is exploited;
+//                    impact is the share of the breach cost such an incident causes
+//   severityWeights: scales a category's likelihood by the finding's severity
+//   scenarios:       multipliers on every likelihood for the low, likely and high figures
+//   currencies:      perBase converts baseCurrency amounts; EXPOSURE_CURRENCY picks one, else defaultCurrency
+// Each failing finding is an independent chance of an incident in its category; a category's losses are
+// its impact times the chance that at least one of its findings is exploited, and the total is capped at
+// the full breach cost.
+
+export interface ExposureRange {
+  currency: string;
+  low: number;
+  likely: number;
+  high: number;
+}
+
+// One failing finding's share of the likely figure
+export interface ExposureDriver {
+  findingId: string;
+  subject: string | null;
+  title: string;
+  category: FindingCategory;
+  severity: Severity;
+  // Annual chance (0-1) this finding is exploited, in the likely scenario
+  likelihood: number;
+  amount: number;
+  // Percentage of the likely figure
+  share: number;
+}
+
+export interface CategoryExposure {
+  category: FindingCategory;
+  // Chance (0-1) at least one of the category's findings is exploited, in the likely scenario
+  likelihood: number;
+  impact: number;
+  amount: number;
+  rationale: string;
+}
+
+export interface ExposureEstimate extends ExposureRange {
+  modelVersion: number;
+  industry: string;
+  employees: number;
+  sizeBand: string;
+  riskMultiplier: number;
+  // Cost of a serious breach for an organisation of this sector and size, before any likelihood
+  breachCost: number;
+  categories: CategoryExposure[];
+  drivers: ExposureDriver[];
+  // Checks that didn't complete; anything they would have found isn't priced
+  unassessed: string[];
+}
+
+type Scenario = "low" | "likely" | "high";
+const SCENARIOS: Scenario[] = ["low", "likely", "high"];
+
+export const INDUSTRY_LABELS: Record<string, string> = Object.fromEntries(Object.entries(MODEL.industries).map(([id, industry]) => [id, industry.label]));
+export const EXPOSURE_CURRENCIES = Object.keys(MODEL.currencies);
+
+// --- HELPER: FORMATTING ---
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-GB", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount);
+
+export const formatExposureRange = ({ low, high, currency }: ExposureRange) => `${formatMoney(low, currency)} – ${formatMoney(high, currency)}`;
+
+// Whole hundreds, rounded up, so the figures don't claim more precision than the model has
+const roundUp = (amount: number) => Math.ceil(amount / 100) * 100;
+
+function exposureCurrency() {
+  const wanted = process.env.EXPOSURE_CURRENCY?.toUpperCase();
+  return wanted && wanted in MODEL.currencies ? wanted : MODEL.defaultCurrency;
+}
+
+// --- ESTIMATE ---
+export function estimateExposure(scan: Pick<ScanResult, "findings" | "checks">, options: { industry: string, employees: number }): ExposureEstimate {
+  const industries: Record<string, { breachCost: number, riskMultiplier: number }> = MODEL.industries;
+  const categories: Record<string, { likelihood: number, impact: number, rationale: string }> = MODEL.categories;
+  const industry = industries[options.industry] ? options.industry : "other";
+  const { breachCost, riskMultiplier } = industries[industry];
+  const band = MODEL.sizeBands.find(b => b.maxEmployees === null || options.employees <= b.maxEmployees) ?? MODEL.sizeBands[MODEL.sizeBands.length - 1];
+  const currency = exposureCurrency();
+  const rate = (MODEL.currencies as Record<string, { perBase: number }>)[currency].perBase;
+  const orgCost = breachCost * band.costFactor * rate;
+
+  const scored = failedFindings(scan.findings).map(finding => {
+    const base = (categories[finding.category]?.likelihood ?? 0) * MODEL.severityWeights[finding.severity] * riskMultiplier;
+    const chance = (scenario: Scenario) => Math.min(1, base * MODEL.scenarios[scenario]);
+    return { finding, chance };
+  }).filter(s => s.chance("likely") > 0);
+
+  // Losses per category and scenario: impact × P(at least one finding in the category is exploited)
+  const byCategory = [...new Set(scored.map(s => s.finding.category))].map(category => {
+    const members = scored.filter(s => s.finding.category === category);
+    const chance = (scenario: Scenario) => 1 - members.reduce((none, s) => none * (1 - s.chance(scenario)), 1);
+    const loss = Object.fromEntries(SCENARIOS.map(s => [s, orgCost * categories[category].impact * chance(s)])) as Record<Scenario, number>;
+    return { category, members, likelihood: chance("likely"), loss };
+  });
+  const totals = Object.fromEntries(SCENARIOS.map(s => [s, Math.min(orgCost, byCategory.reduce((sum, c) => sum + c.loss[s], 0))])) as Record<Scenario, number>;
+
+  // Drivers split their category's likely losses in proportion to their own chance, then scale with any cap
+  const uncapped = byCategory.reduce((sum, c) => sum + c.loss.likely, 0);
+  const scale = uncapped > 0 ? totals.likely / uncapped : 0;
+  const drivers = byCategory.flatMap(c => {
+    const weight = c.members.reduce((sum, s) => sum + s.chance("likely"), 0);
+    return c.members.map(({ finding, chance }): ExposureDriver => {
+      const amount = c.loss.likely * scale * chance("likely") / weight;
+      return {
+        findingId: finding.id,
+        subject: finding.subject ?? null,
+        title: finding.title,
+        category: finding.category,
+        severity: finding.severity,
+        likelihood: Number(chance("likely").toFixed(3)),
+        amount: Math.round(amount),
+        share: totals.likely > 0 ? Number((amount / totals.likely * 100).toFixed(1)) : 0,
+      };
+    });
+  }).sort((a, b) => b.amount - a.amount);
+
+  return {
+    modelVersion: MODEL.version,
+    currency,
+    low: roundUp(totals.low),
+    likely: roundUp(totals.likely),
+    high: roundUp(totals.high),
+    industry,
+    employees: options.employees,
+    sizeBand: band.label,
+    riskMultiplier,
+    breachCost: Math.round(orgCost),
+    categories: byCategory.map(c => ({
+      category: c.category,
+      likelihood: Number(c.likelihood.toFixed(3)),
+      impact: categories[c.category].impact,
+      amount: Math.round(c.loss.likely * scale),
+      rationale: categories[c.category].rationale,
+    })).sort((a, b) => b.amount - a.amount),
+    drivers,
+    unassessed: scan.checks.filter(isInconclusive).map(run => run.name),
+  };
+}
@@ -0,0 +1,61 @@
+// app/scanDiff.ts
+import { failedFindings, type Finding, type ScanResult } from './findings';
+
+export interface ScanDiff {
+  scoreChange: number;
+  // False when the scans used different profiles or scoring versions, so the score change isn't like-for-like
+  comparable: boolean;
+  newIssues: Finding[];
+  resolvedIssues: Finding[];
+  persistingIssues: Finding[];
+  certificateRenewed: { from: string, to: string } | null;
+  headersAdded: string[];
+  headersRemoved: string[];
+}
+
+// Header findings come in "<prefix>.missing" / "<prefix>.<other>" families
+export const HEADER_FINDINGS: Record<string, string> = {
+  "web.hsts": "Strict-Transport-Security",
+  "web.nosniff": "X-Content-Type-Options",
+  "web.clickjacking": "X-Frame-Options / frame-ancestors",
+  "web.referrer-policy": "Referrer-Policy",
+  "web.permissions-policy": "Permissions-Policy",
+  "web.cross-origin": "Cross-Origin isolation headers",
+  "web.csp": "Content-Security-Policy",
+};
+
+const CERTIFICATE_FINDINGS = ["tls.valid", "tls.expiring", "tls.expired"];
+
+// The same issue on the same subject (e.g. the same open port) is the same issue in both scans
+const findingKey = (f: Finding) => `${f.id}:${f.subject ?? ""}`;
+
+// true/false for present/missing, null when the check didn't run in that scan
+export function headerPresent(scan: ScanResult, prefix: string): boolean | null {
+  const family = scan.findings.filter(f => f.id.startsWith(`${prefix}.`));
+  if (family.length === 0) return null;
+  return !family.some(f => f.id === `${prefix}.missing`);
+}
+
+function certificateExpiry(scan: ScanResult) {
+  const cert = scan.findings.find(f => CERTIFICATE_FINDINGS.includes(f.id));
+  return typeof cert?.evidence.validTo === "string" ? cert.evidence.validTo : null;
+}
+
+export function diffScans(before: ScanResult, after: ScanResult): ScanDiff {
+  const beforeIssues = new Map(failedFindings(before.findings).map(f => [findingKey(f), f]));
+  const afterIssues = new Map(failedFindings(after.findings).map(f => [findingKey(f), f]));
+
+  const headerChanges = Object.entries(HEADER_FINDINGS).map(([prefix, header]) => ({ header, was: headerPresent(before, prefix), now: headerPresent(after, prefix) }));
+  const [oldExpiry, newExpiry] = [certificateExpiry(before), certificateExpiry(after)];
+
+  return {
+    scoreChange: after.score - before.score,
+    comparable: before.profile === after.profile && before.scoringVersion === after.scoringVersion && !before.deep === !after.deep,
+    newIssues: [...afterIssues].filter(([key]) => !beforeIssues.has(key)).map(([, f]) => f),
+    resolvedIssues: [...beforeIssues].filter(([key]) => !afterIssues.has(key)).map(([, f]) => f),
+    persistingIssues: [...afterIssues].filter(([key]) => beforeIssues.has(key)).map(([, f]) => f),
+    certificateRenewed: oldExpiry && newExpiry && Date.parse(newExpiry) > Date.parse(oldExpiry) ? { from: oldExpiry, to: newExpiry } : null,
+    headersAdded: headerChanges.filter(c => c.was === false && c.now === true).map(c => c.header),
+    headersRemoved: headerChanges.filter(c => c.was === true && c.now === false).map(c => c.header),
+  };
+}
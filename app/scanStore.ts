@@ -0,0 +1,88 @@
+// app/scanStore.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { assessCompliance, type ComplianceAssessment } from './compliance';
+import type { ScanResult } from './findings';
+import type { ReportOptions } from './report';
+import { estimateExposure, type ExposureEstimate } from './riskCalculator';
+
+// A finished scan as kept on disk, with the client details it was priced with
+export interface StoredScan {
+  id: string;
+  scan: ScanResult;
+  options: ReportOptions;
+  exposure: ExposureEstimate;
+  // The compliance readiness as mapped when the scan was stored
+  compliance: ComplianceAssessment;
+}
+
+export interface DomainSummary {
+  domain: string;
+  scans: number;
+  latestScore: number;
+  lastScannedAt: string;
+}
+
+// --- FILE STORE ---
+// One JSON file per scan, named <domain>_<UTC timestamp>_<random>.json, so a directory listing
+// is enough to find a domain's history and the IDs sort chronologically.
+const storeDir = () => process.env.SCAN_STORE_DIR ?? path.join(process.cwd(), ".data", "scans");
+const SCAN_ID = /^([a-z0-9.-]+)_(\d{8}T\d{6}Z)_[0-9a-f]{6}$/;
+
+function createScanId(scan: ScanResult) {
+  const stamp = scan.scannedAt.replace(/[-:]/g, "").replace(/\.\d+/, "");
+  return `${scan.domain}_${stamp}_${randomBytes(3).toString("hex")}`;
+}
+
+async function readScan(id: string): Promise<StoredScan | null> {
+  try {
+    const stored = JSON.parse(await fs.readFile(path.join(storeDir(), `${id}.json`), "utf8")) as StoredScan;
+    // Scans stored before per-check status was recorded
+    stored.scan.checks ??= [];
+    // Scans stored with a single exposure figure are re-priced with the current model
+    if (typeof stored.exposure === "number") stored.exposure = estimateExposure(stored.scan, stored.options);
+    // Scans stored before compliance mapping are assessed with the current mapping, whose version the report shows
+    stored.compliance ??= assessCompliance(stored.scan);
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+async function listIds() {
+  const files = await fs.readdir(storeDir()).catch(() => [] as string[]);
+  return files.map(f => f.replace(/\.json$/, "")).filter(id => SCAN_ID.test(id)).sort();
+}
+
+export async function saveScan(scan: ScanResult, options: ReportOptions): Promise<StoredScan> {
+  const stored: StoredScan = { id: createScanId(scan), scan, options, exposure: estimateExposure(scan, options), compliance: assessCompliance(scan) };
+  await fs.mkdir(storeDir(), { recursive: true });
+  await fs.writeFile(path.join(storeDir(), `${stored.id}.json`), JSON.stringify(stored, null, 2));
+  return stored;
+}
+
+// IDs come from URLs, so anything that isn't one of ours is treated as missing rather than read
+export async function getScan(id: string): Promise<StoredScan | null> {
+  return SCAN_ID.test(id) ? readScan(id) : null;
+}
+
+// Oldest first
+export async function listScans(domain: string): Promise<StoredScan[]> {
+  const ids = (await listIds()).filter(id => id.match(SCAN_ID)![1] === domain);
+  const scans = await Promise.all(ids.map(readScan));
+  return scans.filter((s): s is StoredScan => s !== null);
+}
+
+export async function listDomains(): Promise<DomainSummary[]> {
+  const byDomain = new Map<string, string[]>();
+  (await listIds()).forEach(id => {
+    const domain = id.match(SCAN_ID)![1];
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), id]);
+  });
+  const summaries = await Promise.all([...byDomain].map(async ([domain, ids]) => {
+    const latest = await readScan(ids[ids.length - 1]);
+    return latest && { domain, scans: ids.length, latestScore: latest.scan.score, lastScannedAt: latest.scan.scannedAt };
+  }));
+  return summaries.filter((s): s is DomainSummary => s !== null).sort((a, b) => b.lastScannedAt.localeCompare(a.lastScannedAt));
+}
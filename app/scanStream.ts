@@ -0,0 +1,33 @@
+// app/scanStream.ts
+import type { ReportOptions } from './report';
+import { saveScan, type StoredScan } from './scanStore';
+import { runScan, TargetError, type ScanEvent } from './scanner';
+
+// Sent to the dashboard as newline-delimited JSON while a scan runs. The engine's progress events
+// come first; "stored" (the saved, final scan) or "error" is always the last line.
+export type ScanStreamEvent = ScanEvent | { type: "stored", stored: StoredScan } | { type: "error", error: string };
+
+export function streamScan(domain: string, settings: { profile?: string, ports?: string, deep?: boolean }, options: ReportOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  // The browser may go away mid-scan; the scan still finishes and is stored
+  let cancelled = false;
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ScanStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        const scan = await runScan(domain, settings.profile, { onEvent: send, ports: settings.ports, deep: settings.deep });
+        send({ type: "stored", stored: await saveScan(scan, options) });
+      } catch (e) {
+        // Refused targets are explained; anything else is logged here and kept generic for the browser
+        if (!(e instanceof TargetError)) console.error(e);
+        send({ type: "error", error: e instanceof TargetError ? e.message : "The scan failed unexpectedly. Please try again." });
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
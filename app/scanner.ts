@@ -0,0 +1,148 @@
+// app/scanner.ts
+import dns from 'dns/promises';
+import { isInconclusive, type CheckRun, type DraftFinding, type Finding, type ScanResult } from './findings';
+import { listChecks, type CheckModule, type PageSnapshot, type ScanContext } from './checks';
+import { DEFAULT_PORT_PROFILE, resolvePortSelection, type PortDefinition } from './portProfiles';
+import { getScoringProfile, isCheckEnabled, scoreCheck, scoreChecks, SCORING_VERSION, totalCheckWeight } from './scoring';
+import { guardedFetch, guardedLookup, noRecords, normalizeDomain, resolveTarget, TargetError, type ResolvedTarget } from './targets';
+import { isVerified } from './verification';
+
+export { hostnameProblem, isValidDomain, normalizeDomain, TargetError } from './targets';
+
+const MAX_REDIRECTS = 10;
+// Longest a single check may run before it is reported as timed out
+const CHECK_TIMEOUT_MS = 30_000;
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No result after ${Math.round(ms / 1000)}s`);
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number) {
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new TimeoutError(ms)), ms); }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+// Lookups are memoised so checks can ask for the same data without repeating network calls
+function createScanContext(target: ResolvedTarget, portProfile: string, ports: PortDefinition[]): ScanContext {
+  const domain = target.hostname;
+  const lookup = guardedLookup(target);
+  let page: Promise<PageSnapshot> | undefined;
+  const txtCache = new Map<string, Promise<string[]>>();
+  const sharedCache = new Map<string, Promise<unknown>>();
+
+  return {
+    domain,
+    addresses: target.addresses,
+    ports,
+    portProfile,
+    lookup,
+    fetch: (url, options) => guardedFetch(url, lookup, options),
+    fetchPage() {
+      page ??= (async () => {
+        // Redirects are followed by hand so checks can see every hop and the cookies each one sets
+        let url = `https://${domain}`;
+        const redirects: PageSnapshot["redirects"] = [];
+        const setCookies: string[] = [];
+        for (let hop = 0; ; hop++) {
+          // We use a high-quality User-Agent to prevent 403 blocks from Firewalls
+          const response = await guardedFetch(url, lookup, {
+            headers: {
+              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            }
+          });
+          setCookies.push(...response.headers.getSetCookie());
+          const location = response.headers.get('location');
+          if (response.status >= 300 && response.status < 400 && location) {
+            if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects (>${MAX_REDIRECTS})`);
+            const next = new URL(location, url).href;
+            redirects.push({ status: response.status, url, location: next });
+            url = next;
+            continue;
+          }
+          return { url, status: response.status, headers: response.headers, html: response.body, redirects, setCookies };
+        }
+      })();
+      return page;
+    },
+    resolveTxt(hostname) {
+      if (!txtCache.has(hostname)) {
+        // A missing record is an answer, not a failure: NXDOMAIN/NODATA resolve to no records, while a
+        // resolver failure rejects, so checks can't mistake an outage for a missing SPF or DMARC record
+        txtCache.set(hostname, dns.resolveTxt(hostname).then(records => records.map(r => r.join(""))).catch(noRecords));
+      }
+      return txtCache.get(hostname)!;
+    },
+    shared<T>(key: string, load: () => Promise<T>) {
+      if (!sharedCache.has(key)) sharedCache.set(key, load());
+      return sharedCache.get(key) as Promise<T>;
+    },
+  };
+}
+
+// --- PROGRESS EVENTS ---
+// "started" lists every check as queued; "check" follows each one through running to its outcome.
+// Findings on a "check" event are scored as if every check will complete, so they are provisional:
+// the final ScanResult re-scores without any that turned out inconclusive.
+export type ScanEvent =
+  | { type: "started", domain: string, profile: string, checks: CheckRun[] }
+  | { type: "check", run: CheckRun, findings: Finding[] };
+
+export interface ScanOptions {
+  onEvent?: (event: ScanEvent) => void;
+  checkTimeoutMs?: number;
+  // A port profile id or a comma-separated port list; see ./portProfiles
+  ports?: string;
+  // Adds the checks marked deep; only allowed once the domain's owner has verified control
+  deep?: boolean;
+}
+
+// Throws a TargetError, before any probe is sent, if the domain is malformed, doesn't resolve,
+// resolves into private or reserved address space, or is deep scanned without verification
+export async function runScan(domain: string, profileId?: string, options: ScanOptions = {}): Promise<ScanResult> {
+  const { onEvent = () => {}, checkTimeoutMs = CHECK_TIMEOUT_MS, ports = DEFAULT_PORT_PROFILE, deep = false } = options;
+  const portDefinitions = resolvePortSelection(ports);
+  if (!portDefinitions) throw new Error(`Unknown port profile or invalid port list '${ports}'`);
+  const cleanDomain = normalizeDomain(domain);
+  const profile = getScoringProfile(profileId);
+  if (deep && !(await isVerified(cleanDomain))) throw new TargetError("unverified", `Deep scans need verified ownership of ${cleanDomain}. Verify the domain first.`);
+  const ctx = createScanContext(await resolveTarget(cleanDomain), ports, portDefinitions);
+
+  const checks = listChecks().filter(check => (!check.deep || deep) && isCheckEnabled(check, profile));
+  const provisionalWeight = totalCheckWeight(checks, profile);
+  const queued = (check: CheckModule): CheckRun => ({ checkId: check.id, name: check.name, category: check.category, status: "queued", durationMs: null, error: null });
+  onEvent({ type: "started", domain: cleanDomain, profile: profile.id, checks: checks.map(queued) });
+
+  // A check that throws or hangs is recorded as inconclusive rather than failing the whole scan
+  const results = await Promise.all(checks.map(async check => {
+    const started = Date.now();
+    onEvent({ type: "check", run: { ...queued(check), status: "running" }, findings: [] });
+    let run: CheckRun;
+    let drafts: DraftFinding[] = [];
+    try {
+      drafts = await withTimeout(check.run(ctx), check.timeoutMs ?? checkTimeoutMs);
+      run = { ...queued(check), status: drafts.some(f => !f.passed) ? "failed" : "passed", durationMs: Date.now() - started };
+    } catch (e) {
+      run = { ...queued(check), status: e instanceof TimeoutError ? "timed-out" : "errored", durationMs: Date.now() - started, error: e instanceof Error ? e.message : String(e) };
+    }
+    onEvent({ type: "check", run, findings: scoreCheck(check, drafts, profile, provisionalWeight).findings });
+    return { check, findings: drafts, run };
+  }));
+  const { score, findings, breakdown } = scoreChecks(results.map(r => ({ ...r, inconclusive: isInconclusive(r.run) })), profile);
+
+  return {
+    domain: cleanDomain,
+    scannedAt: new Date().toISOString(),
+    profile: profile.id,
+    scoringVersion: SCORING_VERSION,
+    score,
+    findings,
+    breakdown,
+    checks: results.map(r => r.run),
+    deep,
+  };
+}
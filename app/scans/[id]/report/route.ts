@@ -0,0 +1,22 @@
+import { audit } from '../../../auditLog';
+import { canViewDomain, currentUser } from '../../../auth';
+import { renderReport } from '../../../report';
+import { getScan } from '../../../scanStore';
+
+// Re-renders the client report for a stored scan as a download. Client users only get their own
+// organisation's reports; anyone else's scan is reported as missing.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await currentUser();
+  if (!user) return new Response("Sign in to download reports", { status: 401 });
+  const { id } = await params;
+  const stored = await getScan(id);
+  if (!stored || !(await canViewDomain(user, stored.scan.domain))) return new Response("Scan not found", { status: 404 });
+  const report = renderReport(stored.scan, stored.options, stored.exposure, stored.compliance);
+  await audit(user.email, "report", stored.scan.domain, { scanId: id });
+  return new Response(report.html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${report.filename}"`,
+    },
+  });
+}
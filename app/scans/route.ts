@@ -0,0 +1,46 @@
+import { audit } from '../auditLog';
+import { AuthError, requireUser } from '../auth';
+import { reportOptionsFor } from '../organisations';
+import { resolvePortSelection } from '../portProfiles';
+import { normalizeDomain } from '../scanner';
+import { streamScan, type ScanStreamEvent } from '../scanStream';
+
+const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-store",
+  // Stop reverse proxies from holding events back until the scan ends
+  "X-Accel-Buffering": "no",
+};
+
+// Same shape as a failed scan, so the dashboard shows it the same way
+const errorEvent = (status: number, error: string) => {
+  const event: ScanStreamEvent = { type: "error", error };
+  return new Response(`${JSON.stringify(event)}\n`, { status, headers: NDJSON_HEADERS });
+};
+
+// POST /scans — { domain, profile?, ports?, deep?, industry, employees }
+// Streams the scan's progress as newline-delimited ScanStreamEvents; the dashboard renders each as it arrives.
+// Consultants and admins only. A client organisation's domain is always priced with its own profile.
+// A deep scan of a domain without verified ownership ends with an error event before any probe is sent.
+export async function POST(request: Request) {
+  let user;
+  try {
+    user = await requireUser("consultant");
+  } catch (e) {
+    if (e instanceof AuthError) return errorEvent(e.status, e.message);
+    throw e;
+  }
+  const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+  const domain = typeof body?.domain === "string" ? normalizeDomain(body.domain) : "";
+  const profile = typeof body?.profile === "string" ? body.profile : undefined;
+  if (typeof body?.ports === "string" && !resolvePortSelection(body.ports)) {
+    return errorEvent(422, "Ports must be a port profile or a comma-separated list of port numbers (1-65535).");
+  }
+  const ports = typeof body?.ports === "string" ? body.ports : undefined;
+  const deep = body?.deep === true;
+  const industry = typeof body?.industry === "string" ? body.industry : "other";
+  const employees = typeof body?.employees === "number" && body.employees > 0 ? body.employees : 5;
+  const options = await reportOptionsFor(domain, { industry, employees });
+  await audit(user.email, "scan", domain, { profile: profile ?? null, ports: ports ?? null, deep });
+  return new Response(streamScan(domain, { profile, ports, deep }, options), { headers: NDJSON_HEADERS });
+}
@@ -0,0 +1,155 @@
+// app/scoring.ts
+import type { CheckContribution, DraftFinding, Finding, Severity } from './findings';
+import type { CheckModule } from './checks/types';
+
+export interface CheckSetting {
+  enabled?: boolean;
+  weight?: number;
+  severity?: Severity;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Checks not listed here run with the weight and severity their module declares
+  checks: Record<string, CheckSetting>;
+}
+
+export const DEFAULT_PROFILE = "standard";
+// Bump whenever check weights, finding penalties or the formula below change
+// v2: checks that error or time out are left out of the total instead of scoring as a pass
+// v3: a finding's scoreImpact is scaled down when its check's findings together exceed the check's weight
+export const SCORING_VERSION = 3;
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  "standard": {
+    id: "standard",
+    name: "Standard",
+    description: "Balanced weighting across exposed services, TLS, email authentication and web headers.",
+    checks: {},
+  },
+  "strict-finance": {
+    id: "strict-finance",
+    name: "Strict Finance",
+    description: "For regulated firms: email spoofing and transport security dominate, and any gap is treated as critical.",
+    checks: {
+      ports: { weight: 25 },
+      tls: { weight: 25 },
+      "tls-config": { weight: 15, severity: "high" },
+      spf: { weight: 15, severity: "critical" },
+      dmarc: { weight: 25, severity: "critical" },
+      dkim: { weight: 15, severity: "high" },
+      "mail-transport": { weight: 10, severity: "medium" },
+      "dns-infra": { weight: 10, severity: "high" },
+      takeover: { weight: 10 },
+      headers: { weight: 10, severity: "high" },
+      csp: { weight: 10, severity: "high" },
+      cookies: { weight: 10, severity: "high" },
+      components: { weight: 15, severity: "critical" },
+      "client-libraries": { severity: "critical" },
+      "admin-exposure": { severity: "high" },
+    },
+  },
+  "small-business": {
+    id: "small-business",
+    name: "Small Business",
+    description: "Focuses on the basics that stop opportunistic attacks; hardening headers carry less weight.",
+    checks: {
+      ports: { weight: 35 },
+      tls: { weight: 30 },
+      "tls-config": { weight: 5, severity: "low" },
+      spf: { weight: 15 },
+      dmarc: { weight: 15, severity: "medium" },
+      dkim: { weight: 5 },
+      "mail-transport": { enabled: false },
+      "dns-infra": { weight: 5, severity: "low" },
+      takeover: { weight: 10 },
+      headers: { weight: 5, severity: "low" },
+      csp: { enabled: false },
+      cookies: { weight: 5, severity: "low" },
+      components: { weight: 15 },
+    },
+  },
+};
+
+export function getScoringProfile(id?: string): ScoringProfile {
+  return (id && SCORING_PROFILES[id]) || SCORING_PROFILES[DEFAULT_PROFILE];
+}
+
+export function resolveCheckSettings(check: CheckModule, profile: ScoringProfile) {
+  const setting = profile.checks[check.id] ?? {};
+  return {
+    enabled: setting.enabled ?? true,
+    weight: setting.weight ?? check.weight,
+    severity: setting.severity ?? check.severity,
+  };
+}
+
+export function isCheckEnabled(check: CheckModule, profile: ScoringProfile) {
+  return resolveCheckSettings(check, profile).enabled;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const SEVERITY_SCALE: Severity[] = ["low", "medium", "high", "critical"];
+
+// A profile that re-grades a check shifts each of its scored failures by the same number of steps,
+// so a minor finding stays minor relative to the check's headline issue.
+function shiftSeverity(severity: Severity, from: Severity, to: Severity): Severity {
+  const index = SEVERITY_SCALE.indexOf(severity);
+  if (index < 0) return severity;
+  const shifted = index + SEVERITY_SCALE.indexOf(to) - SEVERITY_SCALE.indexOf(from);
+  return SEVERITY_SCALE[Math.min(SEVERITY_SCALE.length - 1, Math.max(0, shifted))];
+}
+
+// Scores one check's findings as a share of `totalWeight`. Used on its own to show provisional
+// results while the rest of a scan is still running.
+export function scoreCheck(check: CheckModule, drafts: DraftFinding[], profile: ScoringProfile, totalWeight: number) {
+  const { weight, severity } = resolveCheckSettings(check, profile);
+  const toPoints = (w: number) => (totalWeight > 0 ? (w / totalWeight) * 100 : 0);
+  const lost = drafts.reduce((total, draft) => total + (draft.passed ? 0 : weight * draft.penalty), 0);
+  // The check loses at most its weight; past that, each finding's impact is scaled down in proportion
+  // so the impacts shown beside the findings add up to what the check actually lost
+  const scale = lost > weight ? weight / lost : 1;
+  const findings: Finding[] = drafts.map(draft => {
+    const deduction = draft.passed ? 0 : weight * draft.penalty * scale;
+    return {
+      ...draft,
+      severity: deduction > 0 ? shiftSeverity(draft.severity, check.severity, severity) : draft.severity,
+      checkId: check.id,
+      scoreImpact: round1(toPoints(deduction)),
+    };
+  });
+  const contribution: CheckContribution = {
+    checkId: check.id,
+    name: check.name,
+    category: check.category,
+    severity,
+    pointsAvailable: round1(toPoints(weight)),
+    pointsLost: round1(toPoints(Math.min(weight, lost))),
+  };
+  return { findings, contribution };
+}
+
+export const totalCheckWeight = (checks: CheckModule[], profile: ScoringProfile) =>
+  checks.reduce((total, check) => total + resolveCheckSettings(check, profile).weight, 0);
+
+// Each check can lose at most its own weight; the total is normalised to a 0-100 score
+// so disabling a check never inflates or deflates the others. Inconclusive checks are
+// treated like disabled ones: we don't know whether they would have passed.
+export function scoreChecks(results: { check: CheckModule; findings: DraftFinding[]; inconclusive?: boolean }[], profile: ScoringProfile) {
+  const totalWeight = totalCheckWeight(results.filter(r => !r.inconclusive).map(r => r.check), profile);
+
+  const findings: Finding[] = [];
+  const breakdown: CheckContribution[] = [];
+
+  results.forEach(({ check, findings: drafts, inconclusive }) => {
+    const scored = scoreCheck(check, drafts, profile, inconclusive ? 0 : totalWeight);
+    findings.push(...scored.findings);
+    breakdown.push(inconclusive ? { ...scored.contribution, inconclusive } : scored.contribution);
+  });
+
+  const pointsLost = breakdown.reduce((total, c) => total + c.pointsLost, 0);
+  return { score: Math.max(0, Math.round(100 - pointsLost)), findings, breakdown };
+}
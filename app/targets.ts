@@ -0,0 +1,251 @@
+// app/targets.ts
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net, { type LookupFunction } from 'net';
+import { domainToASCII, domainToUnicode } from 'url';
+
+// Why a scan target (or a host a probe was about to contact) was refused
+// "unverified": a deep scan was asked for on a domain whose owner hasn't verified control
+// "unresolvable": the name has no A, AAAA or MX records, so there is nothing to scan
+export type TargetErrorCode = "invalid-hostname" | "reserved-name" | "blocked-address" | "unsupported-url" | "unverified" | "unresolvable";
+
+export class TargetError extends Error {
+  constructor(public code: TargetErrorCode, message: string) {
+    super(message);
+  }
+}
+
+// --- HELPER: HOSTNAME VALIDATION ---
+export function normalizeDomain(domain: string) {
+  const host = domain.trim().replace(/^(?:https?:\/\/)?(?:www\.)?/i, "").split(/[/?#]/)[0].replace(/:\d+$/, "").replace(/\.$/, "").toLowerCase();
+  // Unicode names become their punycode (xn--) form; anything domainToASCII rejects is kept as typed for hostnameProblem to explain
+  return domainToASCII(host) || host;
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{1,62}$/;
+
+// Special-use names (RFC 6761, RFC 6762, RFC 8375 and friends) that never point at a public site
+const RESERVED_SUFFIXES = ["localhost", "local", "internal", "intranet", "lan", "home.arpa", "arpa", "test", "invalid", "example", "onion", "alt"];
+
+// Expects a normalised domain. Returns why it can't be scanned, or null if it can.
+export function hostnameProblem(domain: string): { code: TargetErrorCode, message: string } | null {
+  if (!domain) return { code: "invalid-hostname", message: "Enter a domain such as example.com." };
+  if (net.isIP(domain.replace(/^\[|\]$/g, ""))) return { code: "invalid-hostname", message: `${domain} is an IP address; scan the domain name instead.` };
+  const suffix = RESERVED_SUFFIXES.find(s => domain === s || domain.endsWith(`.${s}`));
+  if (suffix) return { code: "reserved-name", message: `${domain} is a reserved name (.${suffix}) for private or special use and can't be scanned.` };
+  if (!DOMAIN_PATTERN.test(domain)) return { code: "invalid-hostname", message: `${domain} is not a valid domain name.` };
+  // An xn-- label must decode to Unicode and encode back to itself, or it isn't real punycode
+  const badLabel = domain.split(".").find(label => label.startsWith("xn--") && domainToASCII(domainToUnicode(label)) !== label);
+  if (badLabel) return { code: "invalid-hostname", message: `${badLabel} is not valid punycode.` };
+  return null;
+}
+
+export const isValidDomain = (domain: string) => hostnameProblem(domain) === null;
+
+// --- HELPER: RESERVED ADDRESS RANGES ---
+// Everything that isn't the public internet: loopback, RFC 1918, CGNAT, link-local (which
+// includes cloud metadata endpoints), documentation, benchmarking, multicast and reserved space
+const RESERVED_RANGES: [network: string, prefix: number, label: string][] = [
+  ["0.0.0.0", 8, "this network"],
+  ["10.0.0.0", 8, "private"],
+  ["100.64.0.0", 10, "carrier-grade NAT"],
+  ["127.0.0.0", 8, "loopback"],
+  ["169.254.0.0", 16, "link-local"],
+  ["172.16.0.0", 12, "private"],
+  ["192.0.0.0", 24, "IETF protocol assignments"],
+  ["192.0.2.0", 24, "documentation"],
+  ["192.88.99.0", 24, "6to4 relay"],
+  ["192.168.0.0", 16, "private"],
+  ["198.18.0.0", 15, "benchmarking"],
+  ["198.51.100.0", 24, "documentation"],
+  ["203.0.113.0", 24, "documentation"],
+  ["224.0.0.0", 4, "multicast"],
+  ["240.0.0.0", 4, "reserved"],
+  ["::", 128, "unspecified"],
+  ["::1", 128, "loopback"],
+  ["100::", 64, "discard-only"],
+  ["2001::", 23, "IETF protocol assignments"],
+  ["2001:db8::", 32, "documentation"],
+  ["2002::", 16, "6to4"],
+  ["3fff::", 20, "documentation"],
+  ["fc00::", 7, "unique local"],
+  ["fe80::", 10, "link-local"],
+  ["fec0::", 10, "site-local"],
+  ["ff00::", 8, "multicast"],
+];
+
+// IPv4-mapped addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges by BlockList itself;
+// NAT64 addresses (64:ff9b::a.b.c.d) reach the embedded IPv4 address, so each IPv4 range is mirrored there
+const reservedLists = RESERVED_RANGES.map(([network, prefix, label]) => {
+  const list = new net.BlockList();
+  if (net.isIPv6(network)) list.addSubnet(network, prefix, "ipv6");
+  else {
+    list.addSubnet(network, prefix, "ipv4");
+    list.addSubnet(`64:ff9b::${network}`, 96 + prefix, "ipv6");
+  }
+  return { list, label };
+});
+
+// The reserved range `address` falls in, or null for a public address
+export function reservedRange(address: string): string | null {
+  const family = net.isIP(address);
+  if (family === 0) return "not an IP address";
+  return reservedLists.find(r => r.list.check(address, family === 6 ? "ipv6" : "ipv4"))?.label ?? null;
+}
+
+// --- RESOLUTION AND PINNING ---
+export interface ResolvedTarget {
+  hostname: string;
+  // Every probe of `hostname` connects here, so a DNS answer can't change mid-scan (rebinding).
+  // Null when the name has no A/AAAA records but receives mail; DNS and email checks still run.
+  address: string | null;
+  addresses: string[];
+}
+
+// For resolver calls' `.catch`: NXDOMAIN and NODATA are answers (no such records), so they become an
+// empty list. Anything else (SERVFAIL, REFUSED, a timeout) means the resolver couldn't say, and is rethrown.
+export function noRecords(e: unknown): never[] {
+  const code = (e as NodeJS.ErrnoException).code;
+  if (code === "ENOTFOUND" || code === "ENODATA") return [];
+  throw e;
+}
+
+async function lookupAll(hostname: string) {
+  return dns.lookup(hostname, { all: true, verbatim: true }).catch(() => []);
+}
+
+function assertPublic(hostname: string, addresses: string[]) {
+  // A name with any private answer is refused outright, not just that answer
+  for (const address of addresses) {
+    const range = reservedRange(address);
+    if (range) throw new TargetError("blocked-address", `${hostname} resolves to ${address} (${range} address), which can't be scanned.`);
+  }
+}
+
+// Validates the hostname, resolves it once and refuses names that point into reserved space, or
+// that don't resolve at all
+export async function resolveTarget(hostname: string): Promise<ResolvedTarget> {
+  const problem = hostnameProblem(hostname);
+  if (problem) throw new TargetError(problem.code, problem.message);
+  const answers = await lookupAll(hostname);
+  const addresses = answers.map(a => a.address);
+  assertPublic(hostname, addresses);
+  if (addresses.length === 0) {
+    // A mail-only domain has no website, but its DNS and email can still be scanned
+    const mx = await dns.resolveMx(hostname).catch(noRecords).catch((e: NodeJS.ErrnoException) => {
+      throw new TargetError("unresolvable", `${hostname} could not be resolved (${e.code ?? e.message}). Try again later.`);
+    });
+    if (mx.length === 0) throw new TargetError("unresolvable", `${hostname} does not resolve: it has no A, AAAA or MX records.`);
+  }
+  // IPv4 first: plenty of scanners have no IPv6 route
+  return { hostname, address: answers.find(a => a.family === 4)?.address ?? addresses[0] ?? null, addresses };
+}
+
+const answerLookup = (options: Parameters<LookupFunction>[1], callback: Parameters<LookupFunction>[2], address: string) => {
+  const family = net.isIP(address);
+  if (options.all) callback(null, [{ address, family }]);
+  else callback(null, address, family);
+};
+
+// A net/tls/http `lookup` that answers the pinned target from the pin and checks every other
+// name at connection time, so redirects and secondary hosts can't reach reserved space either
+export function guardedLookup(target: ResolvedTarget): LookupFunction {
+  return (hostname, options, callback) => {
+    if (hostname !== target.hostname) return publicLookup(hostname, options, callback);
+    if (target.address) answerLookup(options, callback, target.address);
+    else callback(Object.assign(new Error(`${hostname} has no A or AAAA records`), { code: "ENOTFOUND" }), "", 0);
+  };
+}
+
+// A `lookup` for hosts outside any scan (e.g. alert webhooks): every name is resolved and checked
+// at connection time, so a DNS answer that changes after validation (rebinding) is still refused
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupAll(hostname).then(answers => {
+    if (answers.length === 0) throw Object.assign(new Error(`${hostname} does not resolve`), { code: "ENOTFOUND" });
+    assertPublic(hostname, answers.map(a => a.address));
+    answerLookup(options, callback, answers.find(a => a.family === 4)?.address ?? answers[0].address);
+  }).catch(e => callback(e, "", 0));
+};
+
+// Why a URL the server will call later (e.g. a webhook) can't be used, or null if it can
+export async function publicUrlProblem(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `${url} is not a URL.`;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return `${url} must be an http:// or https:// URL.`;
+  const literal = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(literal)) {
+    const range = reservedRange(literal);
+    return range ? `${url} points at a ${range} address.` : null;
+  }
+  const problem = hostnameProblem(parsed.hostname);
+  if (problem) return problem.message;
+  const answers = await lookupAll(parsed.hostname);
+  if (answers.length === 0) return `${parsed.hostname} does not resolve.`;
+  try {
+    assertPublic(parsed.hostname, answers.map(a => a.address));
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+// --- HELPER: GUARDED HTTP ---
+// fetch() can't be given a lookup, so probes use http(s).request, which can. Redirects are never
+// followed here; callers that follow them pass each Location back through, so every hop is checked.
+// `maxBytes` reads only the start of the body (e.g. to sniff a possibly large file) instead of
+// failing past the usual limit. `method` and `body` are for callers that post (e.g. webhooks).
+export interface GuardedResponse {
+  url: string;
+  status: number;
+  headers: Headers;
+  body: string;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export function guardedFetch(url: string, lookup: LookupFunction, options: { method?: string, headers?: Record<string, string>, body?: string, timeoutMs?: number, maxBytes?: number } = {}): Promise<GuardedResponse> {
+  return new Promise((resolve, reject) => {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      reject(new TargetError("unsupported-url", `Refusing to fetch ${parsed.protocol} URL ${url}`));
+      return;
+    }
+    // IP literals never reach `lookup`, so they are checked here
+    const literal = parsed.hostname.replace(/^\[|\]$/g, "");
+    const range = net.isIP(literal) ? reservedRange(literal) : null;
+    if (range) {
+      reject(new TargetError("blocked-address", `Refusing to fetch ${url} (${range} address)`));
+      return;
+    }
+
+    const client = parsed.protocol === "https:" ? https : http;
+    const request = client.request(parsed, { method: options.method ?? "GET", headers: options.headers, lookup, timeout: options.timeoutMs ?? 10_000 }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const finish = () => {
+        const headers = new Headers();
+        for (let i = 0; i < response.rawHeaders.length; i += 2) headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+        resolve({ url, status: response.statusCode ?? 0, headers, body: Buffer.concat(chunks).toString("utf8") });
+      };
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (options.maxBytes !== undefined && size >= options.maxBytes) {
+          chunks.push(chunk.subarray(0, chunk.length - (size - options.maxBytes)));
+          finish();
+          response.destroy();
+        } else if (size > MAX_BODY_BYTES) response.destroy(new Error(`Response from ${url} exceeds ${MAX_BODY_BYTES} bytes`));
+        else chunks.push(chunk);
+      });
+      response.on("error", reject);
+      response.on("end", finish);
+    });
+    request.on("timeout", () => request.destroy(new Error(`No response from ${url} after ${Math.round((options.timeoutMs ?? 10_000) / 1000)}s`)));
+    request.on("error", reject);
+    request.end(options.body);
+  });
+}
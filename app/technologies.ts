@@ -0,0 +1,139 @@
+// app/technologies.ts
+import SIGNATURES from './data/technologies.json';
+import type { Finding } from './findings';
+
+export type TechCategory =
+  | "cms" | "ecommerce" | "js-framework" | "js-library" | "cdn" | "waf"
+  | "analytics" | "hosting" | "web-server" | "language";
+
+export const TECH_CATEGORY_LABELS: Record<TechCategory, string> = {
+  "cms": "CMS",
+  "ecommerce": "E-commerce",
+  "js-framework": "JS Framework",
+  "js-library": "JS Library",
+  "cdn": "CDN",
+  "waf": "WAF",
+  "analytics": "Analytics",
+  "hosting": "Hosting",
+  "web-server": "Web Server",
+  "language": "Language",
+};
+
+export interface TechDetection {
+  name: string;
+  category: TechCategory;
+  version: string | null;
+  // 0-100: how sure we are, combined across every signal that matched
+  confidence: number;
+  signals: string[];
+}
+
+// --- SIGNATURE FORMAT (data/technologies.json) ---
+// Each pattern is a case-insensitive regex, optionally with a confidence (default per signal
+// type below). The first capture group, when present and non-empty, is taken as the version.
+//   meta:    { "<meta name>": pattern }      matched against <meta name=... content=...>
+//   headers: { "<header>": pattern }         "" means the header's presence is enough
+//   cookies: [pattern]                       matched against cookie names
+//   scripts: [pattern]                       matched against each <script src>
+//   html:    [pattern]                       matched against the raw page
+//   implies: [technology]                    added at the same confidence when not seen directly
+type Pattern = string | { pattern: string, confidence: number };
+interface Signature {
+  category: string;
+  meta?: Record<string, Pattern>;
+  headers?: Record<string, Pattern>;
+  cookies?: Pattern[];
+  scripts?: Pattern[];
+  html?: Pattern[];
+  implies?: string[];
+}
+
+const DEFAULT_CONFIDENCE = { meta: 100, headers: 100, cookies: 80, scripts: 80, html: 60 };
+// Detections below this are too speculative to show a client
+export const MIN_CONFIDENCE = 50;
+
+export interface FingerprintInput {
+  html: string;
+  headers: Headers;
+  cookieNames: string[];
+}
+
+function extractMeta(html: string) {
+  const meta: Record<string, string[]> = {};
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const name = tag.match(/\bname=["']?([^"'\s>]+)/i)?.[1]?.toLowerCase();
+    const content = tag.match(/\bcontent=(?:"([^"]*)"|'([^']*)')/i);
+    if (name && content) (meta[name] ??= []).push(content[1] ?? content[2]);
+  }
+  return meta;
+}
+
+const extractScripts = (html: string) => [...html.matchAll(/<script[^>]+src=["']([^"']+)["']/gi)].map(m => m[1]);
+
+export function detectTechnologies({ html, headers, cookieNames }: FingerprintInput): TechDetection[] {
+  const meta = extractMeta(html);
+  const scripts = extractScripts(html);
+  const found = new Map<string, { category: TechCategory, misses: number, versions: string[], signals: string[] }>();
+
+  const test = (name: string, category: TechCategory, pattern: Pattern, type: keyof typeof DEFAULT_CONFIDENCE, subjects: string[], label: string) => {
+    const { source, confidence } = typeof pattern === "string" ? { source: pattern, confidence: DEFAULT_CONFIDENCE[type] } : { source: pattern.pattern, confidence: pattern.confidence };
+    const regex = new RegExp(source, "i");
+    for (const subject of subjects) {
+      const match = subject.match(regex);
+      if (!match) continue;
+      const entry = found.get(name) ?? { category, misses: 1, versions: [], signals: [] };
+      // Independent signals compound: two 60% hints make an 84% detection
+      entry.misses *= 1 - confidence / 100;
+      if (match[1]) entry.versions.push(match[1]);
+      entry.signals.push(label);
+      found.set(name, entry);
+      return;
+    }
+  };
+
+  for (const [name, signature] of Object.entries(SIGNATURES as Record<string, Signature>)) {
+    const category = signature.category as TechCategory;
+    Object.entries(signature.meta ?? {}).forEach(([key, pattern]) => test(name, category, pattern, "meta", meta[key] ?? [], `meta ${key}`));
+    Object.entries(signature.headers ?? {}).forEach(([key, pattern]) => {
+      const value = headers.get(key);
+      if (value !== null) test(name, category, pattern, "headers", [value], `header ${key}`);
+    });
+    signature.cookies?.forEach(pattern => test(name, category, pattern, "cookies", cookieNames, "cookie"));
+    signature.scripts?.forEach(pattern => test(name, category, pattern, "scripts", scripts, "script"));
+    signature.html?.forEach(pattern => test(name, category, pattern, "html", [html], "html"));
+  }
+
+  const detections = new Map<string, TechDetection>();
+  found.forEach((entry, name) => {
+    // The most specific version string wins (e.g. "6.4.2" over "6")
+    const version = entry.versions.sort((a, b) => b.length - a.length)[0] ?? null;
+    detections.set(name, { name, category: entry.category, version, confidence: Math.round((1 - entry.misses) * 100), signals: [...new Set(entry.signals)] });
+  });
+
+  // Implied technologies, transitively (WooCommerce -> WordPress -> PHP)
+  const queue = [...detections.values()];
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    for (const implied of (SIGNATURES as Record<string, Signature>)[parent.name]?.implies ?? []) {
+      if (detections.has(implied)) continue;
+      const signature = (SIGNATURES as Record<string, Signature>)[implied];
+      if (!signature) continue;
+      const detection: TechDetection = { name: implied, category: signature.category as TechCategory, version: null, confidence: parent.confidence, signals: [`implied by ${parent.name}`] };
+      detections.set(implied, detection);
+      queue.push(detection);
+    }
+  }
+
+  return [...detections.values()].filter(d => d.confidence >= MIN_CONFIDENCE).sort((a, b) => b.confidence - a.confidence);
+}
+
+// Rebuilds the detected stack from "tech.detected" findings, e.g. for the dashboard
+export function technologiesFromFindings(findings: Finding[]): TechDetection[] {
+  return findings.filter(f => f.id === "tech.detected").map(f => ({
+    name: f.subject ?? f.title,
+    category: f.evidence.category as TechCategory,
+    version: (f.evidence.version as string | null) ?? null,
+    confidence: Number(f.evidence.confidence),
+    signals: (f.evidence.signals as string[]) ?? [],
+  }));
+}
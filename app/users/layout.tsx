@@ -0,0 +1,7 @@
+import { requirePageUser } from '../auth';
+
+// Admins only
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  await requirePageUser("admin");
+  return children;
+}
@@ -0,0 +1,138 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { getOrganisations, getUsers, removeUser, saveUserSettings } from '../actions';
+import { ROLE_LABELS, type Organisation, type Role, type SessionUser } from '../workspace';
+
+type UserRow = SessionUser & { lastSignInAt: string | null };
+
+const formatDate = (iso: string | null) => iso ? new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" }) : "Never";
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none";
+const labelClass = "block text-xs font-bold text-slate-400 uppercase mb-2";
+
+export default function Users() {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  // Set while editing an existing user
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>("consultant");
+  const [organisationId, setOrganisationId] = useState('');
+  const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    getUsers().then(setUsers);
+    getOrganisations().then(setOrganisations);
+  }, []);
+
+  const refresh = async () => setUsers(await getUsers());
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setEmail('');
+    setPassword('');
+    setErrors([]);
+  };
+
+  const handleEdit = (user: UserRow) => {
+    setEditing(user.id);
+    setName(user.name);
+    setEmail(user.email);
+    setRole(user.role);
+    setOrganisationId(user.organisationId ?? '');
+    setPassword('');
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    const result = await saveUserSettings({ id: editing ?? undefined, name, email, role, organisationId: organisationId || null, password: password || undefined });
+    setErrors(result.errors);
+    if (result.user) {
+      resetForm();
+      await refresh();
+    }
+  };
+
+  const handleRemove = async (user: UserRow) => {
+    if (!confirm(`Remove ${user.email}? They are signed out and can no longer sign in.`)) return;
+    const error = await removeUser(user.id);
+    setErrors(error ? [error] : []);
+    await refresh();
+  };
+
+  const organisationName = (id: string | null) => organisations.find(o => o.id === id)?.name ?? "—";
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-6xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Workspace <span className="text-emerald-400">Users</span></h1>
+
+        <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-emerald-400 uppercase mb-2 tracking-wider">Name</label>
+              <input type="text" className={inputClass} value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Email</label>
+              <input type="email" className={inputClass} value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Role</label>
+              <select className={inputClass} value={role} onChange={(e) => setRole(e.target.value as Role)}>
+                {Object.entries(ROLE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Organisation</label>
+              <select className={inputClass} value={organisationId} onChange={(e) => setOrganisationId(e.target.value)} disabled={role !== "client"} title="Client users only see their organisation's domains">
+                <option value="">—</option>
+                {organisations.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Password</label>
+              <input type="password" autoComplete="new-password" placeholder={editing ? "Unchanged" : ""} className={inputClass} value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+          </div>
+          {errors.length > 0 && <ul className="text-xs text-red-400 space-y-1">{errors.map((e, i) => <li key={i}>⚠ {e}</li>)}</ul>}
+          <div className="flex gap-3">
+            <button onClick={handleSave} className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 px-8 rounded-lg shadow-lg transition-all">
+              {editing ? "SAVE CHANGES" : "ADD USER"}
+            </button>
+            {editing && <button onClick={resetForm} className="text-sm text-slate-400 hover:text-white px-4">Cancel</button>}
+          </div>
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 p-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[11px] uppercase tracking-widest text-slate-400">
+                <th className="pb-3">User</th><th className="pb-3">Role</th><th className="pb-3">Organisation</th><th className="pb-3">Last Sign-in</th><th className="pb-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => (
+                <tr key={u.id} className="border-t border-slate-700">
+                  <td className="py-3 pr-4"><span className="text-slate-200 font-medium">{u.name}</span> <span className="text-slate-500">{u.email}</span></td>
+                  <td className="py-3 pr-4 text-slate-300">{ROLE_LABELS[u.role]}</td>
+                  <td className="py-3 pr-4 text-slate-400">{organisationName(u.organisationId)}</td>
+                  <td className="py-3 pr-4 text-slate-400">{formatDate(u.lastSignInAt)}</td>
+                  <td className="py-3 text-right whitespace-nowrap">
+                    <button onClick={() => handleEdit(u)} className="text-xs text-slate-300 hover:text-white px-2">Edit</button>
+                    <button onClick={() => handleRemove(u)} className="text-xs text-red-400 hover:text-red-300 px-2">Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+// app/verification.ts
+import dns from 'dns/promises';
+import { randomBytes } from 'crypto';
+import { audit } from './auditLog';
+import { dataFile, jsonStore } from './jsonStore';
+import { guardedFetch, guardedLookup, hostnameProblem, normalizeDomain, resolveTarget } from './targets';
+
+// How the owner proved control: a TXT record, or a file on the website
+export type VerificationMethod = "dns" | "file";
+
+export interface VerificationAttempt {
+  at: string;
+  method: VerificationMethod;
+  actor: string;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface DomainVerification {
+  domain: string;
+  // What the owner publishes; kept across re-checks so a renewal needs no DNS or file change
+  token: string;
+  createdAt: string;
+  createdBy: string;
+  // Set by the latest successful check and cleared by revocation
+  verifiedAt: string | null;
+  verifiedBy: string | null;
+  method: VerificationMethod | null;
+  expiresAt: string | null;
+  // Newest first
+  attempts: VerificationAttempt[];
+}
+
+export interface VerificationView extends DomainVerification {
+  status: "pending" | "verified" | "expired";
+  instructions: { dnsName: string, dnsValue: string, fileUrl: string, fileContent: string };
+}
+
+// Proof lasts VERIFICATION_TTL_DAYS (default 90); after that deep scans stop until someone re-checks
+const ttlMs = () => (Number(process.env.VERIFICATION_TTL_DAYS) > 0 ? Number(process.env.VERIFICATION_TTL_DAYS) : 90) * 24 * 60 * 60 * 1000;
+const RETAINED_ATTEMPTS = 20;
+const DNS_LABEL = "_collective-vision";
+const FILE_PATH = "/.well-known/collective-vision-verification.txt";
+const MAX_FILE_REDIRECTS = 3;
+
+// --- FILE STORE ---
+// Every verification in one JSON file, keyed by domain
+const store = jsonStore<Record<string, DomainVerification>>(() => dataFile("verifications.json"), () => ({}));
+
+export function describeVerification(verification: DomainVerification, now = new Date()): VerificationView {
+  const status = !verification.expiresAt ? "pending" : Date.parse(verification.expiresAt) > now.getTime() ? "verified" : "expired";
+  return {
+    ...verification,
+    status,
+    instructions: {
+      dnsName: `${DNS_LABEL}.${verification.domain}`,
+      dnsValue: verification.token,
+      fileUrl: `https://${verification.domain}${FILE_PATH}`,
+      fileContent: verification.token,
+    },
+  };
+}
+
+export async function listVerifications(): Promise<VerificationView[]> {
+  return Object.values(await store.read()).map(v => describeVerification(v)).sort((a, b) => a.domain.localeCompare(b.domain));
+}
+
+export async function getVerification(domain: string): Promise<VerificationView | null> {
+  const verification = (await store.read())[domain];
+  return verification ? describeVerification(verification) : null;
+}
+
+// A DNS proof covers the domain's subdomains too, since whoever controls the zone controls them;
+// a file proof only covers the host that served it
+export async function isVerified(domain: string, now = new Date()): Promise<boolean> {
+  const all = await store.read();
+  return Object.values(all).some(v =>
+    describeVerification(v, now).status === "verified"
+    && (v.domain === domain || (v.method === "dns" && domain.endsWith(`.${v.domain}`)))
+  );
+}
+
+// Issues the token to publish, or returns the existing one
+export async function startVerification(domain: string, actor: string): Promise<{ verification: VerificationView | null, error: string | null }> {
+  const clean = normalizeDomain(domain);
+  const problem = hostnameProblem(clean);
+  if (problem) return { verification: null, error: problem.message };
+  let created = false;
+  const verification = await store.update(all => {
+    if (!all[clean]) {
+      created = true;
+      all[clean] = { domain: clean, token: `cv-verify-${randomBytes(16).toString("hex")}`, createdAt: new Date().toISOString(), createdBy: actor, verifiedAt: null, verifiedBy: null, method: null, expiresAt: null, attempts: [] };
+    }
+    return all[clean];
+  });
+  if (created) await audit(actor, "verification-start", clean);
+  return { verification: describeVerification(verification), error: null };
+}
+
+// --- PROOF CHECKS ---
+async function dnsProof(verification: DomainVerification) {
+  const name = `${DNS_LABEL}.${verification.domain}`;
+  const records = await dns.resolveTxt(name).then(r => r.map(chunks => chunks.join("").trim())).catch(() => [] as string[]);
+  if (!records.includes(verification.token)) throw new Error(records.length === 0 ? `No TXT record found at ${name}.` : `The TXT record at ${name} doesn't contain the token.`);
+}
+
+// Redirects are followed only within the domain (e.g. to www), so the file must be served by the domain itself
+async function fileProof(verification: DomainVerification) {
+  const { domain, token } = verification;
+  const lookup = guardedLookup(await resolveTarget(domain));
+  let url = `https://${domain}${FILE_PATH}`;
+  for (let hop = 0; ; hop++) {
+    const response = await guardedFetch(url, lookup, { maxBytes: 4096 });
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location && hop < MAX_FILE_REDIRECTS) {
+      const next = new URL(location, url);
+      if (next.protocol !== "https:" || (next.hostname !== domain && !next.hostname.endsWith(`.${domain}`))) throw new Error(`${url} redirects off the domain, to ${next.href}.`);
+      url = next.href;
+      continue;
+    }
+    if (response.status !== 200) throw new Error(`${url} answered HTTP ${response.status}.`);
+    if (response.body.trim() !== token) throw new Error(`${url} doesn't contain just the token.`);
+    return;
+  }
+}
+
+// Looks for the token now; success (re)starts the validity period, failure is recorded either way
+export async function checkVerification(rawDomain: string, method: VerificationMethod, actor: string): Promise<{ verification: VerificationView | null, error: string | null }> {
+  const domain = normalizeDomain(rawDomain);
+  const problem = hostnameProblem(domain);
+  if (problem) return { verification: null, error: problem.message };
+  if (method !== "dns" && method !== "file") return { verification: null, error: `Unknown verification method '${method}'.` };
+  const existing = (await store.read())[domain];
+  if (!existing) return { verification: null, error: `Start verification for ${domain} first.` };
+
+  let error: string | null = null;
+  try {
+    await (method === "dns" ? dnsProof(existing) : fileProof(existing));
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const now = new Date();
+  const attempt: VerificationAttempt = { at: now.toISOString(), method, actor, ok: !error, error };
+  const verification = await store.update(all => {
+    const current = all[domain];
+    if (!current) return null;
+    current.attempts = [attempt, ...current.attempts].slice(0, RETAINED_ATTEMPTS);
+    // A failed re-check leaves an unexpired proof in place; it still lapses at its expiry date
+    if (!error) Object.assign(current, { verifiedAt: attempt.at, verifiedBy: actor, method, expiresAt: new Date(now.getTime() + ttlMs()).toISOString() });
+    return current;
+  });
+  await audit(actor, "verification-check", domain, { method, ok: !error, error });
+  return { verification: verification && describeVerification(verification), error };
+}
+
+// Deep scans stop at once; the token stays, so the owner can re-verify without publishing a new one
+export async function revokeVerification(rawDomain: string, actor: string): Promise<VerificationView | null> {
+  const domain = normalizeDomain(rawDomain);
+  const verification = await store.update(all => {
+    const current = all[domain];
+    if (!current) return null;
+    Object.assign(current, { verifiedAt: null, verifiedBy: null, method: null, expiresAt: null });
+    return current;
+  });
+  if (verification) await audit(actor, "verification-revoke", domain);
+  return verification && describeVerification(verification);
+}
@@ -0,0 +1,167 @@
+"use client";
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { checkDomainVerification, getSession, getVerifications, revokeDomainVerification, startDomainVerification } from '../actions';
+import type { VerificationMethod, VerificationView } from '../verification';
+import { hasRole, type Organisation, type SessionUser } from '../workspace';
+
+const formatDate = (iso: string | null) => iso ? new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" }) : "—";
+
+const STATUS_STYLES: Record<VerificationView["status"], { label: string, className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-500/20 text-yellow-300 border-yellow-500/30" },
+  verified: { label: "Verified", className: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30" },
+  expired: { label: "Expired", className: "bg-red-500/20 text-red-300 border-red-500/30" },
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:border-emerald-500 outline-none";
+
+function CopyValue({ label, value }: { label: string, value: string }) {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = () => {
+    navigator.clipboard.writeText(value);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+  return (
+    <div>
+      <p className="text-[11px] uppercase tracking-widest text-slate-500 mb-1">{label}</p>
+      <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2">
+        <code className="flex-1 font-mono text-xs text-emerald-300 break-all">{value}</code>
+        <button onClick={handleCopy} className="text-[11px] text-slate-400 hover:text-white">{copied ? "Copied ✓" : "Copy"}</button>
+      </div>
+    </div>
+  );
+}
+
+export default function Verification() {
+  const [session, setSession] = useState<{ user: SessionUser, organisations: Organisation[] } | null>(null);
+  const [verifications, setVerifications] = useState<VerificationView[]>([]);
+  const [domain, setDomain] = useState('');
+  // Domain whose check is running
+  const [checking, setChecking] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    getSession().then(current => {
+      if (!current) return window.location.assign("/login");
+      setSession(current);
+      // Linked from the dashboard as /verification?domain=example.com
+      setDomain(new URLSearchParams(window.location.search).get("domain") ?? "");
+    });
+    getVerifications().then(setVerifications);
+  }, []);
+
+  const user = session?.user ?? null;
+  const isStaff = !!user && hasRole(user, "consultant");
+  // Client users can only verify their own organisation's domains
+  const ownDomains = !isStaff ? session?.organisations[0]?.domains ?? [] : [];
+
+  const replace = (verification: VerificationView) => setVerifications(current => [...current.filter(v => v.domain !== verification.domain), verification].sort((a, b) => a.domain.localeCompare(b.domain)));
+
+  const handleStart = async () => {
+    if (!domain) return;
+    const result = await startDomainVerification(domain);
+    setErrors(current => ({ ...current, "": result.error ?? "" }));
+    if (result.verification) {
+      replace(result.verification);
+      setDomain('');
+    }
+  };
+
+  const handleCheck = async (target: string, method: VerificationMethod) => {
+    setChecking(target);
+    const result = await checkDomainVerification(target, method);
+    setChecking(null);
+    setErrors(current => ({ ...current, [target]: result.error ?? "" }));
+    if (result.verification) replace(result.verification);
+  };
+
+  const handleRevoke = async (target: string) => {
+    if (!confirm(`Revoke verification for ${target}? Deep scans stop until it is verified again.`)) return;
+    const verification = await revokeDomainVerification(target);
+    if (verification) replace(verification);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 font-sans">
+      <div className="max-w-4xl mx-auto p-8 space-y-6">
+        <Link href="/" className="text-xs text-slate-400 hover:text-white">← Back to scanner</Link>
+        <h1 className="text-2xl font-bold tracking-widest uppercase">Domain <span className="text-emerald-400">Verification</span></h1>
+
+        <div className="bg-slate-800 rounded-2xl p-8 shadow-2xl border border-slate-700 space-y-4">
+          <p className="text-xs text-slate-400">
+            Standard scans only look at what any visitor can see. Once the domain&apos;s owner proves control, with a DNS record or a file on the website,
+            consultants can run a deep scan: it also looks for exposed repositories, backups and directory listings, mixed content, outdated scripts and public admin logins.
+            Nothing is ever changed, and no login is attempted. Verification lasts a limited time and can be renewed by checking again.
+          </p>
+          <div className="flex gap-3">
+            {ownDomains.length > 0 ? (
+              <select className={inputClass} value={domain} onChange={(e) => setDomain(e.target.value)}>
+                <option value="">Choose a domain</option>
+                {ownDomains.map((d) => <option key={d} value={d}>{d}</option>)}
+              </select>
+            ) : (
+              <input type="text" placeholder="company.com" className={inputClass} value={domain} onChange={(e) => setDomain(e.target.value)} />
+            )}
+            <button onClick={handleStart} className="bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white font-bold py-3 px-8 rounded-lg shadow-lg transition-all whitespace-nowrap">
+              GET TOKEN
+            </button>
+          </div>
+          {errors[""] && <p className="text-xs text-red-400">⚠ {errors[""]}</p>}
+        </div>
+
+        {verifications.length === 0 && <p className="text-slate-500 text-sm italic">No domains have started verification yet.</p>}
+        {verifications.map((v) => (
+          <div key={v.domain} className="bg-slate-800 rounded-xl border border-slate-700 p-6 space-y-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Link href={`/history/${v.domain}`} className="text-lg font-bold text-white hover:text-emerald-400">{v.domain}</Link>
+                <span className={`text-[11px] uppercase tracking-widest px-2 py-0.5 rounded border ${STATUS_STYLES[v.status].className}`}>{STATUS_STYLES[v.status].label}</span>
+              </div>
+              <p className="text-xs text-slate-400">
+                {v.status === "pending" ? `Token issued ${formatDate(v.createdAt)} by ${v.createdBy}` : `Verified by ${v.method === "dns" ? "DNS" : "file"} ${formatDate(v.verifiedAt)} · ${v.status === "expired" ? "expired" : "expires"} ${formatDate(v.expiresAt)}`}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <p className="text-xs font-bold text-slate-300 uppercase">Option 1: DNS record</p>
+                <p className="text-xs text-slate-400">Add a TXT record at your DNS host. It also covers the domain&apos;s subdomains.</p>
+                <CopyValue label="Name" value={v.instructions.dnsName} />
+                <CopyValue label="Value" value={v.instructions.dnsValue} />
+                <button onClick={() => handleCheck(v.domain, "dns")} disabled={checking === v.domain} className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded transition disabled:opacity-50">Check DNS</button>
+              </div>
+              <div className="space-y-3">
+                <p className="text-xs font-bold text-slate-300 uppercase">Option 2: File on the website</p>
+                <p className="text-xs text-slate-400">Upload a plain-text file containing only the token, at this address.</p>
+                <CopyValue label="URL" value={v.instructions.fileUrl} />
+                <CopyValue label="Content" value={v.instructions.fileContent} />
+                <button onClick={() => handleCheck(v.domain, "file")} disabled={checking === v.domain} className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded transition disabled:opacity-50">Check file</button>
+              </div>
+            </div>
+
+            {checking === v.domain && <p className="text-xs text-blue-400 animate-pulse">Checking...</p>}
+            {errors[v.domain] && <p className="text-xs text-red-400">⚠ {errors[v.domain]}</p>}
+
+            {v.attempts.length > 0 && (
+              <details className="text-xs">
+                <summary className="text-slate-400 cursor-pointer hover:text-white">Recent checks ({v.attempts.length})</summary>
+                <ul className="mt-2 space-y-1">
+                  {v.attempts.map((a, i) => (
+                    <li key={i} className="text-slate-400">
+                      {formatDate(a.at)} · {a.method === "dns" ? "DNS" : "file"} · {a.actor} · {a.ok ? <span className="text-emerald-400">verified</span> : <span className="text-red-400">{a.error}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {isStaff && v.status === "verified" && (
+              <button onClick={() => handleRevoke(v.domain)} className="text-xs text-red-400 hover:text-red-300">Revoke verification</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+// app/workspace.ts
+// Users, client organisations and finding notes as the dashboard sees them. Types and labels only,
+// so client components can import it; the stores live in auth.ts, organisations.ts and findingNotes.ts.
+
+// admin: everything, including users; consultant: scans, clients, notes and monitoring;
+// client: read-only access to its own organisation's domains
+export type Role = "admin" | "consultant" | "client";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  consultant: "Consultant",
+  client: "Client (read-only)",
+};
+
+const ROLE_RANK: Record<Role, number> = { client: 0, consultant: 1, admin: 2 };
+
+export const hasRole = (user: Pick<SessionUser, "role">, role: Role) => ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+export const SESSION_COOKIE = "cv_session";
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  // Set for client users, who only see this organisation's domains
+  organisationId: string | null;
+}
+
+// A client business: the domains it owns and the profile its exposure is priced with
+export interface Organisation {
+  id: string;
+  name: string;
+  industry: string;
+  employees: number;
+  domains: string[];
+  createdAt: string;
+}
+
+export type NoteStatus = "accepted-risk" | "in-progress" | "fixed";
+
+export const NOTE_STATUS_LABELS: Record<NoteStatus, string> = {
+  "accepted-risk": "Accepted risk",
+  "in-progress": "In progress",
+  "fixed": "Fixed",
+};
+
+export interface FindingNote {
+  domain: string;
+  findingId: string;
+  subject: string | null;
+  status: NoteStatus;
+  text: string;
+  author: string;
+  updatedAt: string;
+}
+
+// The same issue on the same subject shares a note across scans
+export const noteKey = (finding: { id: string, subject?: string | null }) => `${finding.id}:${finding.subject ?? ""}`;
@@ -0,0 +1,152 @@
+// cli/scan.ts
+// Runs the scan engine from a terminal or CI job, without the Next.js app:
+//   npm run scan -- example.com example.org --profile strict-finance --min-score 70 --fail-on high
+import { parseArgs } from 'util';
+import { failedFindings, isInconclusive, type ScanResult, type Severity } from '../app/findings';
+import { DEFAULT_PORT_PROFILE, MAX_CUSTOM_PORTS, PORT_PROFILES, resolvePortSelection } from '../app/portProfiles';
+import { estimateExposure, formatExposureRange, formatMoney, INDUSTRY_LABELS, type ExposureEstimate } from '../app/riskCalculator';
+import { saveScan } from '../app/scanStore';
+import { hostnameProblem, normalizeDomain, runScan, TargetError } from '../app/scanner';
+import { DEFAULT_PROFILE, SCORING_PROFILES } from '../app/scoring';
+
+// 0: every gate passed; 1: a gate failed; 2: bad arguments or a refused target; 3: the scan itself crashed
+const EXIT = { ok: 0, gateFailed: 1, usage: 2, error: 3 };
+const SEVERITY_RANK: Severity[] = ["info", "low", "medium", "high", "critical"];
+
+const USAGE = `Usage: npm run scan -- <domain...> [options]
+
+Options:
+  --profile <id>            Scoring profile (${Object.keys(SCORING_PROFILES).join(", ")}; default ${DEFAULT_PROFILE})
+  --ports <profile|list>    Ports to probe: a port profile (${Object.keys(PORT_PROFILES).join(", ")}; default ${DEFAULT_PORT_PROFILE})
+                            or up to ${MAX_CUSTOM_PORTS} comma-separated port numbers, e.g. 22,8080,6379
+  --deep                    Add the deep checks; each domain's ownership must be verified in the web app
+  --format <table|json>     Output format (default table)
+  --min-score <n>           Exit 1 if any domain scores below n
+  --fail-on <severity>      Exit 1 if any issue is at or above this severity (${[...SEVERITY_RANK].reverse().join(", ")})
+  --fail-on-finding <id>    Exit 1 if this finding, or any under this prefix, fails (repeatable), e.g. web.hsts or email.dmarc
+  --industry <id>           Industry for the exposure estimate (${Object.keys(INDUSTRY_LABELS).join(", ")}; default other)
+  --employees <n>           Employee count for the exposure estimate (default 5)
+  --save                    Store each scan in the scan store, as the web app does
+  -h, --help                Show this help`;
+
+interface GateResult {
+  domain: string;
+  failures: string[];
+}
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(EXIT.usage);
+}
+
+function checkGates(scan: ScanResult, gates: { minScore: number | null, failOn: Severity | null, failOnFindings: string[] }): GateResult {
+  const failures: string[] = [];
+  const issues = failedFindings(scan.findings);
+  if (gates.minScore !== null && scan.score < gates.minScore) failures.push(`score ${scan.score} is below ${gates.minScore}`);
+  if (gates.failOn) {
+    const threshold = SEVERITY_RANK.indexOf(gates.failOn);
+    issues.filter(f => SEVERITY_RANK.indexOf(f.severity) >= threshold).forEach(f => failures.push(`${f.severity}: ${f.title}`));
+  }
+  gates.failOnFindings.forEach(prefix => {
+    issues.filter(f => f.id === prefix || f.id.startsWith(`${prefix}.`)).forEach(f => failures.push(`${f.id}: ${f.title}`));
+  });
+  return { domain: scan.domain, failures: [...new Set(failures)] };
+}
+
+function printTable(scan: ScanResult, exposure: ExposureEstimate, gate: GateResult) {
+  const issues = failedFindings(scan.findings).sort((a, b) => SEVERITY_RANK.indexOf(b.severity) - SEVERITY_RANK.indexOf(a.severity) || b.scoreImpact - a.scoreImpact);
+  console.log(`\n${scan.domain}  score ${scan.score}/100  exposure ${formatMoney(exposure.likely, exposure.currency)} (${formatExposureRange(exposure)})  (${scan.profile}, scoring v${scan.scoringVersion})`);
+  if (issues.length === 0) console.log("  no issues");
+  issues.forEach(f => console.log(`  ${f.severity.padEnd(8)} ${(f.scoreImpact > 0 ? `-${f.scoreImpact}` : "").padStart(6)}  ${f.title}`));
+  // Left out of the score; a gate can't see what these checks would have found
+  scan.checks.filter(isInconclusive).forEach(run => console.log(`  ? inconclusive: ${run.name} (${run.error ?? run.status})`));
+  gate.failures.forEach(failure => console.log(`  ✗ gate: ${failure}`));
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        "profile": { type: "string", default: DEFAULT_PROFILE },
+        "ports": { type: "string", default: DEFAULT_PORT_PROFILE },
+        "deep": { type: "boolean", default: false },
+        "format": { type: "string", default: "table" },
+        "min-score": { type: "string" },
+        "fail-on": { type: "string" },
+        "fail-on-finding": { type: "string", multiple: true, default: [] },
+        "industry": { type: "string", default: "other" },
+        "employees": { type: "string", default: "5" },
+        "save": { type: "boolean", default: false },
+        "help": { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (e) {
+    fail(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT.ok;
+  }
+
+  const domains = positionals.map(normalizeDomain);
+  if (domains.length === 0) fail("No domains given.");
+  const problems = domains.map(hostnameProblem).filter(p => p !== null);
+  if (problems.length > 0) fail(problems.map(p => p.message).join("\n"));
+  if (!SCORING_PROFILES[values.profile]) fail(`Unknown profile '${values.profile}'.`);
+  if (!resolvePortSelection(values.ports)) fail(`--ports must be a port profile or a comma-separated list of port numbers, not '${values.ports}'.`);
+  if (values.format !== "table" && values.format !== "json") fail(`Unknown format '${values.format}'.`);
+  if (!INDUSTRY_LABELS[values.industry]) fail(`Unknown industry '${values.industry}'.`);
+  const employees = Number(values.employees);
+  if (!Number.isInteger(employees) || employees < 1) fail("--employees must be a positive integer.");
+  const minScore = values["min-score"] === undefined ? null : Number(values["min-score"]);
+  if (minScore !== null && !Number.isFinite(minScore)) fail("--min-score must be a number.");
+  const failOn = (values["fail-on"] ?? null) as Severity | null;
+  if (failOn && !SEVERITY_RANK.includes(failOn)) fail(`Unknown severity '${failOn}'.`);
+  const gates = { minScore, failOn, failOnFindings: values["fail-on-finding"] };
+
+  const results = [];
+  // Domains that pass validation but don't resolve, resolve into private or reserved address space, or aren't verified for --deep
+  const refused: { domain: string, error: string }[] = [];
+  for (const domain of domains) {
+    if (values.format === "table") console.error(`Scanning ${domain}...`);
+    let scan;
+    try {
+      scan = await runScan(domain, values.profile, { ports: values.ports, deep: values.deep });
+    } catch (e) {
+      if (!(e instanceof TargetError)) throw e;
+      if (values.format === "table") console.error(`✗ ${e.message}`);
+      refused.push({ domain, error: e.message });
+      continue;
+    }
+    const options = { industry: values.industry, employees };
+    const stored = values.save ? await saveScan(scan, options) : null;
+    const exposure = stored?.exposure ?? estimateExposure(scan, options);
+    const gate = checkGates(scan, gates);
+    if (values.format === "table") printTable(scan, exposure, gate);
+    results.push({ id: stored?.id ?? null, exposure, gate, scan });
+  }
+
+  const passed = results.every(r => r.gate.failures.length === 0);
+  if (values.format === "json") {
+    console.log(JSON.stringify({
+      passed: passed && refused.length === 0,
+      results: results.map(r => ({ id: r.id, ...r.scan, exposure: r.exposure, gateFailures: r.gate.failures })),
+      refused,
+    }, null, 2));
+  } else if (results.length > 0) {
+    console.log(`\n${passed ? "✓ All gates passed" : "✗ Gates failed"} (${results.length} domain${results.length === 1 ? "" : "s"})`);
+  }
+  if (refused.length > 0) return EXIT.usage;
+  return passed ? EXIT.ok : EXIT.gateFailed;
+}
+
+main().then(
+  code => { process.exitCode = code; },
+  e => {
+    console.error(e instanceof Error ? e.stack : e);
+    process.exitCode = EXIT.error;
+  },
+);
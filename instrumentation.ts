@@ -0,0 +1,7 @@
+// Starts the monitoring scheduler once per server process; set MONITOR_SCHEDULER=off on extra
+// instances so each monitored domain is only scanned and alerted on once
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.MONITOR_SCHEDULER === "off") return;
+  const { startMonitorScheduler } = await import('./app/monitoring');
+  startMonitorScheduler();
+}
@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE } from './app/workspace';
+
+// Sends visitors without a session cookie to /login before any page renders. The cookie itself is
+// verified by the pages and server actions (app/auth.ts). The /scans routes answer 401 on their own
+// and the HTTP API uses API keys, so both are left out here.
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+  const login = new URL("/login", request.url);
+  const next = request.nextUrl.pathname + request.nextUrl.search;
+  if (next !== "/") login.searchParams.set("next", next);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!login|scans|api/|_next/|.*\\.(?:ico|png|svg)$).*)"],
+};